@@ -0,0 +1,139 @@
+import React, { useEffect, useState } from 'react';
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { CheckCircle2, XCircle } from "lucide-react";
+import {
+  describeConformanceValue,
+  mismatchesByFunction,
+  runFixture,
+  type ConformanceFixture,
+} from "@/lib/formula/conformance";
+import { readWorkbookFixture } from "@/lib/formula/conformance/xlsx";
+
+// Every fixture and workbook in the folders is checked; adding a regression test is adding a file there
+const FIXTURES = Object.values(
+  import.meta.glob<ConformanceFixture>("/src/lib/formula/conformance/fixtures/*.json", { eager: true, import: "default" })
+);
+const WORKBOOK_URLS = import.meta.glob<string>("/src/lib/formula/conformance/workbooks/*.xlsx", {
+  eager: true,
+  query: "?url",
+  import: "default",
+});
+
+const loadWorkbooks = () =>
+  Promise.all(
+    Object.entries(WORKBOOK_URLS).sort().map(async ([path, url]) => {
+      const response = await fetch(url);
+      return readWorkbookFixture(path.split("/").pop() ?? path, new Uint8Array(await response.arrayBuffer()));
+    })
+  );
+
+/**
+ * Recalculates the conformance fixtures with our engine and lists every
+ * formula whose result differs from the expected value, by function. The
+ * workbooks Excel saved are unpacked after the page first renders.
+ */
+const ConformanceReport: React.FC = () => {
+  const [workbooks, setWorkbooks] = useState<ConformanceFixture[]>([]);
+  const [workbookError, setWorkbookError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let current = true;
+    loadWorkbooks()
+      .then(fixtures => {
+        if (current) setWorkbooks(fixtures);
+      })
+      .catch(error => {
+        if (current) setWorkbookError(error instanceof Error ? error.message : String(error));
+      });
+    return () => {
+      current = false;
+    };
+  }, []);
+
+  const fixtures = [...workbooks, ...FIXTURES];
+  const reports = fixtures.map(runFixture);
+  const byFunction = mismatchesByFunction(reports);
+  const checked = reports.reduce((sum, report) => sum + report.checked, 0);
+  const failed = reports.reduce((sum, report) => sum + report.mismatches.length, 0);
+
+  return (
+    <div className="min-h-screen bg-gradient-subtle p-4">
+      <div className="max-w-5xl mx-auto space-y-6">
+        <Card className="shadow-card">
+          <CardHeader>
+            <CardTitle>Excel Conformance</CardTitle>
+            <CardDescription>
+              {checked - failed} of {checked} formulas in {reports.length} fixture workbooks agree with the values expected of Excel.
+            </CardDescription>
+            {workbookError && <p className="text-sm text-destructive">Couldn't read the workbooks Excel saved: {workbookError}</p>}
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Fixture</TableHead>
+                  <TableHead>Formulas</TableHead>
+                  <TableHead>Result</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {reports.map((report, i) => (
+                  <TableRow key={report.fixture}>
+                    <TableCell>
+                      <div className="font-medium">{report.fixture}</div>
+                      <div className="text-xs text-muted-foreground">{fixtures[i].source}</div>
+                    </TableCell>
+                    <TableCell>{report.checked}</TableCell>
+                    <TableCell>
+                      {report.mismatches.length === 0 ? (
+                        <Badge variant="outline" className="text-success"><CheckCircle2 className="w-3 h-3 mr-1" />Passes</Badge>
+                      ) : (
+                        <Badge variant="destructive"><XCircle className="w-3 h-3 mr-1" />{report.mismatches.length} mismatched</Badge>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+
+        {byFunction.map(([name, mismatches]) => (
+          <Card key={name} className="shadow-card">
+            <CardHeader>
+              <CardTitle className="text-lg font-mono">{name}</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Fixture</TableHead>
+                    <TableHead>Cell</TableHead>
+                    <TableHead>Formula</TableHead>
+                    <TableHead>Expected</TableHead>
+                    <TableHead>Ours</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {mismatches.map(mismatch => (
+                    <TableRow key={`${mismatch.fixture}!${mismatch.cell}`}>
+                      <TableCell>{mismatch.fixture}</TableCell>
+                      <TableCell className="font-mono">{mismatch.cell}</TableCell>
+                      <TableCell className="font-mono text-xs">{mismatch.formula}</TableCell>
+                      <TableCell className="font-mono">{describeConformanceValue(mismatch.expected)}</TableCell>
+                      <TableCell className="font-mono text-destructive">{describeConformanceValue(mismatch.actual)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ConformanceReport;
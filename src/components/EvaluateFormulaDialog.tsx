@@ -0,0 +1,84 @@
+import React, { useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Calculator } from "lucide-react";
+import { formatCellAddress, type CalcClient, type EvaluationStep } from "@/lib/formula";
+
+interface EvaluateFormulaDialogProps {
+  engine: CalcClient;
+  row: number;
+  col: number;
+}
+
+/**
+ * Excel's Evaluate Formula dialog: each press of Evaluate works out the
+ * underlined part of the formula and writes its value in, so a reviewer can
+ * see exactly where a result such as #N/A came from.
+ */
+const EvaluateFormulaDialog: React.FC<EvaluateFormulaDialogProps> = ({ engine, row, col }) => {
+  const [stepIndex, setStepIndex] = useState(0);
+  // The worker works the steps out when the dialog opens; null until they arrive
+  const [steps, setSteps] = useState<EvaluationStep[] | null>(null);
+  const address = formatCellAddress({ row, col });
+  const step = steps?.[stepIndex];
+  const last = steps?.[steps.length - 1];
+  const finished = steps !== null && stepIndex >= steps.length;
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open) return;
+    setStepIndex(0);
+    setSteps(null);
+    engine.getEvaluationSteps(row, col).then(setSteps);
+  };
+
+  return (
+    <Dialog onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="font-mono">
+          <Calculator className="w-3 h-3 mr-1" />
+          {address}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Evaluate Formula</DialogTitle>
+          <DialogDescription>
+            To see how {address} is calculated, press Evaluate to work out the underlined part of the formula.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium">Evaluation:</h4>
+          <div className="font-mono text-sm bg-muted p-3 rounded-lg break-all min-h-[3rem]">
+            {steps?.length === 0 && engine.getRaw(row, col)}
+            {step && (
+              <>
+                {step.formula.slice(0, step.start)}
+                <span className="underline decoration-2 underline-offset-4 decoration-primary">{step.formula.slice(step.start, step.end)}</span>
+                {step.formula.slice(step.end)}
+              </>
+            )}
+            {/* The last step evaluates the whole formula, so its result is the cell's value */}
+            {finished && last && <span className="font-semibold">{last.result}</span>}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {steps === null
+              ? 'Evaluating…'
+              : steps.length === 0
+                ? 'There is nothing to evaluate in this cell.'
+                : finished
+                  ? `The formula returns ${last.result}.`
+                  : `Step ${stepIndex + 1} of ${steps.length}`}
+          </p>
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={() => setStepIndex(0)} disabled={stepIndex === 0}>Restart</Button>
+          <Button onClick={() => setStepIndex(index => index + 1)} disabled={steps === null || finished}>Evaluate</Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default EvaluateFormulaDialog;
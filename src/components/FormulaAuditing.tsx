@@ -0,0 +1,100 @@
+import React from 'react';
+import { Button } from "@/components/ui/button";
+import { ArrowLeftToLine, ArrowRightFromLine, Eraser } from "lucide-react";
+import type { TraceArrow } from "@/hooks/use-trace-arrows";
+import { cellBox, type CellBox, type GridMetrics } from "@/hooks/use-virtual-grid";
+
+interface PlacedArrow {
+  /** The traced range, boxed when it is more than one cell. */
+  source: CellBox;
+  isRange: boolean;
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+}
+
+interface TraceArrowsOverlayProps {
+  arrows: TraceArrow[];
+  /** The sizes of the grid's cells, which place the arrows without measuring cells that may not be rendered. */
+  metrics: GridMetrics;
+}
+
+const place = (metrics: GridMetrics, { from, to }: TraceArrow): PlacedArrow => {
+  const first = cellBox(metrics, from.start.row, from.start.col);
+  const last = cellBox(metrics, from.end.row, from.end.col);
+  const target = cellBox(metrics, to.row, to.col);
+  const source = {
+    left: first.left,
+    top: first.top,
+    width: last.left + last.width - first.left,
+    height: last.top + last.height - first.top,
+  };
+  return {
+    source,
+    isRange: from.start.row !== from.end.row || from.start.col !== from.end.col,
+    x1: source.left + source.width / 2,
+    y1: source.top + source.height / 2,
+    x2: target.left + target.width / 2,
+    y2: target.top + target.height / 2,
+  };
+};
+
+/**
+ * Draws trace arrows over a grid as Excel does: a dot where each arrow
+ * starts, a box around a traced range and an arrowhead on the formula cell.
+ * It covers the grid's body, so arrows to cells scrolled out of view still
+ * lead off the edge.
+ */
+export const TraceArrowsOverlay: React.FC<TraceArrowsOverlayProps> = ({ arrows, metrics }) => {
+  if (arrows.length === 0) return null;
+  return (
+    <svg className="absolute inset-0 w-full h-full pointer-events-none z-20" aria-hidden>
+      <defs>
+        <marker id="trace-arrowhead" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse">
+          <path d="M 0 0 L 10 5 L 0 10 z" fill="#2563eb" />
+        </marker>
+      </defs>
+      {arrows.map(arrow => place(metrics, arrow)).map(({ source, isRange, x1, y1, x2, y2 }, i) => (
+        <g key={i} stroke="#2563eb" fill="#2563eb">
+          {isRange && (
+            <rect x={source.left + 1} y={source.top + 1} width={source.width - 2} height={source.height - 2} fill="none" strokeWidth={2} />
+          )}
+          <circle cx={x1} cy={y1} r={3} stroke="none" />
+          <line x1={x1} y1={y1} x2={x2} y2={y2} strokeWidth={1.5} markerEnd="url(#trace-arrowhead)" />
+        </g>
+      ))}
+    </svg>
+  );
+};
+
+interface FormulaAuditingToolbarProps {
+  onTracePrecedents: () => void;
+  onTraceDependents: () => void;
+  onRemoveArrows: () => void;
+  /** Whether any arrows are showing, so Remove Arrows has something to do. */
+  hasArrows: boolean;
+}
+
+/** The Formula Auditing buttons from Excel's Formulas tab. Pressing a trace again follows it one more level. */
+export const FormulaAuditingToolbar: React.FC<FormulaAuditingToolbarProps> = ({
+  onTracePrecedents,
+  onTraceDependents,
+  onRemoveArrows,
+  hasArrows,
+}) => (
+  <div className="flex items-center gap-2">
+    <Button variant="outline" size="sm" onClick={onTracePrecedents}>
+      <ArrowRightFromLine className="w-3 h-3 mr-1" />
+      Trace Precedents
+    </Button>
+    <Button variant="outline" size="sm" onClick={onTraceDependents}>
+      <ArrowLeftToLine className="w-3 h-3 mr-1" />
+      Trace Dependents
+    </Button>
+    <Button variant="outline" size="sm" onClick={onRemoveArrows} disabled={!hasArrows}>
+      <Eraser className="w-3 h-3 mr-1" />
+      Remove Arrows
+    </Button>
+  </div>
+);
@@ -0,0 +1,164 @@
+import React, { useImperativeHandle, useRef, useState } from 'react';
+import { Command, CommandGroup, CommandItem, CommandList } from "@/components/ui/command";
+import { Popover, PopoverAnchor, PopoverContent } from "@/components/ui/popover";
+import FormulaInput from "@/components/FormulaInput";
+import { FunctionSquare, Tag } from "lucide-react";
+import {
+  CANONICAL_SYNTAX,
+  completionsFor,
+  formulaContextAt,
+  FUNCTION_SIGNATURES,
+  parameterIndex,
+  type Completion,
+  type FormulaSyntax,
+} from "@/lib/formula";
+
+interface FormulaBarProps {
+  value: string;
+  onChange: (value: string) => void;
+  /** Called when Enter confirms the formula. */
+  onEnter: () => void;
+  /** Called when Esc abandons the formula, unless it only closes the suggestions. */
+  onCancel?: () => void;
+  /** Called with every key pressed in the bar, before the bar handles it. */
+  onKeyDown?: (e: React.KeyboardEvent<HTMLInputElement>) => void;
+  /** The functions to suggest, e.g. only those a task allows. */
+  functions: string[];
+  /** Defined names to suggest alongside functions. */
+  names: string[];
+  /** The separators the formula is typed with, which signature help also shows. */
+  syntax?: FormulaSyntax;
+  onFocus?: () => void;
+  onBlur?: () => void;
+}
+
+/** Shows a function's parameters with the one being typed in bold, e.g. VLOOKUP(lookup_value, **table_array**, …). */
+const SignatureHelp: React.FC<{ name: string; argIndex: number; separator: string }> = ({ name, argIndex, separator }) => {
+  const signature = FUNCTION_SIGNATURES[name];
+  if (!signature) return null;
+  const current = parameterIndex(signature, argIndex);
+  return (
+    <div className="px-3 py-2 text-xs border-b">
+      <div className="font-mono">
+        {name}(
+        {signature.params.map((param, i) => (
+          <React.Fragment key={param}>
+            {i > 0 && `${separator} `}
+            <span className={i === current ? 'font-bold' : ''}>{param}</span>
+          </React.Fragment>
+        ))}
+        {signature.repeats ? `${separator} ...` : ''})
+      </div>
+      <p className="mt-1 text-muted-foreground">{signature.description}</p>
+    </div>
+  );
+};
+
+/**
+ * The formula bar's input. Like Excel's formula IntelliSense, it lists the
+ * functions and names that match what is being typed, which Tab or a click
+ * inserts, and shows the signature of the function call around the cursor.
+ */
+const FormulaBar = React.forwardRef<HTMLInputElement, FormulaBarProps>(({ value, onChange, onEnter, onCancel, onKeyDown, functions, names, syntax = CANONICAL_SYNTAX, onFocus, onBlur }, ref) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  useImperativeHandle(ref, () => inputRef.current);
+  const [cursor, setCursor] = useState(0);
+  const [active, setActive] = useState('');
+  // Escape hides the popup until the formula changes again
+  const [dismissed, setDismissed] = useState(false);
+
+  const context = formulaContextAt(value, Math.min(cursor, value.length), syntax);
+  const completions = context.partial ? completionsFor(context.partial.text, functions, names) : [];
+  const selected = completions.find(completion => completion.label === active) ?? completions[0];
+  const signature = context.call && FUNCTION_SIGNATURES[context.call.name] ? context.call : null;
+  const open = !dismissed && (completions.length > 0 || signature !== null);
+
+  const trackCursor = (e: React.SyntheticEvent<HTMLInputElement>) => setCursor(e.currentTarget.selectionStart ?? 0);
+
+  const accept = (completion: Completion) => {
+    const { start, end } = context.partial;
+    const inserted = completion.kind === 'function' ? `${completion.label}(` : completion.label;
+    const next = value.slice(0, start) + inserted + value.slice(end);
+    const position = start + inserted.length;
+    onChange(next);
+    setCursor(position);
+    requestAnimationFrame(() => inputRef.current?.setSelectionRange(position, position));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    onKeyDown?.(e);
+    if (open && completions.length > 0 && (e.key === 'ArrowDown' || e.key === 'ArrowUp')) {
+      e.preventDefault();
+      const index = completions.indexOf(selected) + (e.key === 'ArrowDown' ? 1 : -1);
+      setActive(completions[(index + completions.length) % completions.length].label);
+    } else if (open && selected && e.key === 'Tab') {
+      e.preventDefault();
+      accept(selected);
+    } else if (e.key === 'Escape') {
+      if (open) setDismissed(true);
+      else onCancel?.();
+    } else if (e.key === 'Enter') {
+      onEnter();
+    }
+  };
+
+  return (
+    <Popover open={open} onOpenChange={(isOpen) => !isOpen && setDismissed(true)}>
+      <PopoverAnchor asChild>
+        <FormulaInput
+          ref={inputRef}
+          type="text"
+          placeholder="Enter formula..."
+          value={value}
+          onChange={(e) => {
+            onChange(e.target.value);
+            trackCursor(e);
+            setDismissed(false);
+          }}
+          onSelect={trackCursor}
+          onKeyDown={handleKeyDown}
+          onFocus={onFocus}
+          onBlur={onBlur}
+          syntax={syntax}
+          className="px-3 py-1 border rounded text-sm w-64"
+        />
+      </PopoverAnchor>
+      <PopoverContent
+        align="start"
+        className="w-80 p-0"
+        onOpenAutoFocus={(e) => e.preventDefault()}
+        onInteractOutside={(e) => e.target === inputRef.current && e.preventDefault()}
+      >
+        {signature && <SignatureHelp name={signature.name} argIndex={signature.argIndex} separator={syntax.argumentSeparator} />}
+        {completions.length > 0 && (
+          <Command shouldFilter={false} value={selected?.label} onValueChange={setActive}>
+            <CommandList className="max-h-60">
+              <CommandGroup>
+                {completions.map(completion => (
+                  <CommandItem
+                    key={`${completion.kind}:${completion.label}`}
+                    value={completion.label}
+                    onMouseDown={(e) => e.preventDefault()}
+                    onSelect={() => accept(completion)}
+                    className="font-mono text-xs"
+                  >
+                    {completion.kind === 'function'
+                      ? <FunctionSquare className="w-3 h-3 mr-2" />
+                      : <Tag className="w-3 h-3 mr-2" />}
+                    {completion.label}
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            </CommandList>
+            {selected?.kind === 'function' && FUNCTION_SIGNATURES[selected.label] && (
+              <p className="px-3 py-2 text-xs text-muted-foreground border-t">{FUNCTION_SIGNATURES[selected.label].description}</p>
+            )}
+          </Command>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+});
+FormulaBar.displayName = 'FormulaBar';
+
+export default FormulaBar;
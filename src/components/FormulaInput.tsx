@@ -0,0 +1,66 @@
+import React, { useImperativeHandle, useLayoutEffect, useRef } from 'react';
+import { cn } from "@/lib/utils";
+import { CANONICAL_SYNTAX, REFERENCE_COLORS, referenceHighlights, type FormulaSyntax } from "@/lib/formula";
+
+interface FormulaInputProps extends React.InputHTMLAttributes<HTMLInputElement> {
+  value: string;
+  /** Classes for the wrapper that holds the input and its highlighting, e.g. to fill a grid cell. */
+  containerClassName?: string;
+  /** The separators the formula is typed with, e.g. `;` between arguments in European Excel. */
+  syntax?: FormulaSyntax;
+}
+
+/**
+ * A text input that colours each reference in a formula. The input's own text
+ * is transparent, and a copy of it with coloured references is drawn
+ * underneath, kept scrolled in step with the input.
+ */
+const FormulaInput = React.forwardRef<HTMLInputElement, FormulaInputProps>(({ value, className, containerClassName, syntax = CANONICAL_SYNTAX, onScroll, ...props }, ref) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const overlayRef = useRef<HTMLDivElement>(null);
+  useImperativeHandle(ref, () => inputRef.current);
+
+  const highlights = referenceHighlights(value, syntax);
+  const syncScroll = () => {
+    if (overlayRef.current && inputRef.current) overlayRef.current.scrollLeft = inputRef.current.scrollLeft;
+  };
+  useLayoutEffect(syncScroll);
+
+  const segments: React.ReactNode[] = [];
+  let pos = 0;
+  for (const { start, end, colorIndex } of highlights) {
+    segments.push(value.slice(pos, start));
+    segments.push(
+      <span key={start} style={{ color: REFERENCE_COLORS[colorIndex % REFERENCE_COLORS.length] }}>{value.slice(start, end)}</span>
+    );
+    pos = end;
+  }
+  segments.push(value.slice(pos));
+
+  // The same elements are rendered with or without highlights, so typing `=` doesn't remount the input and lose focus
+  const highlighted = highlights.length > 0;
+  return (
+    <div className={cn('relative', containerClassName)}>
+      <div
+        ref={overlayRef}
+        aria-hidden
+        className={cn(className, 'absolute inset-0 flex items-center overflow-hidden whitespace-pre border-transparent pointer-events-none')}
+      >
+        {highlighted && segments}
+      </div>
+      <input
+        ref={inputRef}
+        value={value}
+        className={cn(className, 'relative bg-transparent', highlighted && 'text-transparent caret-foreground')}
+        onScroll={(e) => {
+          syncScroll();
+          onScroll?.(e);
+        }}
+        {...props}
+      />
+    </div>
+  );
+});
+FormulaInput.displayName = 'FormulaInput';
+
+export default FormulaInput;
@@ -1,9 +1,72 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
 import { Badge } from "@/components/ui/badge";
-import { AlertCircle, Clock, Shield, CheckCircle2, Play, FileSpreadsheet } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { AlertCircle, Clock, Shield, CheckCircle2, Play, FileSpreadsheet, Loader2 } from "lucide-react";
+import {
+  acceptsReferenceAt,
+  canonicalizeInput,
+  cellKey,
+  checkName,
+  dateTimeToSerial,
+  displayValue,
+  fillContents,
+  formatCellAddress,
+  formatRangeAddress,
+  FUNCTIONS,
+  isError,
+  isFormula,
+  localizeInput,
+  LOCALES,
+  MAX_COLS,
+  MAX_ROWS,
+  normalizeRange,
+  parseCellAddress,
+  parseRangeAddress,
+  REFERENCE_COLORS,
+  referenceHighlights,
+  SHEET_NAME,
+  type CellRef,
+  type Clock as FormulaClock,
+  type DefinedName,
+  type IterativeCalculation,
+  type LocaleId,
+  type RangeRef,
+} from "@/lib/formula";
+import { useCalcEngine } from "@/hooks/use-calc-engine";
+import { useTraceArrows } from "@/hooks/use-trace-arrows";
+import type { GridMetrics } from "@/hooks/use-virtual-grid";
+import { isTypingKey, jumpToEdge, type CellMode } from "@/lib/navigation";
+import {
+  ARROW_DELTAS,
+  extendSelectionBy,
+  isCellSelected,
+  isColumnSelected,
+  isMultiCell,
+  isRowSelected,
+  selectCell,
+  selectColumn,
+  selectionAggregates,
+  selectionCorner,
+  selectionOf,
+  selectModeFor,
+  selectRow,
+  type GridCell,
+  type SelectMode,
+  type Selection,
+} from "@/lib/selection";
+import { LOAN_AMORTISATION_SEED } from "@/lib/task-seeds";
+import EvaluateFormulaDialog from "@/components/EvaluateFormulaDialog";
+import { FormulaAuditingToolbar, TraceArrowsOverlay } from "@/components/FormulaAuditing";
+import FormulaBar from "@/components/FormulaBar";
+import FormulaInput from "@/components/FormulaInput";
+import NameManagerDialog from "@/components/NameManagerDialog";
+import SelectionStatusBar from "@/components/SelectionStatusBar";
+import VirtualGrid from "@/components/VirtualGrid";
+import WorkbookReview from "@/components/WorkbookReview";
 
 interface TaskResult {
   taskId: number;
@@ -12,15 +75,30 @@ interface TaskResult {
   score: number;
   justification: string;
   actions: SpreadsheetAction[];
+  /** Every key pressed in the cell or formula bar during the task, kept apart from the actions for integrity checks. */
+  keystrokes: Keystroke[];
   timeSpent: number;
 }
 
 interface SpreadsheetAction {
   timestamp: string;
-  type: 'cell_edit' | 'formula_entered' | 'data_changed';
+  type: 'cell_edit' | 'formula_entered' | 'data_changed' | 'circular_reference' | 'name_defined' | 'name_deleted' | 'fill' | 'clear';
   cell: string;
+  /** For a fill, the range that was copied; `cell` is then the range it was filled into. */
+  source?: string;
   oldValue: string;
   newValue: string;
+  /** For a typed entry, the time from its first keystroke to confirming it, in milliseconds. */
+  durationMs?: number;
+  /** For a typed entry, how many keys were pressed while typing it. */
+  keystrokes?: number;
+}
+
+/** A key pressed in the cell or formula bar, with any modifiers held, e.g. `Ctrl+V`. */
+interface Keystroke {
+  timestamp: string;
+  cell: string;
+  key: string;
 }
 
 interface CheatingFlag {
@@ -28,7 +106,49 @@ interface CheatingFlag {
   timestamp: string;
 }
 
-const EXCEL_TASKS = [
+interface ExcelTask {
+  id: number;
+  title: string;
+  description: string;
+  expectedResult: string;
+  difficulty: string;
+  timeLimit: number;
+  iterativeCalculation?: IterativeCalculation;
+  /** Functions the candidate may use in this task; any other function shows #NAME?. All are allowed when omitted. */
+  allowedFunctions?: string[];
+  /** Names the workbook defines when the task starts, e.g. Prices for the price column. */
+  definedNames?: DefinedName[];
+  /** Cells filled in when the task starts, keyed by address, e.g. a loan's terms for a finance task. */
+  seedCells?: Record<string, string>;
+  /** How many rows and columns the sheet shows for the task, enough for every cell it mentions. */
+  grid?: GridSize;
+}
+
+interface GridSize {
+  rows: number;
+  cols: number;
+}
+
+const DEFAULT_GRID: GridSize = { rows: 15, cols: 8 };
+
+const GRID_METRICS: GridMetrics = { rowHeight: 40, colWidth: 120, headerHeight: 32, rowHeaderWidth: 48 };
+
+// How the report names each kind of action
+const ACTION_LABELS: Record<SpreadsheetAction['type'], string> = {
+  cell_edit: 'Edit',
+  formula_entered: 'Formula',
+  data_changed: 'Edit',
+  circular_reference: 'Circular reference',
+  name_defined: 'Name defined',
+  name_deleted: 'Name deleted',
+  fill: 'Fill',
+  clear: 'Cleared',
+};
+
+// Why the worker refused a change, to show the candidate
+const failureOf = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+const EXCEL_TASKS: ExcelTask[] = [
   {
     id: 1,
     title: "Basic VLOOKUP",
@@ -67,10 +187,74 @@ const EXCEL_TASKS = [
     description: "Create a summary in cells H1:I3 showing: Total Products, Average Price, and Most Expensive Product Name.",
     expectedResult: "multiple_formulas",
     difficulty: "Hard",
-    timeLimit: 420 // 7 minutes
+    timeLimit: 420, // 7 minutes
+    grid: { rows: 15, cols: 9 }
+  },
+  {
+    id: 6,
+    title: "Text Functions",
+    description: "In cell J2, build a label like \"LAPTOP PRO - $1,299.99\" from the product name in B2 and the price in C2, using only text functions.",
+    expectedResult: "=UPPER(B2)&\" - \"&TEXT(C2,\"$#,##0.00\")",
+    difficulty: "Medium",
+    timeLimit: 300, // 5 minutes
+    grid: { rows: 15, cols: 10 },
+    allowedFunctions: ['CONCAT', 'LEFT', 'LEN', 'LOWER', 'MID', 'PROPER', 'RIGHT', 'SUBSTITUTE', 'TEXT', 'TEXTJOIN', 'TRIM', 'UPPER']
+  },
+  {
+    id: 7,
+    title: "Working Days",
+    description: "In cell J3, calculate how many working days (Monday to Friday) remain from today until the end of next month.",
+    expectedResult: "=NETWORKDAYS(TODAY(),EOMONTH(TODAY(),1))",
+    difficulty: "Medium",
+    timeLimit: 240, // 4 minutes
+    grid: { rows: 15, cols: 10 }
+  },
+  {
+    id: 8,
+    title: "Dynamic Arrays",
+    description: "In cell A12, write a single formula that lists the name and price of every Electronics product, most expensive first.",
+    expectedResult: "=SORT(FILTER(B2:C9,D2:D9=\"Electronics\"),2,-1)",
+    difficulty: "Hard",
+    timeLimit: 300 // 5 minutes
+  },
+  {
+    id: 9,
+    title: "Named Ranges & LET",
+    description: "The name Prices refers to the price column. In cell H6, use LET and Prices to return the average price of the products that cost more than $100.",
+    expectedResult: "=LET(high,FILTER(Prices,Prices>100),AVERAGE(high))",
+    difficulty: "Hard",
+    timeLimit: 360, // 6 minutes
+    definedNames: [{ name: 'Prices', refersTo: `=${SHEET_NAME}!$C$2:$C$9` }]
+  },
+  {
+    id: 10,
+    title: "Loan Amortisation",
+    description: "The loan's terms are in E11:H12 and it is repaid monthly. In H12, calculate the monthly payment with PMT. Then complete the schedule for periods 1 and 2: the interest in F14:F15 with IPMT, the principal in G14:G15 with PPMT, and the remaining balance in H14:H15.",
+    expectedResult: "H12: =PMT($H$11/12,$F$12*12,-$F$11), F14: =IPMT($H$11/12,E14,$F$12*12,-$F$11), G14: =PPMT($H$11/12,E14,$F$12*12,-$F$11), H14: =$F$11-G14, H15: =H14-G15",
+    difficulty: "Hard",
+    timeLimit: 420, // 7 minutes
+    seedCells: LOAN_AMORTISATION_SEED
   }
 ];
 
+// The welcome screen describes the series from the tasks themselves, so it stays right as tasks are added
+const TASK_MINUTES = EXCEL_TASKS.map(task => Math.round(task.timeLimit / 60));
+const TASK_TIME_RANGE = Math.min(...TASK_MINUTES) === Math.max(...TASK_MINUTES)
+  ? `${TASK_MINUTES[0]}`
+  : `${Math.min(...TASK_MINUTES)}-${Math.max(...TASK_MINUTES)}`;
+
+/**
+ * The moment TODAY() and NOW() report during the assessment. It is frozen so
+ * every candidate sees the same dates and grading is reproducible.
+ */
+const ASSESSMENT_DATE = new Date(2025, 0, 15, 9, 0, 0);
+const ASSESSMENT_CLOCK: FormulaClock = () => new Date(ASSESSMENT_DATE);
+
+interface InteractiveExcelAssessmentProps {
+  /** Overrides the frozen assessment clock, e.g. to run an assessment on a different date. */
+  clock?: FormulaClock;
+}
+
 const SAMPLE_DATA = [
   ['Product ID', 'Product Name', 'Price', 'Category'],
   ['P001', 'Laptop Pro', '1299.99', 'Electronics'],
@@ -83,7 +267,7 @@ const SAMPLE_DATA = [
   ['P008', 'Keyboard Pro', '149.99', 'Electronics']
 ];
 
-const InteractiveExcelAssessment: React.FC = () => {
+const InteractiveExcelAssessment: React.FC<InteractiveExcelAssessmentProps> = ({ clock = ASSESSMENT_CLOCK }) => {
   const [assessmentStage, setAssessmentStage] = useState<'welcome' | 'tasks' | 'report'>('welcome');
   const [currentTaskIndex, setCurrentTaskIndex] = useState(0);
   const [taskResults, setTaskResults] = useState<TaskResult[]>([]);
@@ -95,27 +279,111 @@ const InteractiveExcelAssessment: React.FC = () => {
   const [apiKey, setApiKey] = useState('');
   const [showApiKeyInput, setShowApiKeyInput] = useState(false);
   const [spreadsheetData, setSpreadsheetData] = useState(SAMPLE_DATA);
-  const [selectedCell, setSelectedCell] = useState('A1');
+  const [selection, setSelection] = useState<Selection>(() => selectionOf({ row: 0, col: 0 }));
+  // The active cell, which the Name Box shows and the formula bar edits
+  const selectedCell = formatCellAddress(selection.active);
+  const [grid, setGrid] = useState<GridSize>(EXCEL_TASKS[0].grid ?? DEFAULT_GRID);
+  // What the formula bar shows, in the candidate's locale; cells themselves are stored in en-US form
   const [cellFormula, setCellFormula] = useState('');
-  const spreadsheetRef = useRef<HTMLDivElement>(null);
+  const [localeId, setLocaleId] = useState<LocaleId>('en-US');
+  const locale = LOCALES[localeId];
+  // What the candidate is typing into the Name Box; null shows the selected cell
+  const [nameBoxText, setNameBoxText] = useState<string | null>(null);
+  const [nameBoxError, setNameBoxError] = useState<string | null>(null);
+  // The range the fill handle would fill if released now; null when not dragging it
+  const [fillPreview, setFillPreview] = useState<RangeRef | null>(null);
+  const fillDrag = useRef<{ source: CellRef; target: RangeRef | null } | null>(null);
+  // The cell last copied with Ctrl+C, so pasting it elsewhere in the sheet translates its references
+  const copiedCell = useRef<{ cell: CellRef; raw: string } | null>(null);
+  // Where the selected cell's formula is being edited, which colours its references on the grid
+  const [formulaEditor, setFormulaEditor] = useState<'bar' | 'cell' | null>(null);
+  const formulaBarRef = useRef<HTMLInputElement>(null);
+  const cellEditorRef = useRef<HTMLInputElement>(null);
+  // Excel's Ready, Enter or Edit mode for the active cell, and the entry being typed into it, which is held in
+  // cellFormula and only written to the sheet, as one action, when it is confirmed
+  const [cellMode, setCellMode] = useState<CellMode>('ready');
+  const editSession = useRef<{ cell: GridCell; oldValue: string; startedAt: number; keystrokes: number } | null>(null);
+  // Nothing renders the raw keystrokes, so they are kept out of state
+  const keystrokeLog = useRef<Keystroke[]>([]);
+  // The reference point mode last inserted, which the next click or drag replaces, and the drag in progress
+  const pointedReference = useRef<{ start: number; text: string } | null>(null);
+  const pointDrag = useRef<{ editor: HTMLInputElement; anchor: CellRef; start: number; base: string } | null>(null);
+  const {
+    engine: calcEngine,
+    calculating,
+    setCell: setEngineCell,
+    setCells: setEngineCells,
+    setIterativeCalculation,
+    setAllowedFunctions,
+    defineName,
+    deleteName
+  } = useCalcEngine(SAMPLE_DATA, { clock });
+  const circularCells = calcEngine.getCircularCells();
+  const { arrows: traceArrows, tracePrecedents, traceDependents, removeArrows } = useTraceArrows(calcEngine, grid.rows, grid.cols);
+
+  // The sheet only ever grows, so cells written in earlier tasks stay in view
+  const growGrid = useCallback((rows: number, cols: number) => {
+    setGrid(current => current.rows >= rows && current.cols >= cols
+      ? current
+      : { rows: Math.max(current.rows, rows), cols: Math.max(current.cols, cols) });
+  }, []);
 
-  // Timer effect
   useEffect(() => {
-    let interval: NodeJS.Timeout;
-    if (assessmentStage === 'tasks' && timeRemaining > 0) {
-      interval = setInterval(() => {
-        setTimeRemaining(prev => {
-          if (prev <= 1) {
-            handleTaskComplete();
-            return 0;
-          }
-          return prev - 1;
-        });
-      }, 1000);
-    }
-    return () => clearInterval(interval);
+    const { rows, cols } = EXCEL_TASKS[currentTaskIndex].grid ?? DEFAULT_GRID;
+    growGrid(rows, cols);
+  }, [currentTaskIndex, growGrid]);
+
+  // Timer effect; when time runs out it ends the task through the latest handleTaskComplete, which sees the entry being typed
+  const completeTask = useRef(() => {});
+  useEffect(() => {
+    if (assessmentStage !== 'tasks' || timeRemaining <= 0) return;
+    const timeout = setTimeout(() => {
+      if (timeRemaining === 1) completeTask.current();
+      setTimeRemaining(timeRemaining - 1);
+    }, 1000);
+    return () => clearTimeout(timeout);
   }, [assessmentStage, timeRemaining]);
 
+  // Iterative calculation is a per-task workbook setting, as in Excel's options
+  useEffect(() => {
+    setIterativeCalculation(EXCEL_TASKS[currentTaskIndex].iterativeCalculation ?? null);
+  }, [currentTaskIndex, setIterativeCalculation]);
+
+  // Tasks can restrict which functions are available, e.g. to assess text functions only
+  useEffect(() => {
+    setAllowedFunctions(EXCEL_TASKS[currentTaskIndex].allowedFunctions ?? null);
+  }, [currentTaskIndex, setAllowedFunctions]);
+
+  // Advanced tasks start with names already defined, as a prepared workbook would; a name the worker refuses is
+  // reported under the Name Box, unless the task has moved on by then
+  useEffect(() => {
+    let current = true;
+    for (const { name, refersTo } of EXCEL_TASKS[currentTaskIndex].definedNames ?? []) {
+      defineName(name, refersTo).catch(error => {
+        if (current) setNameBoxError(`Couldn't define ${name}: ${failureOf(error)}`);
+      });
+    }
+    return () => {
+      current = false;
+    };
+  }, [currentTaskIndex, defineName]);
+
+  // Finance tasks start from a prepared sheet, such as a loan's terms and an empty schedule
+  useEffect(() => {
+    const seed = Object.entries(EXCEL_TASKS[currentTaskIndex].seedCells ?? {});
+    if (seed.length === 0) return;
+    setSpreadsheetData(data => {
+      const newData = data.map(row => [...row]);
+      for (const [address, raw] of seed) {
+        const { row, col } = parseCellAddress(address);
+        while (newData.length <= row) newData.push([]);
+        newData[row][col] = raw;
+      }
+      return newData;
+    });
+    setEngineCells(seed.map(([address, raw]) => ({ ...parseCellAddress(address), raw })));
+  }, [currentTaskIndex, setEngineCells]);
+
   // Anti-cheating detection
   useEffect(() => {
     const handleVisibilityChange = () => {
@@ -131,16 +399,43 @@ const InteractiveExcelAssessment: React.FC = () => {
     return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
   }, [assessmentStage]);
 
-  const handleCellClick = (rowIndex: number, colIndex: number) => {
-    const cellName = String.fromCharCode(65 + colIndex) + (rowIndex + 1);
-    setSelectedCell(cellName);
-    const cellValue = spreadsheetData[rowIndex]?.[colIndex] || '';
-    setCellFormula(typeof cellValue === 'string' && cellValue.startsWith('=') ? cellValue : '');
+  // Only the active cell has an editor, so changing the selection keeps the cursor in it, after its contents
+  useEffect(() => {
+    const editor = cellEditorRef.current;
+    if (!editor || document.activeElement === editor) return;
+    editor.focus({ preventScroll: true });
+    editor.setSelectionRange(editor.value.length, editor.value.length);
+  }, [selection]);
+
+  const handleCellClick = (rowIndex: number, colIndex: number, mode: SelectMode = 'select') => {
+    // A click that pointed at a cell for a formula doesn't select it
+    if (pointDrag.current) return;
+    setCellMode('ready');
+    // Going past the edge of the sheet extends it, as Excel's sheet has no edge
+    growGrid(rowIndex + 1, colIndex + 1);
+    setSelection(current => selectCell(current, { row: rowIndex, col: colIndex }, mode));
+    // Extending a range keeps the active cell where it was
+    if (mode !== 'extend') setCellFormula(localizeInput(spreadsheetData[rowIndex]?.[colIndex] || '', locale));
+  };
+
+  // Clicking a row number or column letter selects the whole row or column
+  const handleHeaderClick = (kind: 'row' | 'column', index: number, e: React.MouseEvent) => {
+    const mode = selectModeFor(e);
+    setCellMode('ready');
+    const next = kind === 'row' ? selectRow(selection, index, mode) : selectColumn(selection, index, mode);
+    setSelection(next);
+    if (mode !== 'extend') setCellFormula(localizeInput(spreadsheetData[next.active.row]?.[next.active.col] || '', locale));
   };
 
-  const handleCellEdit = (rowIndex: number, colIndex: number, newValue: string) => {
-    const cellName = String.fromCharCode(65 + colIndex) + (rowIndex + 1);
+  const handleCellEdit = (
+    rowIndex: number,
+    colIndex: number,
+    newValue: string,
+    typed?: Pick<SpreadsheetAction, 'durationMs' | 'keystrokes'>
+  ): SpreadsheetAction => {
+    const cellName = formatCellAddress({ row: rowIndex, col: colIndex });
     const oldValue = spreadsheetData[rowIndex]?.[colIndex] || '';
+    const wasCircular = calcEngine.isCircular(rowIndex, colIndex);
     
     // Track the action
     const action: SpreadsheetAction = {
@@ -148,16 +443,547 @@ const InteractiveExcelAssessment: React.FC = () => {
       type: newValue.startsWith('=') ? 'formula_entered' : 'cell_edit',
       cell: cellName,
       oldValue: oldValue.toString(),
-      newValue: newValue
+      newValue: newValue,
+      ...typed
     };
     
-    setSpreadsheetActions(prev => [...prev, action]);
-    
     // Update spreadsheet data
     const newData = [...spreadsheetData];
-    if (!newData[rowIndex]) newData[rowIndex] = [];
+    newData[rowIndex] = [...(newData[rowIndex] || [])];
     newData[rowIndex][colIndex] = newValue;
     setSpreadsheetData(newData);
+    setSpreadsheetActions(prev => [...prev, action]);
+    setEngineCell(rowIndex, colIndex, newValue).then(() => {
+      // An edit that closes a formula cycle is logged separately so the evaluator sees it, unless the cell has changed since
+      const createdCycle = !wasCircular && calcEngine.isCircular(rowIndex, colIndex) && calcEngine.getRaw(rowIndex, colIndex) === newValue;
+      if (createdCycle) setSpreadsheetActions(prev => [...prev, { ...action, type: 'circular_reference' }]);
+    });
+    if (cellName === selectedCell) setCellFormula(localizeInput(newValue, locale));
+    return action;
+  };
+
+  // Blocks of cells are logged the way Excel writes array constants: columns split by commas, rows by semicolons
+  const describeBlock = (range: RangeRef, read: (row: number, col: number) => string) => {
+    const rows = [];
+    for (let row = range.start.row; row <= range.end.row; row++) {
+      const cols = [];
+      for (let col = range.start.col; col <= range.end.col; col++) cols.push(read(row, col));
+      rows.push(cols.join(','));
+    }
+    return `{${rows.join(';')}}`;
+  };
+
+  // Delete clears the selected cells, each range logged as one action over the part of it that holds anything
+  const handleClear = () => {
+    const newData = spreadsheetData.map(row => [...row]);
+    const cleared: Array<{ row: number; col: number; raw: string }> = [];
+    const actions: SpreadsheetAction[] = [];
+    for (const range of selection.ranges) {
+      const used = {
+        start: range.start,
+        end: {
+          ...range.end,
+          row: Math.min(range.end.row, grid.rows - 1, spreadsheetData.length - 1),
+          col: Math.min(range.end.col, grid.cols - 1)
+        }
+      };
+      const before = cleared.length;
+      for (let row = used.start.row; row <= used.end.row; row++) {
+        for (let col = used.start.col; col <= used.end.col; col++) {
+          if (!newData[row][col]) continue;
+          newData[row][col] = '';
+          cleared.push({ row, col, raw: '' });
+        }
+      }
+      if (cleared.length === before) continue;
+      actions.push({
+        timestamp: new Date().toISOString(),
+        type: 'clear',
+        cell: formatRangeAddress(used),
+        oldValue: describeBlock(used, (row, col) => spreadsheetData[row]?.[col] || ''),
+        newValue: ''
+      });
+    }
+    if (cleared.length === 0) return;
+    setSpreadsheetData(newData);
+    setEngineCells(cleared);
+    setSpreadsheetActions(prev => [...prev, ...actions]);
+    setCellFormula('');
+  };
+
+  // Fills and in-sheet pastes copy the source over the target, moving relative references, and are logged as one action
+  const handleFill = (source: RangeRef, target: RangeRef) => {
+    const filled = fillContents(source, target, (row, col) => spreadsheetData[row]?.[col] || '');
+    const newData = [...spreadsheetData];
+    for (const { row, col, raw } of filled) {
+      newData[row] = [...(newData[row] || [])];
+      newData[row][col] = raw;
+    }
+    setSpreadsheetData(newData);
+    setEngineCells(filled);
+    setSpreadsheetActions(prev => [...prev, {
+      timestamp: new Date().toISOString(),
+      type: 'fill',
+      cell: formatRangeAddress(target),
+      source: formatRangeAddress(source),
+      oldValue: describeBlock(target, (row, col) => spreadsheetData[row]?.[col] || ''),
+      newValue: describeBlock(target, (row, col) => newData[row]?.[col] || '')
+    }]);
+    const selected = parseCellAddress(selectedCell);
+    if (filled.some(({ row, col }) => row === selected.row && col === selected.col)) {
+      setCellFormula(localizeInput(newData[selected.row][selected.col], locale));
+    }
+  };
+
+  // The fill handle extends the selection along whichever axis the pointer has moved further, as in Excel
+  const fillRangeTo = (source: CellRef, row: number, col: number): RangeRef | null => {
+    const down = row - source.row;
+    const across = col - source.col;
+    if (down === 0 && across === 0) return null;
+    if (Math.abs(down) >= Math.abs(across)) {
+      const [first, last] = down > 0 ? [source.row + 1, row] : [row, source.row - 1];
+      return { start: { ...source, row: first }, end: { ...source, row: last } };
+    }
+    const [first, last] = across > 0 ? [source.col + 1, col] : [col, source.col - 1];
+    return { start: { ...source, col: first }, end: { ...source, col: last } };
+  };
+
+  const startFillDrag = () => {
+    fillDrag.current = { source: parseCellAddress(selectedCell), target: null };
+    const finish = () => {
+      const { source, target } = fillDrag.current;
+      if (target) handleFill({ start: source, end: source }, target);
+      fillDrag.current = null;
+      setFillPreview(null);
+    };
+    window.addEventListener('mouseup', finish, { once: true });
+  };
+
+  const handleFillDragOver = (rowIndex: number, colIndex: number) => {
+    if (!fillDrag.current) return;
+    fillDrag.current.target = fillRangeTo(fillDrag.current.source, rowIndex, colIndex);
+    setFillPreview(fillDrag.current.target);
+  };
+
+  // Ctrl+arrow stops at the edges of the data, counting cells a formula has spilled into
+  const isFilled = (row: number, col: number) =>
+    Boolean(spreadsheetData[row]?.[col]) || calcEngine.getSpillRangeAt(row, col) !== null;
+
+  // Moves the active cell from the keyboard, growing the sheet to meet it as a click does. Staying put at the
+  // edge of the sheet leaves the selection as it is, and with it what the formula bar shows
+  const moveTo = (row: number, col: number) => {
+    const destination = { row: Math.max(0, Math.min(row, MAX_ROWS - 1)), col: Math.max(0, Math.min(col, MAX_COLS - 1)) };
+    if (destination.row === selection.active.row && destination.col === selection.active.col && !isMultiCell(selection)) return;
+    handleCellClick(destination.row, destination.col);
+  };
+
+  // Every key pressed in the cell or formula bar is logged apart from the actions, and counted towards the entry being typed
+  const recordKeystroke = (e: React.KeyboardEvent) => {
+    if (['Shift', 'Control', 'Alt', 'Meta'].includes(e.key)) return;
+    const modifiers = [e.ctrlKey && 'Ctrl', e.metaKey && 'Meta', e.altKey && 'Alt', e.shiftKey && e.key.length > 1 && 'Shift'];
+    keystrokeLog.current.push({
+      timestamp: new Date().toISOString(),
+      cell: selectedCell,
+      key: [...modifiers.filter(Boolean), e.key].join('+')
+    });
+    if (editSession.current) editSession.current.keystrokes++;
+  };
+
+  const beginEditSession = (keystrokes: number) => {
+    if (editSession.current) return;
+    const cell = selection.active;
+    editSession.current = { cell, oldValue: spreadsheetData[cell.row]?.[cell.col] || '', startedAt: Date.now(), keystrokes };
+  };
+
+  // Typing, F2 or a double-click starts an entry in the active cell: `text` replaces what it held, or else
+  // its contents are edited with the caret after them
+  const startEditing = (mode: 'enter' | 'edit', keystrokes: number, text?: string) => {
+    if (!editSession.current) {
+      beginEditSession(keystrokes);
+      const { row, col } = selection.active;
+      setCellFormula(text ?? localizeInput(spreadsheetData[row]?.[col] || '', locale));
+      requestAnimationFrame(() => {
+        const editor = cellEditorRef.current;
+        editor?.setSelectionRange(editor.value.length, editor.value.length);
+      });
+    }
+    setCellMode(mode);
+  };
+
+  // Enter, Tab or leaving the cell confirms the entry, which is logged with how long it took and how many keys it took;
+  // returns the logged action, if the entry changed the cell
+  const commitEdit = (): SpreadsheetAction | null => {
+    const session = editSession.current;
+    editSession.current = null;
+    setCellMode('ready');
+    if (!session) return null;
+    const newValue = canonicalizeInput(cellFormula, locale, clock);
+    if (newValue === session.oldValue) return null;
+    return handleCellEdit(session.cell.row, session.cell.col, newValue, {
+      durationMs: Date.now() - session.startedAt,
+      keystrokes: session.keystrokes
+    });
+  };
+
+  // Esc abandons the entry, leaving the cell as it was
+  const discardEdit = () => {
+    const session = editSession.current;
+    editSession.current = null;
+    setCellMode('ready');
+    if (session) setCellFormula(localizeInput(session.oldValue, locale));
+  };
+
+  // The keyboard follows Excel's cell modes. Enter and Tab confirm the entry and move down or right (Shift
+  // reverses them), Esc cancels it and F2 switches between Enter and Edit. In Ready the arrows move, Ctrl+arrow
+  // to the edge of the data and Shift+arrow extending the selection, typing starts a new entry and Delete
+  // clears; in Enter the arrows confirm the entry and move on, and in Edit they move the caret within it.
+  const handleCellKeyDown = (e: React.KeyboardEvent<HTMLInputElement>, rowIndex: number, colIndex: number) => {
+    recordKeystroke(e);
+    const ctrl = e.ctrlKey || e.metaKey;
+    const arrow = ARROW_DELTAS[e.key];
+    if (e.key === 'F2') {
+      e.preventDefault();
+      startEditing(cellMode === 'edit' ? 'enter' : 'edit', 1);
+      return;
+    }
+    if (e.key === 'Escape') {
+      if (cellMode === 'ready') return;
+      e.preventDefault();
+      discardEdit();
+      return;
+    }
+    if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault();
+      commitEdit();
+      const step = e.shiftKey ? -1 : 1;
+      if (e.key === 'Enter') moveTo(rowIndex + step, colIndex);
+      else moveTo(rowIndex, colIndex + step);
+      return;
+    }
+    if (cellMode === 'enter' && arrow && !ctrl && !e.shiftKey) {
+      e.preventDefault();
+      commitEdit();
+      moveTo(rowIndex + arrow[0], colIndex + arrow[1]);
+      return;
+    }
+    if (cellMode !== 'ready') return;
+
+    if (arrow) {
+      e.preventDefault();
+      const [rowDelta, colDelta] = arrow;
+      if (ctrl && e.shiftKey) {
+        const corner = selectionCorner(selection);
+        const from = { row: Math.min(corner.row, grid.rows - 1), col: Math.min(corner.col, grid.cols - 1) };
+        const edge = jumpToEdge(from, rowDelta, colDelta, grid.rows, grid.cols, isFilled);
+        setSelection(current => selectCell(current, edge, 'extend'));
+      } else if (ctrl) {
+        const edge = jumpToEdge({ row: rowIndex, col: colIndex }, rowDelta, colDelta, grid.rows, grid.cols, isFilled);
+        moveTo(edge.row, edge.col);
+      } else if (e.shiftKey) {
+        setSelection(current => extendSelectionBy(current, rowDelta, colDelta, grid.rows, grid.cols));
+      } else {
+        moveTo(rowIndex + rowDelta, colIndex + colDelta);
+      }
+      return;
+    }
+    if (e.key === 'Home' || (e.key === 'End' && ctrl)) {
+      e.preventDefault();
+      const destination = e.key === 'End' ? calcEngine.getLastUsedCell() : { row: ctrl ? 0 : rowIndex, col: 0 };
+      moveTo(destination.row, destination.col);
+      return;
+    }
+    if (e.key === 'Delete') {
+      e.preventDefault();
+      handleClear();
+      return;
+    }
+    // Backspace empties the cell to type afresh, and typing replaces what it held
+    if (e.key === 'Backspace' || isTypingKey(e)) {
+      e.preventDefault();
+      startEditing('enter', 1, e.key === 'Backspace' ? '' : e.key);
+      return;
+    }
+
+    // Ctrl+D fills the selected cell from the one above and Ctrl+R from the one to its left, or a selected
+    // range from its top row or left column
+    if (!ctrl) return;
+    const key = e.key.toLowerCase();
+    const target = { row: rowIndex, col: colIndex, absRow: false, absCol: false };
+    const last = selection.ranges[selection.ranges.length - 1];
+    const range = {
+      start: last.start,
+      end: { ...last.end, row: Math.min(last.end.row, grid.rows - 1), col: Math.min(last.end.col, grid.cols - 1) }
+    };
+    if (key === 'd' && range.end.row > range.start.row) {
+      e.preventDefault();
+      handleFill(
+        { start: range.start, end: { ...range.end, row: range.start.row } },
+        { start: { ...range.start, row: range.start.row + 1 }, end: range.end }
+      );
+    } else if (key === 'r' && range.end.col > range.start.col) {
+      e.preventDefault();
+      handleFill(
+        { start: range.start, end: { ...range.end, col: range.start.col } },
+        { start: { ...range.start, col: range.start.col + 1 }, end: range.end }
+      );
+    } else if (key === 'd' && rowIndex > 0) {
+      e.preventDefault();
+      const above = { ...target, row: rowIndex - 1 };
+      handleFill({ start: above, end: above }, { start: target, end: target });
+    } else if (key === 'r' && colIndex > 0) {
+      e.preventDefault();
+      const left = { ...target, col: colIndex - 1 };
+      handleFill({ start: left, end: left }, { start: target, end: target });
+    }
+  };
+
+  // In Ready, or with nothing highlighted in the cell, Ctrl+C copies the whole cell rather than some of its text
+  const handleCellCopy = (e: React.ClipboardEvent<HTMLInputElement>, rowIndex: number, colIndex: number) => {
+    const input = e.currentTarget;
+    if (cellMode !== 'ready' && input.selectionStart !== input.selectionEnd) return;
+    const raw = spreadsheetData[rowIndex]?.[colIndex] || '';
+    e.preventDefault();
+    e.clipboardData.setData('text/plain', localizeInput(raw, locale));
+    copiedCell.current = { cell: { row: rowIndex, col: colIndex, absRow: false, absCol: false }, raw };
+  };
+
+  // Pasting a copied cell is a fill; pasting anything else came from outside the sheet and is flagged
+  const handleCellPaste = (e: React.ClipboardEvent<HTMLInputElement>, rowIndex: number, colIndex: number) => {
+    const copied = copiedCell.current;
+    if (!copied || e.clipboardData.getData('text/plain') !== localizeInput(copied.raw, locale)) {
+      setCheatingFlags(prev => [...prev, { type: 'paste', timestamp: new Date().toISOString() }]);
+      // Outside Enter and Edit there is no text to paste into, so the paste replaces the cell
+      if (cellMode === 'ready') {
+        e.preventDefault();
+        handleCellEdit(rowIndex, colIndex, canonicalizeInput(e.clipboardData.getData('text/plain'), locale, clock));
+      }
+      return;
+    }
+    // While typing, a copied cell pastes as text, as in Excel
+    if (cellMode !== 'ready') return;
+    e.preventDefault();
+    const target = { ...copied.cell, row: rowIndex, col: colIndex };
+    if (target.row === copied.cell.row && target.col === copied.cell.col) return;
+    handleFill({ start: copied.cell, end: copied.cell }, { start: target, end: target });
+  };
+
+  // Point mode: while a formula expects an operand, clicking or dragging on the grid types the reference in, as in Excel
+  const handlePointStart = (e: React.MouseEvent, rowIndex: number, colIndex: number) => {
+    const editor = [formulaBarRef.current, cellEditorRef.current].find(input => input && input === document.activeElement);
+    if (!editor) return;
+    const selected = parseCellAddress(selectedCell);
+    if (editor === cellEditorRef.current && (cellMode === 'ready' || (rowIndex === selected.row && colIndex === selected.col))) return;
+    const cursor = editor.selectionStart ?? editor.value.length;
+    const pointed = pointedReference.current;
+    const replacing = pointed !== null && pointed.start + pointed.text.length === cursor
+      && editor.value.slice(pointed.start, cursor) === pointed.text;
+    if (!replacing && !acceptsReferenceAt(editor.value, cursor, locale)) return;
+
+    e.preventDefault();
+    const anchor = { row: rowIndex, col: colIndex, absRow: false, absCol: false };
+    // The formula without the reference being pointed at, which each move of the drag inserts into afresh
+    const start = replacing ? pointed.start : cursor;
+    const base = editor.value.slice(0, start) + editor.value.slice(cursor);
+    pointDrag.current = { editor, anchor, start, base };
+    insertPointedReference({ start: anchor, end: anchor });
+    window.addEventListener('mouseup', () => setTimeout(() => { pointDrag.current = null; }), { once: true });
+  };
+
+  const handlePointDragOver = (rowIndex: number, colIndex: number) => {
+    if (!pointDrag.current) return;
+    const { anchor } = pointDrag.current;
+    insertPointedReference(normalizeRange({ start: anchor, end: { ...anchor, row: rowIndex, col: colIndex } }));
+  };
+
+  const insertPointedReference = (range: RangeRef) => {
+    const { editor, start, base } = pointDrag.current;
+    const text = formatRangeAddress(range);
+    const next = base.slice(0, start) + text + base.slice(start);
+    pointedReference.current = { start, text };
+    setCellFormula(next);
+    const position = start + text.length;
+    requestAnimationFrame(() => editor.setSelectionRange(position, position));
+  };
+
+  // Each reference in the formula being edited is outlined on the grid in its own colour
+  const referenceOutlines = formulaEditor ? referenceHighlights(cellFormula, locale) : [];
+  const referenceOutline = (rowIndex: number, colIndex: number): React.CSSProperties | undefined => {
+    const edges = referenceOutlines.flatMap(({ range, colorIndex }) => {
+      if (rowIndex < range.start.row || rowIndex > range.end.row || colIndex < range.start.col || colIndex > range.end.col) return [];
+      const color = REFERENCE_COLORS[colorIndex % REFERENCE_COLORS.length];
+      return [
+        rowIndex === range.start.row && `inset 0 2px 0 0 ${color}`,
+        rowIndex === range.end.row && `inset 0 -2px 0 0 ${color}`,
+        colIndex === range.start.col && `inset 2px 0 0 0 ${color}`,
+        colIndex === range.end.col && `inset -2px 0 0 0 ${color}`
+      ].filter(Boolean);
+    });
+    return edges.length > 0 ? { boxShadow: edges.join(', ') } : undefined;
+  };
+
+  // Only the cells in view are rendered; the selected one holds the editor and the rest just show their value
+  const renderGridCell = (rowIndex: number, colIndex: number, style: React.CSSProperties) => {
+    const cellName = formatCellAddress({ row: rowIndex, col: colIndex });
+    const cellValue = spreadsheetData[rowIndex]?.[colIndex] || '';
+    const computedValue = calcEngine.getValue(rowIndex, colIndex);
+    const isSelected = selectedCell === cellName;
+    const inSelection = !isSelected && isCellSelected(selection, rowIndex, colIndex);
+    const inFillPreview = fillPreview !== null
+      && rowIndex >= fillPreview.start.row && rowIndex <= fillPreview.end.row
+      && colIndex >= fillPreview.start.col && colIndex <= fillPreview.end.col;
+    const isCircular = circularCells.includes(cellKey(rowIndex, colIndex));
+    // The active cell shows its value in Ready and its contents while they are typed
+    const editing = isSelected && cellMode !== 'ready';
+    const showsError = !isSelected && isError(computedValue);
+    const spill = calcEngine.getSpillRangeAt(rowIndex, colIndex);
+    // Spill ranges get a blue border around their outside edge, as in Excel
+    const spillBorder = spill ? [
+      rowIndex === spill.start.row && 'border-t-2',
+      rowIndex === spill.end.row && 'border-b-2',
+      colIndex === spill.start.col && 'border-l-2',
+      colIndex === spill.end.col && 'border-r-2',
+      'border-blue-500'
+    ].filter(Boolean).join(' ') : '';
+
+    const cell = (
+      <div
+        key={cellKey(rowIndex, colIndex)}
+        data-cell={cellKey(rowIndex, colIndex)}
+        className={`border-r border-b p-1 cursor-pointer ${
+          isSelected ? 'bg-primary/20 border-primary' : inSelection ? 'bg-primary/10' : 'hover:bg-muted/50'
+        } ${isCircular ? 'outline outline-1 -outline-offset-1 outline-warning bg-warning/10' : ''} ${
+          inFillPreview ? 'outline-dashed outline-1 -outline-offset-1 outline-primary' : ''
+        } ${spillBorder}`}
+        style={{ ...style, ...referenceOutline(rowIndex, colIndex) }}
+        onMouseDown={(e) => handlePointStart(e, rowIndex, colIndex)}
+        onClick={(e) => handleCellClick(rowIndex, colIndex, selectModeFor(e))}
+        onDoubleClick={() => isSelected && startEditing('edit', 0)}
+        onMouseEnter={() => {
+          handleFillDragOver(rowIndex, colIndex);
+          handlePointDragOver(rowIndex, colIndex);
+        }}
+      >
+        {isSelected ? (
+          <FormulaInput
+            ref={cellEditorRef}
+            containerClassName="w-full h-full"
+            type="text"
+            value={editing ? cellFormula : displayValue(computedValue, calcEngine.getFormat(rowIndex, colIndex), locale)}
+            readOnly={!editing}
+            onChange={(e) => setCellFormula(e.target.value)}
+            syntax={locale}
+            className={`w-full h-full bg-transparent text-xs outline-none ${
+              editing ? '' : 'caret-transparent cursor-pointer'
+            } ${!editing && typeof computedValue === 'number' ? 'text-right' : ''} ${!editing && isError(computedValue) ? 'text-destructive font-medium' : ''}`}
+            // Clicking into the entry being typed moves the caret there, which switches Enter to Edit as in Excel
+            onClick={(e) => {
+              if (!editing) return;
+              e.stopPropagation();
+              setCellMode('edit');
+            }}
+            onKeyDown={(e) => handleCellKeyDown(e, rowIndex, colIndex)}
+            onCopy={(e) => handleCellCopy(e, rowIndex, colIndex)}
+            onPaste={(e) => handleCellPaste(e, rowIndex, colIndex)}
+            onFocus={() => setFormulaEditor('cell')}
+            onBlur={() => {
+              setFormulaEditor(null);
+              commitEdit();
+            }}
+          />
+        ) : (
+          <div
+            className={`w-full h-full flex items-center overflow-hidden whitespace-nowrap select-none text-xs ${
+              typeof computedValue === 'number' ? 'justify-end' : ''
+            } ${showsError ? 'text-destructive font-medium' : ''}`}
+          >
+            {displayValue(computedValue, calcEngine.getFormat(rowIndex, colIndex), locale)}
+          </div>
+        )}
+        {isSelected && !isMultiCell(selection) && (
+          <div
+            aria-label="Fill handle"
+            className="absolute -bottom-1 -right-1 z-10 w-2 h-2 bg-primary border border-white cursor-crosshair"
+            onMouseDown={(e) => { e.preventDefault(); e.stopPropagation(); startFillDrag(); }}
+          />
+        )}
+      </div>
+    );
+
+    // Error cells explain their cause on hover, like Excel's error indicator
+    if (!showsError) return cell;
+    return (
+      <Tooltip key={cellKey(rowIndex, colIndex)}>
+        <TooltipTrigger asChild>{cell}</TooltipTrigger>
+        <TooltipContent className="max-w-xs">
+          <span className="font-medium">{computedValue.code}</span> {computedValue.description}
+        </TooltipContent>
+      </Tooltip>
+    );
+  };
+
+  const logNameAction = (type: 'name_defined' | 'name_deleted', name: string, oldValue: string, newValue: string) => {
+    setSpreadsheetActions(prev => [...prev, { timestamp: new Date().toISOString(), type, cell: name, oldValue, newValue }]);
+  };
+
+  // The worker checks a name against Excel's naming rules again and can refuse it; its reason is returned for the
+  // Name Box or Name Manager to show, and only names it accepted are logged
+  const handleDefineName = async (name: string, refersTo: string, previous?: DefinedName): Promise<string | null> => {
+    try {
+      await defineName(name, refersTo);
+    } catch (error) {
+      return failureOf(error);
+    }
+    logNameAction('name_defined', name, previous?.refersTo ?? '', refersTo);
+    return null;
+  };
+
+  const handleDeleteName = async ({ name, refersTo }: DefinedName): Promise<string | null> => {
+    try {
+      await deleteName(name);
+    } catch (error) {
+      return failureOf(error);
+    }
+    logNameAction('name_deleted', name, refersTo, '');
+    return null;
+  };
+
+  // The Name Box jumps to a cell or name, or names the selected cell, as in Excel
+  const handleNameBoxEnter = async (text: string) => {
+    const target = text.trim();
+    const cell = parseCellAddress(target);
+    const named = cell ? null : calcEngine.getNameRange(target);
+    const destination = cell ?? named?.start;
+    if (destination) {
+      handleCellClick(destination.row, destination.col);
+    } else {
+      const problem = calcEngine.getNames().some(({ name }) => name.toUpperCase() === target.toUpperCase())
+        ? `${target} does not refer to a range.`
+        : checkName(target);
+      if (problem) return setNameBoxError(problem);
+      const selected = parseCellAddress(selectedCell);
+      const failure = await handleDefineName(target, `=${SHEET_NAME}!${formatCellAddress({ ...selected, absRow: true, absCol: true })}`);
+      if (failure) return setNameBoxError(failure);
+    }
+    setNameBoxText(null);
+    setNameBoxError(null);
+  };
+
+  // Formulas are reported with their computed result so the evaluator can tell a working formula from a typo
+  const describeCell = (rowIndex: number, colIndex: number) => {
+    const raw = calcEngine.getRaw(rowIndex, colIndex);
+    const shown = displayValue(calcEngine.getValue(rowIndex, colIndex), calcEngine.getFormat(rowIndex, colIndex));
+    const spill = calcEngine.getSpillRange(rowIndex, colIndex);
+    if (isFormula(raw) && spill) {
+      // A dynamic-array answer lives in the whole spill range, not just its anchor
+      const rows = Array.from({ length: spill.end.row - spill.start.row + 1 }, (_, r) =>
+        Array.from({ length: spill.end.col - spill.start.col + 1 }, (_, c) => {
+          const [row, col] = [spill.start.row + r, spill.start.col + c];
+          return displayValue(calcEngine.getValue(row, col), calcEngine.getFormat(row, col));
+        }).join(', ')
+      );
+      return `${raw} → spills into ${formatRangeAddress(spill)}: ${rows.join('; ')}`;
+    }
+    return isFormula(raw) ? `${raw} → ${shown}` : raw;
   };
 
   const evaluateTask = async (taskId: number, actions: SpreadsheetAction[]): Promise<{ score: number; justification: string }> => {
@@ -173,6 +999,7 @@ const InteractiveExcelAssessment: React.FC = () => {
 
 Task: ${task.description}
 Expected Result: ${task.expectedResult}
+Assessment Date (what TODAY() returns): ${displayValue(Math.floor(dateTimeToSerial(clock())), 'dddd, mmmm d, yyyy')}${task.allowedFunctions ? `\nAllowed Functions: ${task.allowedFunctions.join(', ')}` : ''}
 
 Evaluate based on:
 1. **Correctness**: Did they achieve the expected result?
@@ -186,10 +1013,15 @@ Respond ONLY with JSON:
 }`;
 
       const userPrompt = `Spreadsheet Actions Taken:
-${actions.map(a => `${a.timestamp}: ${a.type} in cell ${a.cell} - changed "${a.oldValue}" to "${a.newValue}"`).join('\n')}
+${actions.map(a => `${a.timestamp}: ${a.type}${a.source ? ` from ${a.source}` : ''} in cell ${a.cell} - changed "${a.oldValue}" to "${a.newValue}"${
+  a.keystrokes !== undefined ? ` (typed in ${((a.durationMs ?? 0) / 1000).toFixed(1)}s with ${a.keystrokes} keystrokes)` : ''
+}`).join('\n')}
 
 Current Spreadsheet State:
-${spreadsheetData.map((row, i) => `Row ${i + 1}: ${row.join(' | ')}`).join('\n')}
+${spreadsheetData.map((row, i) => `Row ${i + 1}: ${row.map((_, j) => describeCell(i, j)).join(' | ')}`).join('\n')}
+
+Defined Names:
+${calcEngine.getNames().map(({ name, refersTo }) => `${name} ${refersTo}`).join('\n') || 'None'}
 
 Evaluate the task completion.`;
 
@@ -227,11 +1059,16 @@ Evaluate the task completion.`;
 
     setIsLoading(true);
     const currentTask = EXCEL_TASKS[currentTaskIndex];
-    const taskActions = spreadsheetActions.filter(action => 
+    // An entry still open when the task ends, as when time runs out mid-edit, counts as confirmed
+    const committed = commitEdit();
+    const taskActions = [...spreadsheetActions, ...(committed ? [committed] : [])].filter(action =>
       new Date(action.timestamp) >= taskStartTime
     );
     
+    const taskKeystrokes = keystrokeLog.current.filter(keystroke => new Date(keystroke.timestamp) >= taskStartTime);
     const timeSpent = Math.round((new Date().getTime() - taskStartTime.getTime()) / 1000);
+    // The evaluator is sent computed results, so they must be up to date
+    await calcEngine.idle();
     const evaluation = await evaluateTask(currentTask.id, taskActions);
 
     const result: TaskResult = {
@@ -241,6 +1078,7 @@ Evaluate the task completion.`;
       score: evaluation.score,
       justification: evaluation.justification,
       actions: taskActions,
+      keystrokes: taskKeystrokes,
       timeSpent
     };
 
@@ -248,12 +1086,14 @@ Evaluate the task completion.`;
 
     if (currentTaskIndex < EXCEL_TASKS.length - 1) {
       setCurrentTaskIndex(prev => prev + 1);
+      removeArrows();
       startNextTask();
     } else {
       setAssessmentStage('report');
     }
     setIsLoading(false);
   };
+  completeTask.current = handleTaskComplete;
 
   const startNextTask = () => {
     const nextTask = EXCEL_TASKS[currentTaskIndex + 1];
@@ -305,7 +1145,7 @@ Evaluate the task completion.`;
                 </li>
                 <li className="flex items-center gap-2">
                   <CheckCircle2 className="w-4 h-4 text-success" />
-                  5 hands-on tasks: VLOOKUP, formulas, data analysis
+                  {EXCEL_TASKS.length} hands-on tasks, from {EXCEL_TASKS[0].title} to {EXCEL_TASKS[EXCEL_TASKS.length - 1].title}
                 </li>
                 <li className="flex items-center gap-2">
                   <CheckCircle2 className="w-4 h-4 text-success" />
@@ -332,7 +1172,7 @@ Evaluate the task completion.`;
               <div className="bg-warning/5 rounded-lg p-4 border border-warning/20">
                 <h4 className="font-semibold text-warning mb-2">Assessment Rules:</h4>
                 <ul className="text-sm text-muted-foreground space-y-1">
-                  <li>• Timed tasks (3-7 minutes each)</li>
+                  <li>• Timed tasks ({TASK_TIME_RANGE} minutes each)</li>
                   <li>• All actions are recorded</li>
                   <li>• No external help allowed</li>
                   <li>• Tab switching monitored</li>
@@ -417,6 +1257,11 @@ Evaluate the task completion.`;
                   <div className="bg-muted rounded-lg p-4">
                     <h4 className="font-medium mb-2">Task:</h4>
                     <p className="text-sm leading-relaxed">{currentTask.description}</p>
+                    {currentTask.allowedFunctions && (
+                      <p className="text-xs text-muted-foreground mt-2">
+                        Available functions: {currentTask.allowedFunctions.join(', ')}
+                      </p>
+                    )}
                   </div>
                   
                   <div className="space-y-2">
@@ -453,68 +1298,125 @@ Evaluate the task completion.`;
                   <div className="flex items-center justify-between">
                     <CardTitle>Excel Spreadsheet</CardTitle>
                     <div className="flex items-center gap-2">
+                      {calculating && (
+                        <span role="status" className="flex items-center gap-1 text-xs text-muted-foreground">
+                          <Loader2 className="w-3 h-3 animate-spin" />
+                          Calculating…
+                        </span>
+                      )}
+                      <Select
+                        value={localeId}
+                        onValueChange={(id: LocaleId) => {
+                          setLocaleId(id);
+                          const selected = parseCellAddress(selectedCell);
+                          setCellFormula(localizeInput(spreadsheetData[selected.row]?.[selected.col] || '', LOCALES[id]));
+                        }}
+                      >
+                        <SelectTrigger aria-label="Locale" className="h-8 w-44 text-xs">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {Object.values(LOCALES).map(({ id, label }) => (
+                            <SelectItem key={id} value={id} className="text-xs">{label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
                       <span className="text-sm text-muted-foreground">Selected: {selectedCell}</span>
-                      <input
-                        type="text"
-                        placeholder="Enter formula..."
+                      <div className="relative">
+                        <input
+                          type="text"
+                          aria-label="Name Box"
+                          value={nameBoxText ?? selectedCell}
+                          onFocus={(e) => e.target.select()}
+                          onChange={(e) => setNameBoxText(e.target.value)}
+                          onBlur={() => { setNameBoxText(null); setNameBoxError(null); }}
+                          onKeyDown={(e) => {
+                            if (e.key === 'Enter' && nameBoxText !== null) handleNameBoxEnter(nameBoxText);
+                            if (e.key === 'Escape') { setNameBoxText(null); setNameBoxError(null); }
+                          }}
+                          className={`px-2 py-1 border rounded text-sm w-28 font-mono ${nameBoxError ? 'border-destructive' : ''}`}
+                        />
+                        {nameBoxError && (
+                          <p className="absolute top-full left-0 mt-1 w-64 text-xs text-destructive bg-background border rounded p-1 z-10">{nameBoxError}</p>
+                        )}
+                      </div>
+                      <NameManagerDialog
+                        engine={calcEngine}
+                        defaultRefersTo={`=${SHEET_NAME}!${formatCellAddress({ ...parseCellAddress(selectedCell), absRow: true, absCol: true })}`}
+                        onDefine={handleDefineName}
+                        onDelete={handleDeleteName}
+                      />
+                      <FormulaBar
+                        ref={formulaBarRef}
                         value={cellFormula}
-                        onChange={(e) => setCellFormula(e.target.value)}
-                        className="px-3 py-1 border rounded text-sm w-64"
+                        // Editing in the bar is an entry like typing in the cell, shown there as Edit mode
+                        onChange={(text) => {
+                          beginEditSession(0);
+                          setCellMode('edit');
+                          setCellFormula(text);
+                        }}
                         onKeyDown={(e) => {
-                          if (e.key === 'Enter') {
-                            const [col, row] = [selectedCell.charCodeAt(0) - 65, parseInt(selectedCell.slice(1)) - 1];
-                            handleCellEdit(row, col, cellFormula);
-                            setCellFormula('');
-                          }
+                          if (isTypingKey(e) || e.key === 'Backspace' || e.key === 'Delete') beginEditSession(0);
+                          recordKeystroke(e);
+                        }}
+                        onEnter={commitEdit}
+                        onCancel={discardEdit}
+                        functions={EXCEL_TASKS[currentTaskIndex].allowedFunctions ?? Object.keys(FUNCTIONS)}
+                        names={calcEngine.getNames().map(({ name }) => name)}
+                        syntax={locale}
+                        onFocus={() => setFormulaEditor('bar')}
+                        onBlur={() => {
+                          setFormulaEditor(null);
+                          commitEdit();
                         }}
                       />
                     </div>
                   </div>
                 </CardHeader>
                 <CardContent>
-                  <div className="border rounded-lg overflow-hidden bg-white">
-                    {/* Column Headers */}
-                    <div className="flex border-b bg-muted/50">
-                      <div className="w-12 h-8 border-r bg-muted flex items-center justify-center text-xs font-medium"></div>
-                      {Array.from({ length: 8 }, (_, i) => (
-                        <div key={i} className="flex-1 h-8 border-r bg-muted flex items-center justify-center text-xs font-medium min-w-[120px]">
-                          {String.fromCharCode(65 + i)}
-                        </div>
-                      ))}
+                  {circularCells.length > 0 && (
+                    <div className="flex items-center gap-2 mb-4 p-3 border border-warning rounded-lg bg-warning/5 text-sm">
+                      <AlertCircle className="w-4 h-4 text-warning shrink-0" />
+                      <span>
+                        <span className="font-medium text-warning">Circular reference: </span>
+                        {circularCells.map(key => {
+                          const [row, col] = key.split(',').map(Number);
+                          return formatCellAddress({ row, col });
+                        }).join(', ')}
+                        {EXCEL_TASKS[currentTaskIndex].iterativeCalculation
+                          ? ' (resolved by iterative calculation)'
+                          : ' — these formulas refer to their own result and are shown as 0.'}
+                      </span>
                     </div>
-                    
-                    {/* Spreadsheet Rows */}
-                    {Array.from({ length: 15 }, (_, rowIndex) => (
-                      <div key={rowIndex} className="flex border-b hover:bg-muted/30">
-                        <div className="w-12 h-10 border-r bg-muted/50 flex items-center justify-center text-xs font-medium">
-                          {rowIndex + 1}
-                        </div>
-                        {Array.from({ length: 8 }, (_, colIndex) => {
-                          const cellName = String.fromCharCode(65 + colIndex) + (rowIndex + 1);
-                          const cellValue = spreadsheetData[rowIndex]?.[colIndex] || '';
-                          const isSelected = selectedCell === cellName;
-                          
-                          return (
-                            <div
-                              key={colIndex}
-                              className={`flex-1 h-10 border-r p-1 cursor-pointer min-w-[120px] ${
-                                isSelected ? 'bg-primary/20 border-primary' : 'hover:bg-muted/50'
-                              }`}
-                              onClick={() => handleCellClick(rowIndex, colIndex)}
-                            >
-                              <input
-                                type="text"
-                                value={cellValue}
-                                onChange={(e) => handleCellEdit(rowIndex, colIndex, e.target.value)}
-                                className="w-full h-full bg-transparent text-xs outline-none"
-                                onPaste={() => setCheatingFlags(prev => [...prev, { type: 'paste', timestamp: new Date().toISOString() }])}
-                              />
-                            </div>
-                          );
-                        })}
-                      </div>
-                    ))}
+                  )}
+                  <div className="flex justify-end mb-2">
+                    <FormulaAuditingToolbar
+                      onTracePrecedents={() => tracePrecedents(parseCellAddress(selectedCell))}
+                      onTraceDependents={() => traceDependents(parseCellAddress(selectedCell))}
+                      onRemoveArrows={removeArrows}
+                      hasArrows={traceArrows.length > 0}
+                    />
                   </div>
+                  <VirtualGrid
+                    rows={grid.rows}
+                    cols={grid.cols}
+                    metrics={GRID_METRICS}
+                    maxHeight={600}
+                    renderCell={renderGridCell}
+                    activeCell={selection.active}
+                    onHeaderClick={handleHeaderClick}
+                    isHeaderSelected={(kind, index) =>
+                      kind === 'row' ? isRowSelected(selection, index) : isColumnSelected(selection, index)}
+                    overlay={<TraceArrowsOverlay arrows={traceArrows} metrics={GRID_METRICS} />}
+                    className="border rounded-t-lg bg-white"
+                  />
+                  <SelectionStatusBar
+                    aggregates={isMultiCell(selection)
+                      ? selectionAggregates(selection, (row, col) => calcEngine.getValue(row, col), grid.rows, grid.cols)
+                      : null}
+                    locale={locale}
+                    mode={cellMode}
+                  />
                 </CardContent>
               </Card>
             </div>
@@ -524,6 +1426,13 @@ Evaluate the task completion.`;
     );
   }
 
+  // The formulas in the cells a task changed, whether typed, filled or pasted, for reviewers to step through
+  const formulaCells = (actions: SpreadsheetAction[]): CellRef[] => {
+    const changed = actions.flatMap(action => parseRangeAddress(action.cell) ?? []);
+    return calcEngine.getFormulaCells().filter(({ row, col }) =>
+      changed.some(({ start, end }) => row >= start.row && row <= end.row && col >= start.col && col <= end.col));
+  };
+
   // Report Screen
   const overallScore = taskResults.length > 0 ? Math.round(taskResults.reduce((sum, result) => sum + result.score, 0) / taskResults.length) : 0;
   const totalTime = taskResults.reduce((sum, result) => sum + result.timeSpent, 0);
@@ -563,6 +1472,17 @@ Evaluate the task completion.`;
           </CardContent>
         </Card>
 
+        {/* Final Workbook */}
+        <Card className="shadow-card mb-6">
+          <CardHeader>
+            <CardTitle className="text-lg">Final Workbook</CardTitle>
+            <CardDescription>Select a cell to see its formula, and trace its precedents and dependents to audit the model.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <WorkbookReview engine={calcEngine} rows={grid.rows} cols={grid.cols} />
+          </CardContent>
+        </Card>
+
         {/* Task Results */}
         <div className="space-y-6">
           {taskResults.map((result, index) => (
@@ -585,11 +1505,21 @@ Evaluate the task completion.`;
                   <div className="bg-muted p-3 rounded-lg max-h-32 overflow-y-auto">
                     {result.actions.map((action, i) => (
                       <div key={i} className="text-sm text-muted-foreground mb-1">
-                        {action.cell}: {action.type === 'formula_entered' ? 'Formula' : 'Edit'} - "{action.newValue}"
+                        {action.cell}: {ACTION_LABELS[action.type]} - "{action.newValue}"
                       </div>
                     ))}
                   </div>
                 </div>
+                {formulaCells(result.actions).length > 0 && (
+                  <div>
+                    <h4 className="font-medium mb-2">Evaluate Formula:</h4>
+                    <div className="flex flex-wrap gap-2">
+                      {formulaCells(result.actions).map(({ row, col }) => (
+                        <EvaluateFormulaDialog key={cellKey(row, col)} engine={calcEngine} row={row} col={col} />
+                      ))}
+                    </div>
+                  </div>
+                )}
                 <div>
                   <h4 className="font-medium mb-2">AI Evaluation:</h4>
                   <p className="text-muted-foreground bg-primary/5 p-3 rounded-lg border border-primary/10">
@@ -598,6 +1528,7 @@ Evaluate the task completion.`;
                 </div>
                 <div className="flex items-center gap-4 text-sm text-muted-foreground">
                   <span>Time: {Math.round(result.timeSpent / 60)}m {result.timeSpent % 60}s</span>
+                  <span>Keystrokes: {result.keystrokes.length}</span>
                   <span>Status: {result.completed ? '✅ Completed' : '❌ Incomplete'}</span>
                 </div>
               </CardContent>
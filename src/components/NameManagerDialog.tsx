@@ -0,0 +1,154 @@
+import React, { useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Pencil, Tags, Trash2 } from "lucide-react";
+import {
+  checkName,
+  displayValue,
+  FormulaParseError,
+  parseCellFormula,
+  type CalcClient,
+  type DefinedName,
+} from "@/lib/formula";
+
+interface NameManagerDialogProps {
+  engine: CalcClient;
+  /** What a new name refers to by default, e.g. the selected cell as `=Sheet1!$B$3`. */
+  defaultRefersTo: string;
+  /** Defines a name; resolves to why it failed, or null once it is defined. */
+  onDefine: (name: string, refersTo: string, previous?: DefinedName) => Promise<string | null>;
+  /** Deletes a name; resolves to why it failed, or null once it is deleted. */
+  onDelete: (name: DefinedName) => Promise<string | null>;
+}
+
+const MAX_VALUE_LENGTH = 40;
+
+// Arrays are shown the way Excel's Name Manager does: {1,2;3,4}
+const describeValue = (rows: ReturnType<CalcClient['evaluateName']>) => {
+  const text = rows.length === 1 && rows[0].length === 1
+    ? displayValue(rows[0][0])
+    : `{${rows.map(row => row.map(value => displayValue(value)).join(',')).join(';')}}`;
+  return text.length > MAX_VALUE_LENGTH ? `${text.slice(0, MAX_VALUE_LENGTH - 1)}…` : text;
+};
+
+const NameManagerDialog: React.FC<NameManagerDialogProps> = ({ engine, defaultRefersTo, onDefine, onDelete }) => {
+  const [editing, setEditing] = useState<DefinedName | null>(null);
+  const [name, setName] = useState('');
+  const [refersTo, setRefersTo] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const names = engine.getNames();
+
+  const startNew = () => {
+    setEditing(null);
+    setName('');
+    setRefersTo(defaultRefersTo);
+    setError(null);
+  };
+
+  const startEdit = (definedName: DefinedName) => {
+    setEditing(definedName);
+    setName(definedName.name);
+    setRefersTo(definedName.refersTo);
+    setError(null);
+  };
+
+  const handleSave = async () => {
+    const problem = checkName(name);
+    if (problem) return setError(problem);
+    const taken = names.some(existing => existing.name.toUpperCase() === name.toUpperCase());
+    if (taken && editing?.name.toUpperCase() !== name.toUpperCase()) return setError(`${name} is already defined.`);
+    const formula = refersTo.startsWith('=') ? refersTo : `=${refersTo}`;
+    const parsed = parseCellFormula(formula);
+    if (parsed instanceof FormulaParseError) return setError(`Refers to: ${parsed.message}.`);
+
+    // A renamed name is only removed once its new name is defined, so a failure loses neither
+    const renamed = editing && editing.name.toUpperCase() !== name.toUpperCase();
+    const failure = await onDefine(name, formula, editing ?? undefined) || (renamed ? await onDelete(editing) : null);
+    if (failure) return setError(failure);
+    startNew();
+  };
+
+  const handleDelete = async (definedName: DefinedName) => {
+    const failure = await onDelete(definedName);
+    setError(failure);
+  };
+
+  return (
+    <Dialog onOpenChange={open => open && startNew()}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Tags className="w-4 h-4 mr-1" />
+          Name Manager
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Name Manager</DialogTitle>
+          <DialogDescription>Defined names can be used in formulas instead of cell references, e.g. =SUM(Prices).</DialogDescription>
+        </DialogHeader>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Name</TableHead>
+              <TableHead>Value</TableHead>
+              <TableHead>Refers To</TableHead>
+              <TableHead className="w-20"></TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {names.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={4} className="text-center text-sm text-muted-foreground">No names defined yet.</TableCell>
+              </TableRow>
+            )}
+            {names.map(definedName => (
+              <TableRow key={definedName.name}>
+                <TableCell className="font-medium">{definedName.name}</TableCell>
+                <TableCell className="font-mono text-xs">{describeValue(engine.evaluateName(definedName.name))}</TableCell>
+                <TableCell className="font-mono text-xs">{definedName.refersTo}</TableCell>
+                <TableCell>
+                  <div className="flex gap-1">
+                    <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => startEdit(definedName)}>
+                      <Pencil className="w-3 h-3" />
+                    </Button>
+                    <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => handleDelete(definedName)}>
+                      <Trash2 className="w-3 h-3" />
+                    </Button>
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        <div className="grid grid-cols-[1fr_2fr_auto] gap-2 items-end">
+          <div className="space-y-1">
+            <Label htmlFor="defined-name">Name</Label>
+            <Input id="defined-name" value={name} onChange={(e) => setName(e.target.value)} placeholder="Prices" />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="defined-name-refers-to">Refers to</Label>
+            <Input
+              id="defined-name-refers-to"
+              value={refersTo}
+              onChange={(e) => setRefersTo(e.target.value)}
+              className="font-mono"
+              onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+            />
+          </div>
+          <div className="flex gap-2">
+            {editing && <Button variant="ghost" onClick={startNew}>Cancel</Button>}
+            <Button onClick={handleSave}>{editing ? 'Save' : 'Add'}</Button>
+          </div>
+        </div>
+        {error && <p className="text-sm text-destructive">{error}</p>}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default NameManagerDialog;
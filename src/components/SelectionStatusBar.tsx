@@ -0,0 +1,43 @@
+import React from 'react';
+import { displayValue, type FormulaLocale } from "@/lib/formula";
+import { CELL_MODE_LABELS, type CellMode } from "@/lib/navigation";
+import type { SelectionAggregates } from "@/lib/selection";
+
+interface SelectionStatusBarProps {
+  /** The figures for the selection, or null when a single cell is selected and there is nothing to sum up. */
+  aggregates: SelectionAggregates | null;
+  locale: FormulaLocale;
+  mode: CellMode;
+}
+
+/**
+ * Excel's status bar: the cell mode at the left, and the Average, Count, Min,
+ * Max and Sum of the selected cells at the right. The numeric figures only
+ * appear once the selection holds a number.
+ */
+const SelectionStatusBar: React.FC<SelectionStatusBarProps> = ({ aggregates, locale, mode }) => {
+  const figures: Array<[string, string]> = [];
+  if (aggregates) {
+    const show = (value: number) => displayValue(value, 'General', locale);
+    if (aggregates.average !== null) figures.push(['Average', show(aggregates.average)]);
+    if (aggregates.count > 0) figures.push(['Count', String(aggregates.count)]);
+    if (aggregates.min !== null) figures.push(['Min', show(aggregates.min)]);
+    if (aggregates.max !== null) figures.push(['Max', show(aggregates.max)]);
+    if (aggregates.numericCount > 0) figures.push(['Sum', show(aggregates.sum)]);
+  }
+
+  return (
+    <div role="status" aria-label="Selection summary" className="flex justify-between h-7 px-3 items-center border-x border-b rounded-b-lg bg-muted/50 text-xs text-muted-foreground">
+      <span aria-label="Cell mode">{CELL_MODE_LABELS[mode]}</span>
+      <span className="flex gap-6">
+        {figures.map(([label, value]) => (
+          <span key={label}>
+            {label}: <span className="font-medium text-foreground">{value}</span>
+          </span>
+        ))}
+      </span>
+    </div>
+  );
+};
+
+export default SelectionStatusBar;
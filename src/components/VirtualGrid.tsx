@@ -0,0 +1,109 @@
+import React, { useEffect } from 'react';
+import { cn } from "@/lib/utils";
+import { indexToColumn } from "@/lib/formula";
+import { cellBox, useVirtualGrid, type GridMetrics } from "@/hooks/use-virtual-grid";
+
+type HeaderKind = 'row' | 'column';
+
+interface VirtualGridProps {
+  rows: number;
+  cols: number;
+  metrics: GridMetrics;
+  /** Renders one cell, placed with `style`; only cells in or near view are rendered. */
+  renderCell: (row: number, col: number, style: React.CSSProperties) => React.ReactNode;
+  /** A cell that is always rendered, even scrolled out of view, and is brought into view when it changes. */
+  activeCell?: { row: number; col: number };
+  /** Called when a column letter or row number is clicked, e.g. to select the whole column or row. */
+  onHeaderClick?: (kind: HeaderKind, index: number, e: React.MouseEvent) => void;
+  /** Whether a column letter or row number is shaded, as Excel shades those of the selection. */
+  isHeaderSelected?: (kind: HeaderKind, index: number) => boolean;
+  /** Drawn over the cells in the coordinates cellBox gives, e.g. trace arrows. */
+  overlay?: React.ReactNode;
+  /** How tall the grid can be before it scrolls, in pixels. */
+  maxHeight: number;
+  className?: string;
+}
+
+/**
+ * A spreadsheet grid that renders only the cells in view, with its column
+ * letters and row numbers kept in place as it scrolls. Which cell is selected
+ * lives with the caller, not in the DOM, so it survives scrolling out of view.
+ */
+const VirtualGrid: React.FC<VirtualGridProps> = ({
+  rows,
+  cols,
+  metrics,
+  renderCell,
+  activeCell,
+  onHeaderClick,
+  isHeaderSelected,
+  overlay,
+  maxHeight,
+  className,
+}) => {
+  const { viewportRef, onScroll, visible, scrollToCell } = useVirtualGrid(rows, cols, metrics);
+  const activeRow = activeCell?.row;
+  const activeCol = activeCell?.col;
+
+  useEffect(() => {
+    if (activeRow !== undefined && activeCol !== undefined) scrollToCell(activeRow, activeCol);
+  }, [activeRow, activeCol, scrollToCell]);
+
+  const visibleRows = Array.from({ length: Math.max(0, visible.lastRow - visible.firstRow + 1) }, (_, i) => visible.firstRow + i);
+  const visibleCols = Array.from({ length: Math.max(0, visible.lastCol - visible.firstCol + 1) }, (_, i) => visible.firstCol + i);
+  const cells = visibleRows.flatMap(row => visibleCols.map(col => ({ row, col })));
+  const activeInView = activeCell !== undefined
+    && activeCell.row >= visible.firstRow && activeCell.row <= visible.lastRow
+    && activeCell.col >= visible.firstCol && activeCell.col <= visible.lastCol;
+  if (activeCell && !activeInView && activeCell.row < rows && activeCell.col < cols) cells.push(activeCell);
+
+  const width = metrics.rowHeaderWidth + cols * metrics.colWidth;
+  const bodyHeight = rows * metrics.rowHeight;
+  const place = (row: number, col: number): React.CSSProperties => ({ position: 'absolute', ...cellBox(metrics, row, col) });
+  const headerClass = (kind: HeaderKind, index: number) => cn(
+    'absolute border-r border-b flex items-center justify-center text-xs font-medium select-none',
+    onHeaderClick && 'cursor-pointer hover:bg-muted-foreground/10',
+    isHeaderSelected?.(kind, index) && 'bg-primary/15 text-primary',
+  );
+
+  return (
+    <div ref={viewportRef} onScroll={onScroll} className={cn('overflow-auto', className)} style={{ maxHeight }}>
+      {/* Column letters, which stay at the top */}
+      <div className="sticky top-0 z-30 flex bg-muted" style={{ width, height: metrics.headerHeight }}>
+        <div className="sticky left-0 z-10 shrink-0 border-r border-b bg-muted" style={{ width: metrics.rowHeaderWidth }} />
+        <div className="relative" style={{ width: cols * metrics.colWidth }}>
+          {visibleCols.map(col => (
+            <div
+              key={col}
+              className={cn(headerClass('column', col), 'top-0 h-full')}
+              style={{ left: col * metrics.colWidth, width: metrics.colWidth }}
+              onClick={(e) => onHeaderClick?.('column', col, e)}
+            >
+              {indexToColumn(col)}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="relative" style={{ width, height: bodyHeight }}>
+        {/* Row numbers, which stay at the left */}
+        <div className="sticky left-0 z-10 bg-muted" style={{ width: metrics.rowHeaderWidth, height: bodyHeight }}>
+          {visibleRows.map(row => (
+            <div
+              key={row}
+              className={cn(headerClass('row', row), 'left-0 w-full')}
+              style={{ top: row * metrics.rowHeight, height: metrics.rowHeight }}
+              onClick={(e) => onHeaderClick?.('row', row, e)}
+            >
+              {row + 1}
+            </div>
+          ))}
+        </div>
+        {cells.map(({ row, col }) => renderCell(row, col, place(row, col)))}
+        {overlay}
+      </div>
+    </div>
+  );
+};
+
+export default VirtualGrid;
@@ -0,0 +1,72 @@
+import React, { useState } from 'react';
+import { FormulaAuditingToolbar, TraceArrowsOverlay } from "@/components/FormulaAuditing";
+import VirtualGrid from "@/components/VirtualGrid";
+import { useTraceArrows } from "@/hooks/use-trace-arrows";
+import type { GridMetrics } from "@/hooks/use-virtual-grid";
+import { cellKey, displayValue, formatCellAddress, isError, type CalcClient } from "@/lib/formula";
+
+interface WorkbookReviewProps {
+  engine: CalcClient;
+  rows: number;
+  cols: number;
+}
+
+const REVIEW_METRICS: GridMetrics = { rowHeight: 28, colWidth: 96, headerHeight: 28, rowHeaderWidth: 40 };
+
+/**
+ * A read-only view of the final workbook for reviewers, who can select a cell
+ * to see its formula and trace its precedents and dependents.
+ */
+const WorkbookReview: React.FC<WorkbookReviewProps> = ({ engine, rows, cols }) => {
+  const [selected, setSelected] = useState({ row: 0, col: 0 });
+  const { arrows, tracePrecedents, traceDependents, removeArrows } = useTraceArrows(engine, rows, cols);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2 text-sm">
+          <span className="px-2 py-1 border rounded font-mono w-16">{formatCellAddress(selected)}</span>
+          <span className="px-2 py-1 border rounded font-mono min-w-[16rem] text-muted-foreground">
+            {engine.getRaw(selected.row, selected.col)}
+          </span>
+        </div>
+        <FormulaAuditingToolbar
+          onTracePrecedents={() => tracePrecedents(selected)}
+          onTraceDependents={() => traceDependents(selected)}
+          onRemoveArrows={removeArrows}
+          hasArrows={arrows.length > 0}
+        />
+      </div>
+
+      <VirtualGrid
+        rows={rows}
+        cols={cols}
+        metrics={REVIEW_METRICS}
+        maxHeight={420}
+        renderCell={(row, col, style) => {
+          const value = engine.getValue(row, col);
+          const isSelected = selected.row === row && selected.col === col;
+          return (
+            <div
+              key={cellKey(row, col)}
+              data-cell={cellKey(row, col)}
+              style={style}
+              className={`border-r border-b px-1 text-xs flex items-center overflow-hidden whitespace-nowrap cursor-pointer ${
+                typeof value === 'number' ? 'justify-end' : ''
+              } ${isSelected ? 'outline outline-2 -outline-offset-2 outline-primary' : ''} ${
+                isError(value) ? 'text-destructive font-medium' : ''
+              }`}
+              onClick={() => setSelected({ row, col })}
+            >
+              {displayValue(value, engine.getFormat(row, col))}
+            </div>
+          );
+        }}
+        overlay={<TraceArrowsOverlay arrows={arrows} metrics={REVIEW_METRICS} />}
+        className="border rounded-lg bg-white"
+      />
+    </div>
+  );
+};
+
+export default WorkbookReview;
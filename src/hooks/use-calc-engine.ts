@@ -0,0 +1,90 @@
+import * as React from "react";
+import { CalcClient, type CalcEngineOptions, type CellEdit, type Clock, type IterativeCalculation } from "@/lib/formula";
+
+/** How long a recalculation has to run before it is reported, so quick edits don't flash "Calculating…". */
+const CALCULATING_DELAY_MS = 200;
+
+const startWorker = (data: string[][], clock?: Clock) => {
+  const worker = new Worker(new URL("../lib/formula/calc.worker.ts", import.meta.url), { type: "module" });
+  const client = new CalcClient(worker, clock);
+  client.load(data);
+  return { worker, client };
+};
+
+/**
+ * Runs a formula engine in a Web Worker for the lifetime of the component and
+ * re-renders whenever recalculated values arrive. `calculating` turns on while
+ * a recalculation takes noticeably long, like Excel's status bar.
+ */
+export function useCalcEngine(initialData: string[][], options: CalcEngineOptions = {}) {
+  const workerRef = React.useRef<Worker | null>(null);
+  const clientRef = React.useRef<CalcClient | null>(null);
+  // Only the data and clock the hook is first given seed the worker, as with useState's initial value
+  const seed = React.useRef({ data: initialData, clock: options.clock });
+  const start = () => {
+    const { worker, client } = startWorker(seed.current.data, seed.current.clock);
+    workerRef.current = worker;
+    clientRef.current = client;
+  };
+  // The first render needs values to show, so the worker starts before any effect runs
+  if (!clientRef.current) start();
+  const [, setRevision] = React.useState(0);
+  const [calculating, setCalculating] = React.useState(false);
+
+  React.useEffect(() => {
+    // A remount that keeps the refs, as StrictMode's is, finds the worker the last cleanup terminated gone and starts another
+    if (!clientRef.current) start();
+    const client = clientRef.current;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    const unsubscribe = client.subscribe(() => {
+      setRevision(revision => revision + 1);
+      if (client.calculating) {
+        timer ??= setTimeout(() => setCalculating(true), CALCULATING_DELAY_MS);
+      } else {
+        if (timer) clearTimeout(timer);
+        timer = null;
+        setCalculating(false);
+      }
+    });
+    return () => {
+      unsubscribe();
+      if (timer) clearTimeout(timer);
+      client.close();
+      workerRef.current.terminate();
+      workerRef.current = null;
+      clientRef.current = null;
+    };
+  }, []);
+
+  // TODAY() and NOW() follow the clock the caller injects, e.g. one frozen for an assessment
+  const { clock } = options;
+  React.useEffect(() => {
+    if (clock) clientRef.current.setClock(clock);
+  }, [clock]);
+
+  const setCell = React.useCallback((row: number, col: number, raw: string) => clientRef.current.setCell(row, col, raw), []);
+
+  const setCells = React.useCallback((edits: CellEdit[]) => clientRef.current.setCells(edits), []);
+
+  const setIterativeCalculation = React.useCallback(
+    (settings: IterativeCalculation | null) => clientRef.current.setIterativeCalculation(settings),
+    []
+  );
+
+  const setAllowedFunctions = React.useCallback((names: string[] | null) => clientRef.current.setAllowedFunctions(names), []);
+
+  const defineName = React.useCallback((name: string, refersTo: string) => clientRef.current.defineName(name, refersTo), []);
+
+  const deleteName = React.useCallback((name: string) => clientRef.current.deleteName(name), []);
+
+  return {
+    engine: clientRef.current,
+    calculating,
+    setCell,
+    setCells,
+    setIterativeCalculation,
+    setAllowedFunctions,
+    defineName,
+    deleteName,
+  };
+}
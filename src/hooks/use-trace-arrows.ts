@@ -0,0 +1,92 @@
+import * as React from "react";
+import { cellKey, isFormula, type CalcClient, type RangeRef } from "@/lib/formula";
+
+type Cell = { row: number; col: number };
+
+/** An arrow Trace Precedents or Trace Dependents draws, from a cell or range to the formula that reads it. */
+export interface TraceArrow {
+  kind: 'precedent' | 'dependent';
+  /** Where the arrow starts; a range is also boxed, and whole columns are cut to the grid. */
+  from: RangeRef;
+  to: Cell;
+}
+
+/** A cell being traced and how many levels deep, one per press of the button. */
+interface Trace {
+  kind: TraceArrow['kind'];
+  cell: Cell;
+  levels: number;
+}
+
+const rangeOf = ({ row, col }: Cell): RangeRef => ({
+  start: { row, col, absRow: false, absCol: false },
+  end: { row, col, absRow: false, absCol: false },
+});
+
+const clip = (range: RangeRef, rows: number, cols: number): RangeRef | null => {
+  const end = { ...range.end, row: Math.min(range.end.row, rows - 1), col: Math.min(range.end.col, cols - 1) };
+  return range.start.row <= end.row && range.start.col <= end.col ? { start: range.start, end } : null;
+};
+
+/** Follows a trace out level by level, as Excel does when the button is pressed again. */
+const traceArrows = (engine: CalcClient, trace: Trace, rows: number, cols: number): TraceArrow[] => {
+  const arrows: TraceArrow[] = [];
+  const seen = new Set([cellKey(trace.cell.row, trace.cell.col)]);
+  let frontier = [trace.cell];
+  for (let level = 0; level < trace.levels && frontier.length > 0; level++) {
+    const next: Cell[] = [];
+    const visit = (cell: Cell) => {
+      const key = cellKey(cell.row, cell.col);
+      if (seen.has(key)) return;
+      seen.add(key);
+      next.push(cell);
+    };
+    for (const cell of frontier) {
+      if (trace.kind === 'precedent') {
+        for (const precedent of engine.getPrecedents(cell.row, cell.col)) {
+          const from = clip(precedent, rows, cols);
+          if (!from) continue;
+          arrows.push({ kind: 'precedent', from, to: cell });
+          // The next level traces the formulas inside the range
+          for (let row = from.start.row; row <= from.end.row; row++) {
+            for (let col = from.start.col; col <= from.end.col; col++) {
+              if (isFormula(engine.getRaw(row, col))) visit({ row, col });
+            }
+          }
+        }
+      } else {
+        for (const dependent of engine.getDependents(cell.row, cell.col)) {
+          if (dependent.row >= rows || dependent.col >= cols) continue;
+          arrows.push({ kind: 'dependent', from: rangeOf(cell), to: dependent });
+          visit(dependent);
+        }
+      }
+    }
+    frontier = next;
+  }
+  return arrows;
+};
+
+/**
+ * Excel's Trace Precedents, Trace Dependents and Remove Arrows for a grid of
+ * `rows` by `cols` cells. Arrows are worked out from the engine on every
+ * render, so they follow the formulas as they change.
+ */
+export function useTraceArrows(engine: CalcClient, rows: number, cols: number) {
+  const [traces, setTraces] = React.useState<Trace[]>([]);
+
+  const trace = React.useCallback((kind: Trace['kind'], cell: Cell) => {
+    setTraces(current => {
+      const existing = current.find(t => t.kind === kind && t.cell.row === cell.row && t.cell.col === cell.col);
+      if (!existing) return [...current, { kind, cell, levels: 1 }];
+      return current.map(t => (t === existing ? { ...t, levels: t.levels + 1 } : t));
+    });
+  }, []);
+
+  const tracePrecedents = React.useCallback((cell: Cell) => trace('precedent', cell), [trace]);
+  const traceDependents = React.useCallback((cell: Cell) => trace('dependent', cell), [trace]);
+  const removeArrows = React.useCallback(() => setTraces([]), []);
+
+  const arrows = traces.flatMap(t => traceArrows(engine, t, rows, cols));
+  return { arrows, tracePrecedents, traceDependents, removeArrows };
+}
@@ -0,0 +1,88 @@
+import * as React from "react";
+
+/** The fixed sizes of a grid's cells and headers, in pixels. */
+export interface GridMetrics {
+  rowHeight: number;
+  colWidth: number;
+  /** The height of the column letters along the top. */
+  headerHeight: number;
+  /** The width of the row numbers down the side. */
+  rowHeaderWidth: number;
+}
+
+/** Where a cell sits in the grid's body, below the column headers and counting the row headers. */
+export interface CellBox {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+export const cellBox = (metrics: GridMetrics, row: number, col: number): CellBox => ({
+  left: metrics.rowHeaderWidth + col * metrics.colWidth,
+  top: row * metrics.rowHeight,
+  width: metrics.colWidth,
+  height: metrics.rowHeight,
+});
+
+/** Rows and columns rendered beyond each edge of the viewport, so fast scrolling doesn't show gaps. */
+const OVERSCAN = 4;
+
+/** The first and last rows and columns (inclusive) that are in or near the viewport. */
+export interface GridWindow {
+  firstRow: number;
+  lastRow: number;
+  firstCol: number;
+  lastCol: number;
+}
+
+/**
+ * Windowing for a grid of `rows` by `cols` equally sized cells: tracks the
+ * scroll position and size of the viewport `viewportRef` is attached to and
+ * works out which cells are worth rendering. Only those are in the DOM, so
+ * the grid costs the same whether it has fifteen rows or fifty thousand.
+ */
+export function useVirtualGrid(rows: number, cols: number, metrics: GridMetrics) {
+  const viewportRef = React.useRef<HTMLDivElement>(null);
+  const [scroll, setScroll] = React.useState({ top: 0, left: 0 });
+  const [size, setSize] = React.useState({ width: 0, height: 0 });
+
+  React.useLayoutEffect(() => {
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+    const measure = () => setSize({ width: viewport.clientWidth, height: viewport.clientHeight });
+    measure();
+    const observer = new ResizeObserver(measure);
+    observer.observe(viewport);
+    return () => observer.disconnect();
+  }, []);
+
+  const onScroll = React.useCallback((e: React.UIEvent<HTMLDivElement>) => {
+    setScroll({ top: e.currentTarget.scrollTop, left: e.currentTarget.scrollLeft });
+  }, []);
+
+  const visible: GridWindow = {
+    firstRow: Math.max(0, Math.floor(scroll.top / metrics.rowHeight) - OVERSCAN),
+    lastRow: Math.min(rows - 1, Math.ceil((scroll.top + size.height - metrics.headerHeight) / metrics.rowHeight) + OVERSCAN),
+    firstCol: Math.max(0, Math.floor(scroll.left / metrics.colWidth) - OVERSCAN),
+    lastCol: Math.min(cols - 1, Math.ceil((scroll.left + size.width - metrics.rowHeaderWidth) / metrics.colWidth) + OVERSCAN),
+  };
+
+  /** Scrolls the least distance that brings a cell fully into view, clear of the sticky headers. */
+  const scrollToCell = React.useCallback((row: number, col: number) => {
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+    const box = cellBox(metrics, row, col);
+    const visibleHeight = viewport.clientHeight - metrics.headerHeight;
+    const visibleWidth = viewport.clientWidth - metrics.rowHeaderWidth;
+    let { scrollTop, scrollLeft } = viewport;
+    if (box.top < scrollTop) scrollTop = box.top;
+    else if (box.top + box.height > scrollTop + visibleHeight) scrollTop = box.top + box.height - visibleHeight;
+    const left = box.left - metrics.rowHeaderWidth;
+    if (left < scrollLeft) scrollLeft = left;
+    else if (left + box.width > scrollLeft + visibleWidth) scrollLeft = left + box.width - visibleWidth;
+    viewport.scrollTo({ top: scrollTop, left: scrollLeft });
+  }, [metrics]);
+
+  return { viewportRef, onScroll, visible, scrollToCell };
+}
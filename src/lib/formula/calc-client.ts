@@ -0,0 +1,294 @@
+import { fromWire, type CalcCommand, type CalcRequest, type CalcResponse, type CellResult } from './calc-protocol';
+import { systemClock, type Clock } from './dates';
+import { isFormula, type CellEdit, type IterativeCalculation } from './engine';
+import type { EvaluationStep } from './evaluation-steps';
+import type { DefinedName } from './names';
+import { cellKey, type CellRef, type RangeRef } from './references';
+import type { CellValue } from './values';
+
+/** Where the client posts requests: a Worker running calc.worker.ts, or anything that answers like one. */
+export interface CalcPort {
+  postMessage(request: CalcRequest): void;
+  onmessage: ((event: { data: CalcResponse }) => void) | null;
+}
+
+interface CellSnapshot {
+  raw: string;
+  value: CellValue;
+  format: string;
+  precedents: RangeRef[];
+  spill: RangeRef | null;
+}
+
+interface NameSnapshot extends DefinedName {
+  values: CellValue[][];
+  range: RangeRef | null;
+}
+
+interface Pending<T> {
+  resolve: (value: T) => void;
+  reject: (error: Error) => void;
+}
+
+const contains = (range: RangeRef, row: number, col: number) =>
+  row >= range.start.row && row <= range.end.row && col >= range.start.col && col <= range.end.col;
+
+/**
+ * The main thread's side of the calculation worker. Changes are posted to the
+ * worker and resolve once their results are back; meanwhile the client answers
+ * the grid's reads from the last values the worker sent, so rendering never
+ * waits on a recalculation.
+ */
+export class CalcClient {
+  private readonly cells = new Map<string, CellSnapshot>();
+  /** Maps every cell a dynamic array spills into (not the anchor itself) to its anchor. */
+  private readonly spillOwners = new Map<string, string>();
+  private names: NameSnapshot[] = [];
+  private circular = new Set<string>();
+  private nextId = 1;
+  private readonly calculations = new Map<number, Pending<void>>();
+  private readonly stepRequests = new Map<number, Pending<EvaluationStep[]>>();
+  private readonly listeners = new Set<() => void>();
+  private idleWaiters: Array<Pending<void>> = [];
+
+  constructor(private readonly port: CalcPort, private clock: Clock = systemClock) {
+    port.onmessage = event => this.receive(event.data);
+  }
+
+  /** Whether any change is still being recalculated. */
+  get calculating(): boolean {
+    return this.calculations.size > 0;
+  }
+
+  /** Calls `listener` whenever cells or the calculating state change; returns the unsubscribe function. */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /** Resolves once every change posted so far has been recalculated. */
+  idle(): Promise<void> {
+    if (!this.calculating) return Promise.resolve();
+    return new Promise((resolve, reject) => this.idleWaiters.push({ resolve, reject }));
+  }
+
+  /**
+   * Stops listening to the worker, for when it is terminated. Every change and
+   * request still pending rejects, as does idle(), since no results will come
+   * back for them.
+   */
+  close() {
+    this.port.onmessage = null;
+    const error = new Error('The calculation worker was stopped.');
+    for (const pending of [...this.calculations.values(), ...this.stepRequests.values(), ...this.idleWaiters]) {
+      pending.reject(error);
+    }
+    this.calculations.clear();
+    this.stepRequests.clear();
+    this.idleWaiters = [];
+    this.notify();
+  }
+
+  load(data: string[][]) {
+    return this.calculate({ type: 'load', data });
+  }
+
+  setCell(row: number, col: number, raw: string) {
+    return this.setCells([{ row, col, raw }]);
+  }
+
+  setCells(edits: CellEdit[]) {
+    // Inputs show straight away; only the values wait for the worker
+    for (const { row, col, raw } of edits) {
+      const key = cellKey(row, col);
+      const cell = this.cells.get(key);
+      if (cell) cell.raw = raw;
+      else this.cells.set(key, { raw, value: null, format: 'General', precedents: [], spill: null });
+    }
+    return this.calculate({ type: 'setCells', edits });
+  }
+
+  setIterativeCalculation(settings: IterativeCalculation | null) {
+    return this.calculate({ type: 'setIterativeCalculation', settings });
+  }
+
+  setAllowedFunctions(names: string[] | null) {
+    return this.calculate({ type: 'setAllowedFunctions', names });
+  }
+
+  /** Creates or redefines a name; rejects if the name breaks Excel's naming rules (see `checkName`). */
+  defineName(name: string, refersTo: string) {
+    return this.calculate({ type: 'defineName', name, refersTo });
+  }
+
+  deleteName(name: string) {
+    return this.calculate({ type: 'deleteName', name });
+  }
+
+  /** Replaces the clock TODAY() and NOW() read, then recalculates the formulas that use them. */
+  setClock(clock: Clock) {
+    this.clock = clock;
+    return this.calculate({ type: 'tick' });
+  }
+
+  /** The steps Evaluate Formula walks through for a cell, worked out by the worker after any pending changes. */
+  getEvaluationSteps(row: number, col: number): Promise<EvaluationStep[]> {
+    const id = this.nextId++;
+    const steps = new Promise<EvaluationStep[]>((resolve, reject) => this.stepRequests.set(id, { resolve, reject }));
+    this.port.postMessage({ type: 'evaluationSteps', id, row, col });
+    return steps;
+  }
+
+  getValue(row: number, col: number): CellValue {
+    return this.cells.get(cellKey(row, col))?.value ?? null;
+  }
+
+  getRaw(row: number, col: number): string {
+    return this.cells.get(cellKey(row, col))?.raw ?? '';
+  }
+
+  getFormat(row: number, col: number): string {
+    return this.cells.get(cellKey(row, col))?.format ?? 'General';
+  }
+
+  getSpillRange(row: number, col: number): RangeRef | null {
+    return this.cells.get(cellKey(row, col))?.spill ?? null;
+  }
+
+  getSpillRangeAt(row: number, col: number): RangeRef | null {
+    const key = cellKey(row, col);
+    return this.cells.get(this.spillOwners.get(key) ?? key)?.spill ?? null;
+  }
+
+  /**
+   * Where Ctrl+End goes: the last row and the last column that hold anything,
+   * counting the cells formulas spill into, which may meet at an empty cell.
+   */
+  getLastUsedCell(): CellRef {
+    let row = 0;
+    let col = 0;
+    for (const [key, cell] of this.cells) {
+      const [cellRow, cellCol] = key.split(',').map(Number);
+      row = Math.max(row, cellRow, cell.spill?.end.row ?? 0);
+      col = Math.max(col, cellCol, cell.spill?.end.col ?? 0);
+    }
+    return { row, col, absRow: false, absCol: false };
+  }
+
+  /** Every cell holding a formula, row by row. */
+  getFormulaCells(): CellRef[] {
+    return [...this.cells]
+      .filter(([, cell]) => isFormula(cell.raw))
+      .map(([key]) => {
+        const [row, col] = key.split(',').map(Number);
+        return { row, col, absRow: false, absCol: false };
+      })
+      .sort((a, b) => a.row - b.row || a.col - b.col);
+  }
+
+  getNames(): DefinedName[] {
+    return this.names.map(({ name, refersTo }) => ({ name, refersTo }));
+  }
+
+  getNameRange(name: string): RangeRef | null {
+    return this.findName(name)?.range ?? null;
+  }
+
+  evaluateName(name: string): CellValue[][] {
+    return this.findName(name)?.values ?? [[null]];
+  }
+
+  getCircularCells(): string[] {
+    return [...this.circular];
+  }
+
+  isCircular(row: number, col: number): boolean {
+    return this.circular.has(cellKey(row, col));
+  }
+
+  getPrecedents(row: number, col: number): RangeRef[] {
+    return this.cells.get(cellKey(row, col))?.precedents ?? [];
+  }
+
+  getDependents(row: number, col: number): CellRef[] {
+    const dependents: CellRef[] = [];
+    for (const [key, cell] of this.cells) {
+      if (!cell.precedents.some(range => contains(range, row, col))) continue;
+      const [dependentRow, dependentCol] = key.split(',').map(Number);
+      dependents.push({ row: dependentRow, col: dependentCol, absRow: false, absCol: false });
+    }
+    return dependents;
+  }
+
+  private findName(name: string): NameSnapshot | undefined {
+    return this.names.find(record => record.name.toUpperCase() === name.toUpperCase());
+  }
+
+  private calculate(command: CalcCommand): Promise<void> {
+    const id = this.nextId++;
+    const result = new Promise<void>((resolve, reject) => this.calculations.set(id, { resolve, reject }));
+    // Changes are often made without waiting on them, so one rejected by close() isn't reported as unhandled
+    result.catch(() => {});
+    this.port.postMessage({ type: 'calculate', id, now: this.clock().getTime(), command });
+    this.notify();
+    return result;
+  }
+
+  private receive(response: CalcResponse) {
+    switch (response.type) {
+      case 'cells':
+        if (response.reset) {
+          this.cells.clear();
+          this.spillOwners.clear();
+        }
+        for (const cell of response.cells) this.store(cell);
+        break;
+      case 'calculated':
+        this.circular = new Set(response.circular);
+        this.names = response.names.map(name => ({ ...name, values: name.values.map(row => row.map(fromWire)) }));
+        for (const id of response.ids) {
+          this.calculations.get(id)?.resolve();
+          this.calculations.delete(id);
+        }
+        if (!this.calculating) {
+          for (const { resolve } of this.idleWaiters.splice(0)) resolve();
+        }
+        break;
+      case 'failed':
+        this.calculations.get(response.id)?.reject(new Error(response.message));
+        this.calculations.delete(response.id);
+        break;
+      case 'evaluationSteps':
+        this.stepRequests.get(response.id)?.resolve(response.steps);
+        this.stepRequests.delete(response.id);
+        return;
+    }
+    this.notify();
+  }
+
+  private store({ row, col, raw, value, format, precedents, spill }: CellResult) {
+    const key = cellKey(row, col);
+    const previous = this.cells.get(key)?.spill;
+    if (previous) {
+      this.forEachSpilled(previous, key, spilled => {
+        if (this.spillOwners.get(spilled) === key) this.spillOwners.delete(spilled);
+      });
+    }
+    if (spill) this.forEachSpilled(spill, key, spilled => this.spillOwners.set(spilled, key));
+    if (!raw && value === null) this.cells.delete(key);
+    else this.cells.set(key, { raw, value: fromWire(value), format, precedents, spill });
+  }
+
+  private forEachSpilled(range: RangeRef, anchor: string, visit: (key: string) => void) {
+    for (let row = range.start.row; row <= range.end.row; row++) {
+      for (let col = range.start.col; col <= range.end.col; col++) {
+        const key = cellKey(row, col);
+        if (key !== anchor) visit(key);
+      }
+    }
+  }
+
+  private notify() {
+    for (const listener of this.listeners) listener();
+  }
+}
@@ -0,0 +1,155 @@
+import { toWire, type CalcCommand, type CalcRequest, type CalcResponse, type CellResult } from './calc-protocol';
+import { CalcEngine, type CellEdit } from './engine';
+import { cellKey } from './references';
+
+/** How many formulas are recalculated at a time, so newer edits are picked up partway through a large recalculation. */
+const SLICE_SIZE = 1000;
+
+/** How many cells are posted at a time, so newer edits are picked up between batches of a large recalculation. */
+const BATCH_SIZE = 500;
+
+/**
+ * Runs a CalcEngine on the worker side of the calculation protocol. Requests
+ * are queued and applied together, and formulas are recalculated a slice at a
+ * time: edits that arrive meanwhile drop the outdated pass, and the formulas
+ * it had yet to reach are recalculated with theirs in one pass. Likewise a
+ * calculation whose results are still being posted is superseded by newer
+ * edits, so its remaining cells are sent once with theirs instead of twice.
+ */
+export class CalcHost {
+  private readonly engine: CalcEngine;
+  private now = Date.now();
+  private readonly queue: CalcRequest[] = [];
+  /** Cells changed by applied calculations that have not been posted yet. */
+  private readonly unsent = new Set<string>();
+  /** Calculations applied whose cells have not all been posted. */
+  private applied: number[] = [];
+  /** Whether the next batch replaces every cell, after a load. */
+  private reset = false;
+  private scheduled = false;
+
+  constructor(private readonly post: (response: CalcResponse) => void) {
+    this.engine = new CalcEngine([], { clock: () => new Date(this.now), deferRecalculation: true });
+  }
+
+  receive(request: CalcRequest) {
+    this.queue.push(request);
+    this.schedule();
+  }
+
+  private schedule() {
+    if (this.scheduled) return;
+    this.scheduled = true;
+    setTimeout(() => this.run(), 0);
+  }
+
+  /**
+   * Applies everything queued and recalculates one slice of the stale formulas;
+   * once none are left, posts one batch of changed cells. Yields before the next.
+   */
+  private run() {
+    this.scheduled = false;
+    let edits: CellEdit[] = [];
+    const flushEdits = () => {
+      if (edits.length > 0) this.engine.setCells(edits);
+      edits = [];
+    };
+    for (const request of this.queue.splice(0)) {
+      if (request.type === 'evaluationSteps') {
+        flushEdits();
+        this.engine.recalculateStale();
+        this.post({ type: 'evaluationSteps', id: request.id, steps: this.engine.getEvaluationSteps(request.row, request.col) });
+        continue;
+      }
+      this.now = request.now;
+      this.applied.push(request.id);
+      if (request.command.type === 'setCells') {
+        edits.push(...request.command.edits);
+        continue;
+      }
+      flushEdits();
+      try {
+        this.apply(request.command);
+      } catch (error) {
+        this.post({ type: 'failed', id: request.id, message: error instanceof Error ? error.message : String(error) });
+      }
+    }
+    flushEdits();
+    if (this.engine.recalculateStale(SLICE_SIZE)) return this.schedule();
+
+    for (const key of this.engine.takeChangedCells()) this.markUnsent(key);
+    const batch = [...this.unsent].slice(0, BATCH_SIZE);
+    for (const key of batch) this.unsent.delete(key);
+    if (batch.length > 0 || this.reset) {
+      this.post({ type: 'cells', cells: batch.map(key => this.describe(key)), reset: this.reset });
+      this.reset = false;
+    }
+    if (this.unsent.size > 0) return this.schedule();
+    if (this.applied.length === 0) return;
+
+    this.post({
+      type: 'calculated',
+      ids: this.applied,
+      circular: this.engine.getCircularCells(),
+      names: this.engine.getNames().map(name => ({
+        ...name,
+        values: this.engine.evaluateName(name.name).map(row => row.map(toWire)),
+        range: this.engine.getNameRange(name.name),
+      })),
+    });
+    this.applied = [];
+  }
+
+  private apply(command: CalcCommand) {
+    switch (command.type) {
+      case 'load':
+        this.engine.load(command.data);
+        // Cells left over from the old sheet are cleared rather than sent
+        this.unsent.clear();
+        this.reset = true;
+        break;
+      case 'setCells':
+        this.engine.setCells(command.edits);
+        break;
+      case 'setIterativeCalculation':
+        this.engine.setIterativeCalculation(command.settings);
+        break;
+      case 'setAllowedFunctions':
+        this.engine.setAllowedFunctions(command.names);
+        break;
+      case 'defineName':
+        this.engine.defineName(command.name, command.refersTo);
+        break;
+      case 'deleteName':
+        this.engine.deleteName(command.name);
+        break;
+      case 'tick':
+        this.engine.setClock(() => new Date(this.now));
+        break;
+    }
+  }
+
+  private markUnsent(key: string) {
+    this.unsent.add(key);
+    const [row, col] = key.split(',').map(Number);
+    const spill = this.engine.getSpillRange(row, col);
+    if (!spill) return;
+    // A spilled array's values can change without its range moving, so its cells go along with the anchor
+    for (let r = spill.start.row; r <= spill.end.row; r++) {
+      for (let c = spill.start.col; c <= spill.end.col; c++) this.unsent.add(cellKey(r, c));
+    }
+  }
+
+  private describe(key: string): CellResult {
+    const [row, col] = key.split(',').map(Number);
+    return {
+      row,
+      col,
+      raw: this.engine.getRaw(row, col),
+      value: toWire(this.engine.getValue(row, col)),
+      format: this.engine.getFormat(row, col),
+      precedents: this.engine.getPrecedents(row, col),
+      spill: this.engine.getSpillRange(row, col),
+    };
+  }
+}
@@ -0,0 +1,67 @@
+import type { CellEdit, IterativeCalculation } from './engine';
+import type { EvaluationStep } from './evaluation-steps';
+import type { DefinedName } from './names';
+import type { RangeRef } from './references';
+import { FormulaError, isError, type CellValue, type ErrorCode } from './values';
+
+interface WireError {
+  error: ErrorCode;
+  message?: string;
+}
+
+/** A cell value as it is posted to or from the worker, since structured cloning drops FormulaError's class. */
+export type WireValue = Exclude<CellValue, FormulaError> | WireError;
+
+const isWireError = (value: WireValue): value is WireError => typeof value === 'object' && value !== null;
+
+export const toWire = (value: CellValue): WireValue =>
+  isError(value) ? { error: value.code, message: value.message } : value;
+
+export const fromWire = (value: WireValue): CellValue =>
+  isWireError(value) ? new FormulaError(value.error, value.message) : value;
+
+/** A change to the workbook, after which the worker recalculates. */
+export type CalcCommand =
+  | { type: 'load'; data: string[][] }
+  | { type: 'setCells'; edits: CellEdit[] }
+  | { type: 'setIterativeCalculation'; settings: IterativeCalculation | null }
+  | { type: 'setAllowedFunctions'; names: string[] | null }
+  | { type: 'defineName'; name: string; refersTo: string }
+  | { type: 'deleteName'; name: string }
+  /** The clock moved, so TODAY() and NOW() recalculate. */
+  | { type: 'tick' };
+
+/** A message from the main thread to the calculation worker. */
+export type CalcRequest =
+  /** `now` is the main thread's clock when the change was made, which TODAY() and NOW() read. */
+  | { type: 'calculate'; id: number; now: number; command: CalcCommand }
+  | { type: 'evaluationSteps'; id: number; row: number; col: number };
+
+/** A cell whose value may have changed, with everything the grid shows about it. */
+export interface CellResult {
+  row: number;
+  col: number;
+  raw: string;
+  value: WireValue;
+  format: string;
+  /** The cells and ranges a formula reads, for tracing precedents and dependents. */
+  precedents: RangeRef[];
+  /** The range a dynamic array anchored here spilled into. */
+  spill: RangeRef | null;
+}
+
+/** A defined name with its current value, as the Name Manager lists it. */
+export interface NameResult extends DefinedName {
+  values: WireValue[][];
+  range: RangeRef | null;
+}
+
+/** A message from the calculation worker. */
+export type CalcResponse =
+  /** One batch of recalculated cells; `reset` clears every cell first, after a load. */
+  | { type: 'cells'; cells: CellResult[]; reset: boolean }
+  /** Every cell the listed calculations changed has been sent. */
+  | { type: 'calculated'; ids: number[]; circular: string[]; names: NameResult[] }
+  /** A calculation's change could not be made, e.g. a name that breaks Excel's rules. */
+  | { type: 'failed'; id: number; message: string }
+  | { type: 'evaluationSteps'; id: number; steps: EvaluationStep[] };
@@ -0,0 +1,7 @@
+import { CalcHost } from './calc-host';
+import type { CalcRequest } from './calc-protocol';
+
+// The calculation worker: a CalcHost answering the main thread's CalcClient.
+const scope = self as unknown as Worker;
+const host = new CalcHost(response => scope.postMessage(response));
+scope.onmessage = (event: MessageEvent<CalcRequest>) => host.receive(event.data);
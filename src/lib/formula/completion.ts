@@ -0,0 +1,62 @@
+import { CANONICAL_SYNTAX, tokenizeUnfinished, type FormulaSyntax } from './tokenizer';
+
+/** What the cursor is in the middle of while a formula is being typed. */
+export interface FormulaContext {
+  /** The function or name being typed at the cursor, e.g. `VL` in `=VL`, with its offsets in the formula. */
+  partial: { text: string; start: number; end: number } | null;
+  /** The innermost function call around the cursor and which of its arguments the cursor is in. */
+  call: { name: string; argIndex: number } | null;
+}
+
+/** A function or defined name that completes what is being typed. */
+export interface Completion {
+  kind: 'function' | 'name';
+  label: string;
+}
+
+/**
+ * Works out what the cursor at `cursor` (an offset into the formula, counting
+ * its `=`) is in: the word being typed, for autocomplete, and the call it is
+ * an argument of, for signature help.
+ */
+export const formulaContextAt = (
+  formula: string,
+  cursor: number,
+  syntax: FormulaSyntax = CANONICAL_SYNTAX,
+): FormulaContext => {
+  if (!formula.startsWith('=') || cursor < 1) return { partial: null, call: null };
+  const source = formula.slice(1, cursor);
+  const tokens = tokenizeUnfinished(source, syntax).filter(token => token.type !== 'eof');
+
+  const calls: Array<{ name: string | null; argIndex: number }> = [];
+  tokens.forEach((token, i) => {
+    if (token.type === 'lparen') {
+      const previous = tokens[i - 1];
+      calls.push({ name: previous?.type === 'function' ? previous.value : null, argIndex: 0 });
+    } else if (token.type === 'comma' && calls.length > 0) {
+      calls[calls.length - 1].argIndex++;
+    } else if (token.type === 'rparen') {
+      calls.pop();
+    }
+  });
+  // Parentheses that only group, as in `=(A1+B1)*2`, don't belong to a call.
+  const call = calls.reverse().find(open => open.name !== null);
+
+  const last = tokens[tokens.length - 1];
+  const typing = last && last.end === source.length && (last.type === 'name' || last.type === 'boolean');
+  return {
+    partial: typing ? { text: source.slice(last.start, last.end), start: last.start + 1, end: last.end + 1 } : null,
+    call: call ? { name: call.name, argIndex: call.argIndex } : null,
+  };
+};
+
+/** Functions and names starting with `prefix`, functions first, each alphabetically, ignoring case. */
+export const completionsFor = (prefix: string, functions: string[], names: string[]): Completion[] => {
+  const upper = prefix.toUpperCase();
+  const matching = (labels: string[]) =>
+    labels.filter(label => label.toUpperCase().startsWith(upper)).sort((a, b) => a.localeCompare(b));
+  return [
+    ...matching(functions).map(label => ({ kind: 'function' as const, label })),
+    ...matching(names).map(label => ({ kind: 'name' as const, label })),
+  ];
+};
@@ -0,0 +1,32 @@
+import { readdirSync, readFileSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import { describeConformanceValue, runFixture, type ConformanceFixture } from './index';
+import { readWorkbookFixture } from './xlsx';
+
+/**
+ * Runs the conformance fixtures outside the browser, for `npm test`: the
+ * workbooks Excel saved, then the hand-written JSON fixtures. Prints each
+ * fixture's result and every mismatch, and exits non-zero if any formula
+ * differs from its expected value. The /conformance page runs the same fixtures.
+ */
+const fixturesDir = fileURLToPath(new URL('./fixtures/', import.meta.url));
+const workbooksDir = fileURLToPath(new URL('./workbooks/', import.meta.url));
+const filesIn = (dir: string, extension: string) => readdirSync(dir).filter(file => file.endsWith(extension)).sort();
+
+const fixtures: ConformanceFixture[] = [
+  ...await Promise.all(filesIn(workbooksDir, '.xlsx').map(file => readWorkbookFixture(file, readFileSync(`${workbooksDir}${file}`)))),
+  ...filesIn(fixturesDir, '.json').map(file => JSON.parse(readFileSync(`${fixturesDir}${file}`, 'utf8'))),
+];
+
+const reports = fixtures.map(runFixture);
+for (const report of reports) {
+  console.log(`${report.mismatches.length === 0 ? 'pass' : 'FAIL'}  ${report.fixture} (${report.checked} formulas)`);
+  for (const mismatch of report.mismatches) {
+    console.log(`      ${mismatch.cell} ${mismatch.formula}: expected ${describeConformanceValue(mismatch.expected)}, got ${describeConformanceValue(mismatch.actual)}`);
+  }
+}
+
+const checked = reports.reduce((sum, report) => sum + report.checked, 0);
+const failed = reports.reduce((sum, report) => sum + report.mismatches.length, 0);
+console.log(`\n${checked - failed} of ${checked} formulas in ${reports.length} fixtures agree with their expected values.`);
+if (failed > 0) process.exitCode = 1;
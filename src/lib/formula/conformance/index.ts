@@ -0,0 +1,127 @@
+import { collectNames } from '../dependency-graph';
+import { CalcEngine, parseCellFormula } from '../engine';
+import { FUNCTIONS } from '../functions';
+import { displayValue } from '../number-format';
+import { parseCellAddress } from '../references';
+import { FormulaParseError } from '../tokenizer';
+import { isError, type CellValue, type ErrorCode } from '../values';
+
+/** The value a formula should calculate to; errors are written as `{ "error": "#N/A" }`. */
+export type ExpectedValue = number | string | boolean | null | { error: ErrorCode };
+
+/** A formula cell with the value Excel would calculate for it. */
+export interface FixtureFormula {
+  formula: string;
+  expected: ExpectedValue;
+}
+
+/**
+ * A small workbook reduced to its cells: constants as they would be typed,
+ * and formulas with the values Excel gives for them. Fixtures read from
+ * workbooks Excel saved (see `readWorkbookFixture`) expect the values Excel
+ * cached; the JSON fixtures are written by hand from Excel's documented
+ * behaviour, so a mismatch there may be a mistake in the fixture.
+ */
+export interface ConformanceFixture {
+  name: string;
+  description?: string;
+  /** Where the expected values come from, e.g. `Values cached by Microsoft Excel 16.0300`. */
+  source: string;
+  /** The day the workbook was calculated on, as `yyyy-mm-dd`, which TODAY() and NOW() read. */
+  date?: string;
+  cells: Record<string, string | number | boolean | FixtureFormula>;
+}
+
+/** A formula whose result differs from the expected one. */
+export interface ConformanceMismatch {
+  fixture: string;
+  cell: string;
+  formula: string;
+  /** The functions the formula calls, which the report groups mismatches by. */
+  functions: string[];
+  expected: ExpectedValue;
+  actual: CellValue;
+}
+
+export interface ConformanceReport {
+  fixture: string;
+  /** How many formulas were compared. */
+  checked: number;
+  mismatches: ConformanceMismatch[];
+}
+
+const isFixtureFormula = (cell: ConformanceFixture['cells'][string]): cell is FixtureFormula =>
+  typeof cell === 'object' && cell !== null;
+
+const inputOf = (cell: ConformanceFixture['cells'][string]): string => {
+  if (isFixtureFormula(cell)) return cell.formula;
+  return typeof cell === 'boolean' ? (cell ? 'TRUE' : 'FALSE') : String(cell);
+};
+
+const isExpectedError = (value: ExpectedValue): value is { error: ErrorCode } => typeof value === 'object' && value !== null;
+
+/** Excel keeps 15 significant digits, so numbers only have to agree to about that. */
+const sameNumber = (a: number, b: number) => Math.abs(a - b) <= 1e-9 * Math.max(1, Math.abs(a), Math.abs(b));
+
+const matchesExpected = (actual: CellValue, expected: ExpectedValue): boolean => {
+  if (isExpectedError(expected)) return isError(actual) && actual.code === expected.error;
+  if (typeof expected === 'number') return typeof actual === 'number' && sameNumber(actual, expected);
+  // A formula that returns a blank text is expected as an empty string, which Excel also shows as blank
+  if (expected === null || expected === '') return actual === null || actual === '';
+  return actual === expected;
+};
+
+/** Writes an expected or calculated value for the report, e.g. `"Apple"`, `1.5` or `#N/A`. */
+export const describeConformanceValue = (value: ExpectedValue | CellValue): string => {
+  if (isError(value)) return value.code;
+  if (isExpectedError(value)) return value.error;
+  return typeof value === 'string' ? `"${value}"` : displayValue(value);
+};
+
+const functionsIn = (formula: string): string[] => {
+  const ast = parseCellFormula(formula);
+  if (ast instanceof FormulaParseError) return [];
+  return [...new Set(collectNames(ast).filter(name => FUNCTIONS[name]))].sort();
+};
+
+/** Recalculates a fixture's formulas with our engine and lists every result that differs from the expected one. */
+export const runFixture = (fixture: ConformanceFixture): ConformanceReport => {
+  const data: string[][] = [];
+  for (const [address, cell] of Object.entries(fixture.cells)) {
+    const { row, col } = parseCellAddress(address);
+    while (data.length <= row) data.push([]);
+    data[row][col] = inputOf(cell);
+  }
+  const clock = fixture.date ? () => new Date(`${fixture.date}T00:00:00`) : undefined;
+  const engine = new CalcEngine(data, { clock });
+
+  const mismatches: ConformanceMismatch[] = [];
+  let checked = 0;
+  for (const [address, cell] of Object.entries(fixture.cells)) {
+    if (!isFixtureFormula(cell)) continue;
+    checked++;
+    const { row, col } = parseCellAddress(address);
+    const actual = engine.getValue(row, col);
+    if (matchesExpected(actual, cell.expected)) continue;
+    mismatches.push({
+      fixture: fixture.name,
+      cell: address,
+      formula: cell.formula,
+      functions: functionsIn(cell.formula),
+      expected: cell.expected,
+      actual,
+    });
+  }
+  return { fixture: fixture.name, checked, mismatches };
+};
+
+/** Groups mismatches by each function their formulas call, in alphabetical order. */
+export const mismatchesByFunction = (reports: ConformanceReport[]): Array<[string, ConformanceMismatch[]]> => {
+  const groups = new Map<string, ConformanceMismatch[]>();
+  for (const mismatch of reports.flatMap(report => report.mismatches)) {
+    for (const name of mismatch.functions.length > 0 ? mismatch.functions : ['(no function)']) {
+      groups.set(name, [...(groups.get(name) ?? []), mismatch]);
+    }
+  }
+  return [...groups.entries()].sort(([a], [b]) => a.localeCompare(b));
+};
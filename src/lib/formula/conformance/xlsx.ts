@@ -0,0 +1,175 @@
+import { formatCellAddress, parseCellAddress, parseRangeAddress } from '../references';
+import { translateFormula } from '../translate';
+import { ERROR_CODES, parseCellInput, type ErrorCode } from '../values';
+import type { ConformanceFixture, ExpectedValue } from './index';
+
+/**
+ * Reads a workbook saved by Excel into a conformance fixture: the constants on
+ * its first sheet become the fixture's inputs, and every formula is expected
+ * to calculate to the value Excel cached for it when it last saved the file.
+ * Only what the fixtures need is read; styles, other sheets and defined names
+ * are ignored.
+ */
+
+const decoder = new TextDecoder();
+
+const inflate = async (data: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+/** The files in a zip archive, which an .xlsx workbook is, by path. Files are unpacked when they are read. */
+const unzip = (bytes: Uint8Array): Map<string, () => Promise<string>> => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  // The central directory's end record is the last thing in the archive, after a comment of up to 64KB
+  let end = bytes.length - 22;
+  while (end >= 0 && view.getUint32(end, true) !== 0x06054b50) end--;
+  if (end < 0) throw new Error('This is not an .xlsx workbook.');
+
+  const files = new Map<string, () => Promise<string>>();
+  let entry = view.getUint32(end + 16, true);
+  for (let i = view.getUint16(end + 10, true); i > 0; i--) {
+    const method = view.getUint16(entry + 10, true);
+    const size = view.getUint32(entry + 20, true);
+    const nameLength = view.getUint16(entry + 28, true);
+    const header = view.getUint32(entry + 42, true);
+    const name = decoder.decode(bytes.subarray(entry + 46, entry + 46 + nameLength));
+    entry += 46 + nameLength + view.getUint16(entry + 30, true) + view.getUint16(entry + 32, true);
+
+    // The file's own header repeats its name, with an extra field that can differ from the directory's
+    const start = header + 30 + view.getUint16(header + 26, true) + view.getUint16(header + 28, true);
+    const data = bytes.subarray(start, start + size);
+    files.set(name, async () => {
+      if (method === 0) return decoder.decode(data);
+      if (method === 8) return decoder.decode(await inflate(data));
+      throw new Error(`${name} is compressed in a way this reader doesn't support.`);
+    });
+  }
+  return files;
+};
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+const unescapeXml = (text: string) =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, name: string) => {
+    if (name.startsWith('#x') || name.startsWith('#X')) return String.fromCodePoint(parseInt(name.slice(2), 16));
+    if (name.startsWith('#')) return String.fromCodePoint(parseInt(name.slice(1), 10));
+    return ENTITIES[name] ?? entity;
+  });
+
+const attributesOf = (tag: string): Record<string, string> =>
+  Object.fromEntries([...tag.matchAll(/([\w:]+)="([^"]*)"/g)].map(([, name, value]) => [name, unescapeXml(value)]));
+
+/** Every `<name>` element in `xml`, with its attributes and the text between its tags. */
+const elements = (xml: string, name: string) =>
+  [...xml.matchAll(new RegExp(`<${name}\\b([^>]*?)(?:/>|>([\\s\\S]*?)</${name}>)`, 'g'))]
+    .map(([, attributes, content]) => ({ attributes: attributesOf(attributes), content: content ?? '' }));
+
+const textOf = (xml: string, name: string): string | undefined => {
+  const element = elements(xml, name)[0];
+  return element && unescapeXml(element.content);
+};
+
+/** A string's text, joining its runs of formatting and leaving out the phonetic guide Excel keeps for Japanese. */
+const richText = (xml: string) =>
+  elements(xml.replace(/<rPh\b[\s\S]*?<\/rPh>/g, ''), 't').map(t => unescapeXml(t.content)).join('');
+
+/** Where the first sheet is stored, from the workbook's list of sheets and its relationships. */
+const firstSheetPath = async (files: Map<string, () => Promise<string>>): Promise<string> => {
+  const workbook = await files.get('xl/workbook.xml')?.();
+  const rels = await files.get('xl/_rels/workbook.xml.rels')?.();
+  const sheet = workbook && elements(workbook, 'sheet')[0];
+  const target = sheet && rels && elements(rels, 'Relationship').find(rel => rel.attributes.Id === sheet.attributes['r:id'])?.attributes.Target;
+  if (!target) throw new Error('The workbook has no sheets.');
+  return target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+};
+
+/**
+ * Excel saves the functions it added after 2007 with a prefix, e.g.
+ * `_xlfn.XLOOKUP`, and LET and LAMBDA's variables as `_xlpm.x`; what the
+ * candidate would have typed has neither.
+ */
+const typedFormula = (saved: string) => `=${unescapeXml(saved).replace(/_xl(?:fn|ws|pm)\./g, '')}`;
+
+const cachedValue = (type: string | undefined, value: string | undefined, sharedStrings: string[]): ExpectedValue => {
+  if (type === 'e') {
+    const code = ERROR_CODES.find(code => code === value);
+    if (!code) throw new Error(`Excel saved an error this engine doesn't know: ${value}`);
+    return { error: code as ErrorCode };
+  }
+  if (type === 'str' || type === 'inlineStr') return value ?? '';
+  if (value === undefined) return null;
+  if (type === 's') return sharedStrings[Number(value)];
+  if (type === 'b') return value === '1';
+  return Number(value);
+};
+
+/** How to type a constant so it is read back as the same value. */
+const typedConstant = (value: NonNullable<ExpectedValue>): string | number | boolean => {
+  if (typeof value === 'object') return `=${value.error}`;
+  if (typeof value !== 'string') return value;
+  return parseCellInput(value).value === value ? value : `'${value}`;
+};
+
+/** Reads the workbook saved as `bytes` into a fixture called `name`, e.g. the file's name. */
+export const readWorkbookFixture = async (name: string, bytes: Uint8Array): Promise<ConformanceFixture> => {
+  const files = unzip(bytes);
+  const strings = await files.get('xl/sharedStrings.xml')?.();
+  const sharedStrings = strings ? elements(strings, 'si').map(si => richText(si.content)) : [];
+  const app = (await files.get('docProps/app.xml')?.()) ?? '';
+  const application = textOf(app, 'Application');
+  const version = textOf(app, 'AppVersion');
+  if (!application?.includes('Excel')) throw new Error(`${name} was saved by ${application ?? 'an unknown program'}, not Excel.`);
+  const core = (await files.get('docProps/core.xml')?.()) ?? '';
+  const sheetPath = await firstSheetPath(files);
+  const sheet = await files.get(sheetPath)?.();
+  if (!sheet) throw new Error(`The workbook is missing its first sheet, ${sheetPath}.`);
+
+  const cells: ConformanceFixture['cells'] = {};
+  // A formula filled across a range is saved once, and the other cells refer to it by number
+  const shared = new Map<string, { formula: string; row: number; col: number }>();
+  // The cells an array formula spills into only hold its cached results
+  const spilled = new Set<string>();
+  for (const { attributes, content } of elements(sheet, 'c')) {
+    const address = attributes.r;
+    const ref = parseCellAddress(address);
+    if (!ref || spilled.has(address)) continue;
+    const type = attributes.t;
+    const inline = type === 'inlineStr' ? elements(content, 'is')[0] : undefined;
+    const value = inline ? richText(inline.content) : textOf(content, 'v');
+    const expected = cachedValue(type, value, sharedStrings);
+
+    const f = elements(content, 'f')[0];
+    if (!f) {
+      if (expected !== null) cells[address] = typedConstant(expected);
+      continue;
+    }
+    // A what-if data table is recalculated by substituting into other cells, which this engine doesn't do
+    if (f.attributes.t === 'dataTable') continue;
+    let formula: string;
+    if (f.attributes.t === 'shared' && !f.content) {
+      const master = shared.get(f.attributes.si);
+      if (!master) throw new Error(`${address} refers to a shared formula that was never saved.`);
+      formula = translateFormula(master.formula, ref.row - master.row, ref.col - master.col);
+    } else {
+      formula = typedFormula(f.content);
+      if (f.attributes.t === 'shared') shared.set(f.attributes.si, { formula, row: ref.row, col: ref.col });
+    }
+    if (f.attributes.t === 'array' && f.attributes.ref) {
+      const range = parseRangeAddress(f.attributes.ref);
+      for (let row = range?.start.row ?? 0; range && row <= range.end.row; row++) {
+        for (let col = range.start.col; col <= range.end.col; col++) spilled.add(formatCellAddress({ row, col }));
+      }
+    }
+    cells[address] = { formula, expected };
+  }
+
+  return {
+    name,
+    description: textOf(core, 'dc:title'),
+    source: `Values cached by ${application}${version ? ` ${version}` : ''}`,
+    // Excel recalculates volatile functions such as TODAY() on saving, so this is the day it saw
+    date: textOf(core, 'dcterms:modified')?.slice(0, 10),
+    cells,
+  };
+};
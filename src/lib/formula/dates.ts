@@ -0,0 +1,167 @@
+/**
+ * Excel's 1900 date system. A date is a serial number counting days from
+ * 1900-01-01 (serial 1); the fraction is the time of day. Excel inherited
+ * Lotus 1-2-3's belief that 1900 was a leap year, so serial 60 is the
+ * non-existent 1900-02-29 and every later serial is one more than the real
+ * day count. Serials 1–59 are therefore on the wrong weekday, as in Excel.
+ */
+
+export interface DateParts {
+  year: number;
+  month: number;
+  day: number;
+}
+
+const MS_PER_DAY = 86400000;
+const EPOCH = Date.UTC(1899, 11, 31);
+const FAKE_LEAP_DAY = 60;
+
+/** The largest serial Excel accepts: 9999-12-31. */
+export const MAX_SERIAL = 2958465;
+
+export const MONTH_NAMES = [
+  'January',
+  'February',
+  'March',
+  'April',
+  'May',
+  'June',
+  'July',
+  'August',
+  'September',
+  'October',
+  'November',
+  'December',
+];
+
+export const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+/**
+ * The serial for a year, month and day. Months and days outside their usual
+ * range roll over as they do in DATE, so month 13 is January of the next year
+ * and day 0 is the last day of the previous month.
+ */
+export const dateToSerial = (year: number, month: number, day: number): number => {
+  const totalMonths = year * 12 + (month - 1);
+  const normalisedYear = Math.floor(totalMonths / 12);
+  const normalisedMonth = totalMonths - normalisedYear * 12;
+  // Counting from the first of the month keeps February 1900 at 29 days, as Excel has it.
+  const first = Math.round((Date.UTC(normalisedYear, normalisedMonth, 1) - EPOCH) / MS_PER_DAY);
+  return (first >= FAKE_LEAP_DAY ? first + 1 : first) + day - 1;
+};
+
+/** The calendar date of a serial's whole-day part; serial 0 is Excel's "1900-01-00". */
+export const serialToDate = (serial: number): DateParts => {
+  const days = Math.floor(serial);
+  if (days === 0) return { year: 1900, month: 1, day: 0 };
+  if (days === FAKE_LEAP_DAY) return { year: 1900, month: 2, day: 29 };
+  const date = new Date(EPOCH + (days > FAKE_LEAP_DAY ? days - 1 : days) * MS_PER_DAY);
+  return { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() };
+};
+
+/** Day of the week for a serial, 0 for Sunday through 6 for Saturday. */
+export const dayOfWeek = (serial: number): number => (((Math.floor(serial) - 1) % 7) + 7) % 7;
+
+export const daysInMonth = (year: number, month: number): number =>
+  dateToSerial(year, month + 1, 1) - dateToSerial(year, month, 1);
+
+export const timeToSerial = (hours: number, minutes: number, seconds: number): number =>
+  (hours * 3600 + minutes * 60 + seconds) / 86400;
+
+/** The serial for a moment, read in local time, as TODAY and NOW do. */
+export const dateTimeToSerial = (date: Date): number =>
+  dateToSerial(date.getFullYear(), date.getMonth() + 1, date.getDate()) +
+  timeToSerial(date.getHours(), date.getMinutes(), date.getSeconds());
+
+/** Where TODAY() and NOW() get the current moment from. */
+export type Clock = () => Date;
+
+export const systemClock: Clock = () => new Date();
+
+const MONTH_PATTERN = MONTH_NAMES.map(name => `${name.slice(0, 3)}(?:${name.slice(3)})?`).join('|');
+const TIME = String.raw`(\d{1,2})(?::(\d{1,2}))?(?::(\d{1,2}(?:\.\d+)?))?\s*(AM|PM|A|P)?`;
+
+const monthFromName = (name: string) =>
+  MONTH_NAMES.findIndex(month => month.slice(0, 3).toLowerCase() === name.slice(0, 3).toLowerCase()) + 1;
+
+/** Two-digit years follow Excel's window: 00–29 are 2000s, 30–99 are 1900s. */
+const readYear = (digits: string) => {
+  const year = Number(digits);
+  return digits.length > 2 ? year : year < 30 ? 2000 + year : 1900 + year;
+};
+
+const DATE_PATTERNS: Array<{ pattern: RegExp; format: string; read(match: RegExpExecArray): DateParts }> = [
+  {
+    // 2024-03-15 or 2024/3/15
+    pattern: /^(\d{4})[-/](\d{1,2})[-/](\d{1,2})/,
+    format: 'm/d/yyyy',
+    read: match => ({ year: readYear(match[1]), month: +match[2], day: +match[3] }),
+  },
+  {
+    // 3/15/2024, 3-15-24
+    pattern: /^(\d{1,2})[-/](\d{1,2})[-/](\d{2}|\d{4})(?!\d)/,
+    format: 'm/d/yyyy',
+    read: match => ({ year: readYear(match[3]), month: +match[1], day: +match[2] }),
+  },
+  {
+    // 15-Mar-2024, 15 March 2024
+    pattern: new RegExp(String.raw`^(\d{1,2})[-\s/](${MONTH_PATTERN})[-\s/,]+(\d{2}|\d{4})(?!\d)`, 'i'),
+    format: 'd-mmm-yyyy',
+    read: match => ({ year: readYear(match[3]), month: monthFromName(match[2]), day: +match[1] }),
+  },
+  {
+    // Mar 15, 2024, March 15 2024
+    pattern: new RegExp(String.raw`^(${MONTH_PATTERN})\.?\s+(\d{1,2}),?\s+(\d{2}|\d{4})(?!\d)`, 'i'),
+    format: 'd-mmm-yyyy',
+    read: match => ({ year: readYear(match[3]), month: monthFromName(match[1]), day: +match[2] }),
+  },
+];
+
+const isValidDate = ({ year, month, day }: DateParts) =>
+  year >= 1900 &&
+  year <= 9999 &&
+  month >= 1 &&
+  month <= 12 &&
+  day >= 1 &&
+  day <= daysInMonth(year, month);
+
+const parseTime = (text: string): { serial: number; format: string } | null => {
+  const match = new RegExp(`^${TIME}$`, 'i').exec(text);
+  // A bare number is not a time; it needs a colon or an AM/PM marker.
+  if (!match || (match[2] === undefined && match[4] === undefined)) return null;
+  let hours = +match[1];
+  const minutes = match[2] === undefined ? 0 : +match[2];
+  const seconds = match[3] === undefined ? 0 : +match[3];
+  const meridiem = match[4]?.toUpperCase();
+  if (minutes > 59 || seconds >= 60) return null;
+  if (meridiem) {
+    if (hours < 1 || hours > 12) return null;
+    hours = (hours % 12) + (meridiem.startsWith('P') ? 12 : 0);
+  } else if (hours > 23) {
+    return null;
+  }
+  const format = `h:mm${match[3] === undefined ? '' : ':ss'}${meridiem ? ' AM/PM' : ''}`;
+  return { serial: timeToSerial(hours, minutes, seconds), format };
+};
+
+/**
+ * Recognises the date and time text Excel converts on entry, such as
+ * `3/15/2024`, `2024-03-15`, `15-Mar-2024`, `2:30 PM` or `3/15/2024 14:30`.
+ * Returns the serial and the number format the cell should display it with.
+ */
+export const parseDateTime = (text: string): { serial: number; format: string } | null => {
+  const trimmed = text.trim();
+  for (const { pattern, format, read } of DATE_PATTERNS) {
+    const match = pattern.exec(trimmed);
+    if (!match) continue;
+    const date = read(match);
+    if (!isValidDate(date)) return null;
+    const serial = dateToSerial(date.year, date.month, date.day);
+
+    const rest = trimmed.slice(match[0].length).trim();
+    if (rest === '') return { serial, format };
+    const time = parseTime(rest);
+    return time ? { serial: serial + time.serial, format: `${format} ${time.format}` } : null;
+  }
+  return parseTime(trimmed);
+};
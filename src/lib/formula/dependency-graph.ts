@@ -0,0 +1,196 @@
+import type { AstNode } from './parser';
+import { cellKey, isWholeRow, type RangeRef } from './references';
+
+/** Lists every cell and range a formula reads, in source order. */
+export const collectReferences = (node: AstNode): RangeRef[] => {
+  switch (node.type) {
+    case 'cell':
+    case 'spill':
+      // A spill reference depends on its anchor, which recalculates the whole array at once.
+      return [{ start: node.ref, end: node.ref }];
+    case 'range':
+      return [node.ref];
+    case 'function':
+      return node.args.flatMap(collectReferences);
+    case 'unary':
+    case 'percent':
+      return collectReferences(node.operand);
+    case 'binary':
+    case 'span':
+    case 'intersect':
+      return [...collectReferences(node.left), ...collectReferences(node.right)];
+    case 'union':
+      return node.areas.flatMap(collectReferences);
+    case 'call':
+      return [node.callee, ...node.args].flatMap(collectReferences);
+    default:
+      return [];
+  }
+};
+
+/**
+ * Lists the names a formula mentions, upper-cased: plain names such as
+ * `Prices` and called names such as `AddTax(...)`. Called names include
+ * built-in functions, which callers filter out.
+ */
+export const collectNames = (node: AstNode): string[] => {
+  switch (node.type) {
+    case 'name':
+      return [node.name.toUpperCase()];
+    case 'function':
+      return [node.name, ...node.args.flatMap(collectNames)];
+    case 'call':
+      return [node.callee, ...node.args].flatMap(collectNames);
+    case 'unary':
+    case 'percent':
+      return collectNames(node.operand);
+    case 'binary':
+    case 'span':
+    case 'intersect':
+      return [...collectNames(node.left), ...collectNames(node.right)];
+    case 'union':
+      return node.areas.flatMap(collectNames);
+    default:
+      return [];
+  }
+};
+
+interface RangeEdge {
+  range: RangeRef;
+  dependent: string;
+}
+
+/**
+ * Precedent/dependent edges between formula cells. Single-cell precedents are
+ * indexed by cell, whole-row ranges by row and other ranges by column, so
+ * finding the dependents of an edited cell never scans the whole sheet.
+ */
+export class DependencyGraph {
+  private readonly precedents = new Map<string, RangeRef[]>();
+  private readonly cellDependents = new Map<string, Set<string>>();
+  private readonly rangeDependents = new Map<number, Set<RangeEdge>>();
+  private readonly rowRangeDependents = new Map<number, Set<RangeEdge>>();
+  private readonly rangeEdges = new Map<string, RangeEdge[]>();
+
+  /** Replaces the precedents recorded for a formula cell; pass `[]` when it stops being a formula. */
+  setPrecedents(dependent: string, ranges: RangeRef[]) {
+    this.clearPrecedents(dependent);
+    if (ranges.length === 0) return;
+
+    this.precedents.set(dependent, ranges);
+    const edges: RangeEdge[] = [];
+    for (const range of ranges) {
+      const { start, end } = range;
+      if (start.row === end.row && start.col === end.col) {
+        const key = cellKey(start.row, start.col);
+        if (!this.cellDependents.has(key)) this.cellDependents.set(key, new Set());
+        this.cellDependents.get(key).add(dependent);
+        continue;
+      }
+      const edge = { range, dependent };
+      edges.push(edge);
+      const [index, first, last] = this.indexFor(range);
+      for (let line = first; line <= last; line++) {
+        if (!index.has(line)) index.set(line, new Set());
+        index.get(line).add(edge);
+      }
+    }
+    this.rangeEdges.set(dependent, edges);
+  }
+
+  getPrecedents(dependent: string): RangeRef[] {
+    return this.precedents.get(dependent) ?? [];
+  }
+
+  /** Formula cells that read the given cell directly. */
+  getDependents(row: number, col: number): string[] {
+    const dependents = new Set(this.cellDependents.get(cellKey(row, col)));
+    for (const edge of this.rangeDependents.get(col) ?? []) {
+      if (row >= edge.range.start.row && row <= edge.range.end.row) dependents.add(edge.dependent);
+    }
+    for (const edge of this.rowRangeDependents.get(row) ?? []) dependents.add(edge.dependent);
+    return [...dependents];
+  }
+
+  /** Whole rows are indexed by row so `1:1` doesn't touch all 16,384 column entries. */
+  private indexFor(range: RangeRef): [Map<number, Set<RangeEdge>>, number, number] {
+    return isWholeRow(range)
+      ? [this.rowRangeDependents, range.start.row, range.end.row]
+      : [this.rangeDependents, range.start.col, range.end.col];
+  }
+
+  private clearPrecedents(dependent: string) {
+    for (const range of this.precedents.get(dependent) ?? []) {
+      const { start, end } = range;
+      if (start.row === end.row && start.col === end.col) {
+        const key = cellKey(start.row, start.col);
+        this.cellDependents.get(key)?.delete(dependent);
+        if (this.cellDependents.get(key)?.size === 0) this.cellDependents.delete(key);
+      }
+    }
+    for (const edge of this.rangeEdges.get(dependent) ?? []) {
+      const [index, first, last] = this.indexFor(edge.range);
+      for (let line = first; line <= last; line++) index.get(line)?.delete(edge);
+    }
+    this.precedents.delete(dependent);
+    this.rangeEdges.delete(dependent);
+  }
+}
+
+/**
+ * Splits a set of cells into strongly connected components (Tarjan's
+ * algorithm, iterative so long chains cannot overflow the stack). Components
+ * come back in topological order: every component precedes those that read it.
+ */
+export const findStronglyConnected = (nodes: Set<string>, successors: (node: string) => string[]): string[][] => {
+  const index = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const onStack = new Set<string>();
+  const stack: string[] = [];
+  const components: string[][] = [];
+  let counter = 0;
+
+  for (const root of nodes) {
+    if (index.has(root)) continue;
+    const work: Array<{ node: string; next: string[]; position: number }> = [];
+
+    const visit = (node: string) => {
+      index.set(node, counter);
+      lowLink.set(node, counter);
+      counter++;
+      stack.push(node);
+      onStack.add(node);
+      work.push({ node, next: successors(node).filter(successor => nodes.has(successor)), position: 0 });
+    };
+    visit(root);
+
+    while (work.length > 0) {
+      const frame = work[work.length - 1];
+      if (frame.position < frame.next.length) {
+        const successor = frame.next[frame.position++];
+        if (!index.has(successor)) visit(successor);
+        else if (onStack.has(successor)) lowLink.set(frame.node, Math.min(lowLink.get(frame.node), index.get(successor)));
+        continue;
+      }
+
+      work.pop();
+      if (work.length > 0) {
+        const parent = work[work.length - 1].node;
+        lowLink.set(parent, Math.min(lowLink.get(parent), lowLink.get(frame.node)));
+      }
+      if (lowLink.get(frame.node) === index.get(frame.node)) {
+        const component: string[] = [];
+        let member: string;
+        do {
+          member = stack.pop();
+          onStack.delete(member);
+          component.push(member);
+        } while (member !== frame.node);
+        components.push(component);
+      }
+    }
+  }
+
+  // Tarjan emits sinks first; callers want precedents first.
+  return components.reverse();
+};
@@ -0,0 +1,57 @@
+import { parseRangeAddress, type RangeRef } from './references';
+import { CANONICAL_SYNTAX, tokenizeUnfinished, type FormulaSyntax } from './tokenizer';
+
+/** The colours references cycle through while a formula is edited, in Excel's order. */
+export const REFERENCE_COLORS = ['#2563eb', '#dc2626', '#9333ea', '#16a34a', '#c026d3', '#ea580c', '#0891b2'];
+
+/** A reference in a formula being edited, coloured like Excel colours it in the cell and on the grid. */
+export interface ReferenceHighlight {
+  /** Offsets of the reference in the formula, counting its `=`. */
+  start: number;
+  end: number;
+  range: RangeRef;
+  /** Which of REFERENCE_COLORS the reference gets, cycling; the same address always gets the same one. */
+  colorIndex: number;
+}
+
+/** Finds every cell and range reference in a formula, even one still being typed, in order. */
+export const referenceHighlights = (formula: string, syntax: FormulaSyntax = CANONICAL_SYNTAX): ReferenceHighlight[] => {
+  if (!formula.startsWith('=')) return [];
+  const colors = new Map<string, number>();
+  const highlights: ReferenceHighlight[] = [];
+  for (const token of tokenizeUnfinished(formula.slice(1), syntax)) {
+    if (token.type !== 'reference') continue;
+    // `Sheet1!A1` is on the only sheet, and `F2#` is outlined at its anchor cell.
+    const address = token.value.slice(token.value.lastIndexOf('!') + 1).replace(/#$/, '');
+    const range = parseRangeAddress(address);
+    if (!range) continue;
+    const key = address.replace(/\$/g, '');
+    if (!colors.has(key)) colors.set(key, colors.size);
+    highlights.push({ start: token.start + 1, end: token.end + 1, range, colorIndex: colors.get(key) });
+  }
+  return highlights;
+};
+
+/**
+ * Whether clicking a cell should insert its reference at the cursor, as in
+ * Excel's point mode: the formula has to be expecting an operand there, right
+ * after `=`, an operator, an opening bracket or an argument separator, and not
+ * inside a string.
+ */
+export const acceptsReferenceAt = (
+  formula: string,
+  cursor: number,
+  syntax: FormulaSyntax = CANONICAL_SYNTAX,
+): boolean => {
+  if (!formula.startsWith('=') || cursor < 1) return false;
+  const before = formula.slice(1, cursor);
+  const tokens = tokenizeUnfinished(before, syntax).filter(token => token.type !== 'eof');
+  const last = tokens[tokens.length - 1];
+  if (!last) return before.trim() === '';
+  if (last.end < before.trimEnd().length) return false;
+  return (
+    last.type === 'lparen' ||
+    last.type === 'comma' ||
+    (last.type === 'operator' && last.value !== '%' && last.value !== ' ')
+  );
+};
@@ -0,0 +1,709 @@
+import { systemClock, type Clock } from './dates';
+import { collectNames, collectReferences, DependencyGraph, findStronglyConnected } from './dependency-graph';
+import { evaluationSteps, type EvaluationStep } from './evaluation-steps';
+import { evaluate, toScalar, type EvaluationContext } from './evaluator';
+import { FUNCTIONS } from './functions';
+import { isMultiCell, toMatrix } from './functions/helpers';
+import { checkName, type DefinedName } from './names';
+import { parseFormula, type AstNode } from './parser';
+import { cellKey, formatRangeAddress, MAX_COLS, MAX_ROWS, parseRangeAddress, type CellRef, type RangeRef } from './references';
+import { FormulaParseError } from './tokenizer';
+import { errors, isReference, parseCellInput, type CellValue, type Value } from './values';
+
+export const isFormula = (raw: string) => raw.startsWith('=') && raw.length > 1;
+
+/** Parses a cell's formula, or returns the parse failure so it can be shown as an error value. */
+export const parseCellFormula = (raw: string): AstNode | FormulaParseError => {
+  try {
+    return parseFormula(raw.slice(1));
+  } catch (error) {
+    if (error instanceof FormulaParseError) return error;
+    throw error;
+  }
+};
+
+/** Excel's File > Options > Formulas > Enable iterative calculation settings. */
+export interface IterativeCalculation {
+  maxIterations: number;
+  maxChange: number;
+}
+
+/** Whether a formula calls a volatile function such as TODAY() anywhere. */
+const callsVolatile = (node: AstNode): boolean => {
+  switch (node.type) {
+    case 'function':
+      return FUNCTIONS[node.name]?.volatile === true || node.args.some(callsVolatile);
+    case 'unary':
+    case 'percent':
+      return callsVolatile(node.operand);
+    case 'binary':
+    case 'span':
+    case 'intersect':
+      return callsVolatile(node.left) || callsVolatile(node.right);
+    case 'union':
+      return node.areas.some(callsVolatile);
+    case 'call':
+      return callsVolatile(node.callee) || node.args.some(callsVolatile);
+    default:
+      return false;
+  }
+};
+
+interface CellRecord {
+  row: number;
+  col: number;
+  raw: string;
+  /** Parsed formula, or `null` for a constant. */
+  ast: AstNode | FormulaParseError | null;
+  value: CellValue;
+  /** Number format the value is displayed with. */
+  format: string;
+  /** The array a dynamic-array formula returned, and whether it could spill into its neighbours. */
+  spill: { values: CellValue[][]; placed: boolean } | null;
+}
+
+interface NameRecord extends DefinedName {
+  ast: AstNode | FormulaParseError;
+}
+
+/** Bounds on the passes that settle spill ranges which appear, move or resize during a recalculation. */
+const MAX_SPILL_PASSES = 10;
+
+/** New contents for one cell, as typed or as written by a fill. */
+export interface CellEdit {
+  row: number;
+  col: number;
+  raw: string;
+}
+
+export interface CalcEngineOptions {
+  /** Where TODAY() and NOW() read the time from; defaults to the system clock. */
+  clock?: Clock;
+  /**
+   * Whether changes only mark the formulas they affect stale, for the caller
+   * to recalculate a slice at a time with `recalculateStale`, as the
+   * calculation worker does. By default they are recalculated at once.
+   */
+  deferRecalculation?: boolean;
+}
+
+/**
+ * Holds a sheet's inputs and computed values. Edits recalculate only the
+ * cells downstream of the change, in dependency order.
+ */
+export class CalcEngine {
+  private readonly cells = new Map<string, CellRecord>();
+  private readonly graph = new DependencyGraph();
+  private readonly circular = new Set<string>();
+  private iterative: IterativeCalculation | null = null;
+  private allowedFunctions: Set<string> | null = null;
+  private readonly volatile = new Set<string>();
+  /** Formula cells whose result is an array, whether or not it spilled. */
+  private readonly anchors = new Set<string>();
+  /** Maps every cell a dynamic array spills into (not the anchor itself) to its anchor. */
+  private readonly spillOwners = new Map<string, string>();
+  /** Cells that gained or lost a spilled value since they were last propagated. */
+  private readonly spillChanges = new Set<string>();
+  /** Defined names, keyed by upper-case name since names are case-insensitive. */
+  private readonly names = new Map<string, NameRecord>();
+  /** Formula cells that mention a name, and so must be re-linked when names change. */
+  private readonly namedFormulas = new Set<string>();
+  /** Names being evaluated, to catch a name defined in terms of itself. */
+  private readonly resolving = new Set<string>();
+  /** Cells whose value may have changed since `takeChangedCells` was last called. */
+  private readonly changed = new Set<string>();
+  /** Formulas waiting to be recalculated, when recalculation is deferred or a recalculation stopped partway. */
+  private readonly stale = new Set<string>();
+  /** The recalculation under way, dropped when newer changes make its order outdated. */
+  private recalculation: Generator<void> | null = null;
+  private readonly deferRecalculation: boolean;
+  private clock: Clock;
+  /** Like Excel's used range, this only grows until the sheet is reloaded. */
+  private usedRange = { rows: 0, cols: 0 };
+  private readonly ctx: EvaluationContext = {
+    getCell: (row, col) => this.getValue(row, col),
+    getUsedRange: () => this.usedRange,
+    isFunctionAvailable: name => !this.allowedFunctions || this.allowedFunctions.has(name),
+    now: () => this.clock(),
+    getSpillRange: (row, col) => this.getSpillRange(row, col),
+    resolveName: name => this.resolveName(name),
+  };
+
+  constructor(data: string[][] = [], options: CalcEngineOptions = {}) {
+    this.clock = options.clock ?? systemClock;
+    this.deferRecalculation = options.deferRecalculation ?? false;
+    this.load(data);
+  }
+
+  /** Replaces the whole sheet and recalculates every formula. */
+  load(data: string[][]) {
+    for (const key of [...this.cells.keys()]) this.graph.setPrecedents(key, []);
+    this.cells.clear();
+    this.changed.clear();
+    this.circular.clear();
+    this.volatile.clear();
+    this.anchors.clear();
+    this.spillOwners.clear();
+    this.spillChanges.clear();
+    this.stale.clear();
+    this.namedFormulas.clear();
+    this.usedRange = { rows: 0, cols: 0 };
+    data.forEach((row, rowIndex) => {
+      row.forEach((raw, colIndex) => {
+        if (raw) this.write(rowIndex, colIndex, raw);
+      });
+    });
+    const formulas = [...this.cells.entries()].filter(([, cell]) => cell.ast).map(([key]) => key);
+    this.recalculate(new Set(formulas));
+  }
+
+  getValue(row: number, col: number): CellValue {
+    const key = cellKey(row, col);
+    const cell = this.cells.get(key);
+    if (cell) return cell.value;
+    const anchor = this.cells.get(this.spillOwners.get(key));
+    return anchor ? anchor.spill.values[row - anchor.row][col - anchor.col] : null;
+  }
+
+  getRaw(row: number, col: number): string {
+    return this.cells.get(cellKey(row, col))?.raw ?? '';
+  }
+
+  /** The number format to display a cell with, e.g. `m/d/yyyy` for a typed date or `=TODAY()`. */
+  getFormat(row: number, col: number): string {
+    const key = cellKey(row, col);
+    return this.cells.get(key)?.format ?? this.cells.get(this.spillOwners.get(key))?.format ?? 'General';
+  }
+
+  /** The range a dynamic array anchored at this cell spills into, or `null` if it has not spilled. */
+  getSpillRange(row: number, col: number): RangeRef | null {
+    const cell = this.cells.get(cellKey(row, col));
+    return cell?.spill?.placed ? this.spillArea(cell) : null;
+  }
+
+  /** The spill range a cell belongs to, as its anchor or as one of the cells it spills into. */
+  getSpillRangeAt(row: number, col: number): RangeRef | null {
+    const key = cellKey(row, col);
+    const anchor = this.spillOwners.has(key) ? this.cells.get(this.spillOwners.get(key)) : this.cells.get(key);
+    return anchor ? this.getSpillRange(anchor.row, anchor.col) : null;
+  }
+
+  /** The workbook's defined names, in alphabetical order. */
+  getNames(): DefinedName[] {
+    return [...this.names.values()]
+      .map(({ name, refersTo }) => ({ name, refersTo }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Creates or redefines a name, e.g. `defineName('Prices', '=Sheet1!$C$2:$C$9')`,
+   * and returns the keys of the recalculated cells. Throws if the name breaks
+   * Excel's naming rules (see `checkName`).
+   */
+  defineName(name: string, refersTo: string): string[] {
+    const problem = checkName(name);
+    if (problem) throw new Error(problem);
+    const formula = refersTo.startsWith('=') ? refersTo : `=${refersTo}`;
+    this.names.set(name.toUpperCase(), { name, refersTo: formula, ast: parseCellFormula(formula) });
+    return this.relinkNamedFormulas();
+  }
+
+  /** Removes a name; formulas that use it show #NAME?. Returns the keys of the recalculated cells. */
+  deleteName(name: string): string[] {
+    if (!this.names.delete(name.toUpperCase())) return [];
+    return this.relinkNamedFormulas();
+  }
+
+  /** The range a name refers to, such as `$C$2:$C$9` for `Prices`, or `null` if it isn't a reference. */
+  getNameRange(name: string): RangeRef | null {
+    const value = this.resolveName(name);
+    return value !== undefined && isReference(value) ? value.range : null;
+  }
+
+  /** A name's current value as rows of cells, as the Name Manager's Value column shows it. */
+  evaluateName(name: string): CellValue[][] {
+    const value = this.resolveName(name) ?? errors.name(`"${name}" is not a defined name.`);
+    return isMultiCell(value) ? toMatrix(value, this.ctx) : [[toScalar(value, this.ctx)]];
+  }
+
+  /** The steps Evaluate Formula walks through for a cell's formula; none for a constant or a formula that doesn't parse. */
+  getEvaluationSteps(row: number, col: number): EvaluationStep[] {
+    const cell = this.cells.get(cellKey(row, col));
+    if (!cell?.ast || cell.ast instanceof FormulaParseError) return [];
+    return evaluationSteps(cell.raw, cell.ast, this.ctx);
+  }
+
+  /** The cells and ranges a formula reads directly, as Trace Precedents draws them; none for a constant. */
+  getPrecedents(row: number, col: number): RangeRef[] {
+    return this.graph.getPrecedents(cellKey(row, col));
+  }
+
+  /** The formula cells that read a cell directly, as Trace Dependents draws them. */
+  getDependents(row: number, col: number): CellRef[] {
+    return this.graph.getDependents(row, col).map(key => {
+      const cell = this.cells.get(key);
+      return { row: cell.row, col: cell.col, absRow: false, absCol: false };
+    });
+  }
+
+  /** Keys of the cells that currently sit on a circular reference. */
+  getCircularCells(): string[] {
+    return [...this.circular];
+  }
+
+  isCircular(row: number, col: number): boolean {
+    return this.circular.has(cellKey(row, col));
+  }
+
+  /** Turns iterative calculation on (with Excel's limits) or off, then resolves existing cycles again. */
+  setIterativeCalculation(settings: IterativeCalculation | null) {
+    this.iterative = settings;
+    const dirty = new Set<string>();
+    for (const key of this.circular) {
+      const cell = this.cells.get(key);
+      for (const dependent of this.collectDirty(cell.row, cell.col)) dirty.add(dependent);
+    }
+    this.recalculate(dirty);
+  }
+
+  /** Limits formulas to the given functions (`null` allows all), then recalculates every formula. */
+  setAllowedFunctions(names: string[] | null) {
+    this.allowedFunctions = names ? new Set(names.map(name => name.toUpperCase())) : null;
+    const formulas = [...this.cells.entries()].filter(([, cell]) => cell.ast).map(([key]) => key);
+    this.recalculate(new Set(formulas));
+  }
+
+  /** Replaces the clock TODAY() and NOW() read, then recalculates the formulas that use them. */
+  setClock(clock: Clock) {
+    this.clock = clock;
+    this.recalculate(this.collectVolatile());
+  }
+
+  /**
+   * Stores a cell's new input and returns the keys of every cell that was
+   * recalculated. As in Excel, volatile formulas recalculate on every edit.
+   */
+  setCell(row: number, col: number, raw: string): string[] {
+    return this.setCells([{ row, col, raw }]);
+  }
+
+  /** Stores several cells' inputs, e.g. from a fill, and recalculates once for all of them. */
+  setCells(edits: CellEdit[]): string[] {
+    for (const { row, col, raw } of edits) {
+      this.write(row, col, raw);
+      this.circular.delete(cellKey(row, col));
+    }
+    const dirty = new Set<string>();
+    for (const { row, col } of edits) {
+      for (const key of this.collectDirty(row, col)) dirty.add(key);
+      // Typing into (or clearing) a cell an array wants to spill into blocks (or frees) that spill.
+      for (const anchor of this.anchorsCovering(row, col)) {
+        for (const key of this.collectDirty(anchor.row, anchor.col)) dirty.add(key);
+      }
+    }
+    for (const key of this.collectVolatile()) dirty.add(key);
+    this.recalculate(dirty);
+    return [...dirty];
+  }
+
+  /**
+   * Recalculates up to `limit` stale formulas, carrying on from where the last
+   * call stopped unless changes have been made since, and returns whether any
+   * are still stale.
+   */
+  recalculateStale(limit = Infinity): boolean {
+    this.recalculation ??= this.recalculateSteps();
+    for (let evaluated = 0; evaluated < limit; evaluated++) {
+      if (this.recalculation.next().done) {
+        this.recalculation = null;
+        return false;
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Keys of every cell whose value may have changed since the last call,
+   * including cells a spill range moved into or out of, then forgets them.
+   * A spilled array's other cells are only listed when its range changes.
+   */
+  takeChangedCells(): string[] {
+    const keys = [...this.changed];
+    this.changed.clear();
+    return keys;
+  }
+
+  private write(row: number, col: number, raw: string) {
+    const key = cellKey(row, col);
+    this.changed.add(key);
+    const previous = this.cells.get(key);
+    if (previous?.spill) {
+      this.releaseSpill(previous, true);
+      this.anchors.delete(key);
+    }
+    if (!raw) {
+      this.cells.delete(key);
+      this.link(key, null);
+      return;
+    }
+    this.usedRange = {
+      rows: Math.max(this.usedRange.rows, row + 1),
+      cols: Math.max(this.usedRange.cols, col + 1),
+    };
+    const ast = isFormula(raw) ? parseCellFormula(raw) : null;
+    const input = ast ? { value: null, format: 'General' } : parseCellInput(raw);
+    this.cells.set(key, { row, col, raw, ast, ...input, spill: null });
+    this.link(key, ast);
+  }
+
+  /**
+   * Records what a formula reads, including the cells behind any names it
+   * uses, and whether it is volatile directly or through a name.
+   */
+  private link(key: string, ast: AstNode | FormulaParseError | null) {
+    const parsed = ast && !(ast instanceof FormulaParseError) ? ast : null;
+    const trees = parsed ? this.withNameDefinitions(parsed) : [];
+    this.graph.setPrecedents(key, trees.flatMap(collectReferences));
+    if (trees.some(callsVolatile)) this.volatile.add(key);
+    else this.volatile.delete(key);
+    if (parsed && collectNames(parsed).some(name => !FUNCTIONS[name])) this.namedFormulas.add(key);
+    else this.namedFormulas.delete(key);
+  }
+
+  /** A formula plus the definitions of every name it uses, directly or through other names. */
+  private withNameDefinitions(ast: AstNode): AstNode[] {
+    const trees = [ast];
+    const seen = new Set<string>();
+    for (let i = 0; i < trees.length; i++) {
+      for (const name of collectNames(trees[i])) {
+        const record = this.names.get(name);
+        if (!record || seen.has(name)) continue;
+        seen.add(name);
+        if (!(record.ast instanceof FormulaParseError)) trees.push(record.ast);
+      }
+    }
+    return trees;
+  }
+
+  /** After a name changes, re-links every formula that mentions a name and recalculates them. */
+  private relinkNamedFormulas(): string[] {
+    const dirty = new Set<string>();
+    for (const key of this.namedFormulas) {
+      const cell = this.cells.get(key);
+      this.link(key, cell.ast);
+      for (const dependent of this.collectDirty(cell.row, cell.col)) dirty.add(dependent);
+    }
+    this.recalculate(dirty);
+    return [...dirty];
+  }
+
+  private resolveName(name: string): Value | undefined {
+    const key = name.toUpperCase();
+    const record = this.names.get(key);
+    if (!record) return undefined;
+    if (record.ast instanceof FormulaParseError) {
+      return errors.name(`The name ${record.name} could not be read: ${record.ast.message}.`);
+    }
+    if (this.resolving.has(key)) return errors.ref(`The name ${record.name} is defined in terms of itself.`);
+    this.resolving.add(key);
+    try {
+      return evaluate(record.ast, this.ctx);
+    } finally {
+      this.resolving.delete(key);
+    }
+  }
+
+  /** Every volatile formula plus the formulas downstream of them. */
+  private collectVolatile(): Set<string> {
+    const dirty = new Set<string>();
+    for (const key of this.volatile) {
+      const cell = this.cells.get(key);
+      for (const dependent of this.collectDirty(cell.row, cell.col)) dirty.add(dependent);
+    }
+    return dirty;
+  }
+
+  /**
+   * The format a formula's result takes on, as Excel picks it: from its
+   * outermost function (`=TODAY()`), or from the cell it starts from when it
+   * does arithmetic on one (`=A1+7` where A1 holds a date).
+   */
+  private inferFormat(node: AstNode): string {
+    switch (node.type) {
+      case 'function':
+        return FUNCTIONS[node.name]?.format ?? 'General';
+      case 'cell':
+        return this.getFormat(node.ref.row, node.ref.col);
+      case 'binary': {
+        if (node.operator !== '+' && node.operator !== '-') return 'General';
+        const left = this.inferFormat(node.left);
+        return left === 'General' ? this.inferFormat(node.right) : left;
+      }
+      default:
+        return 'General';
+    }
+  }
+
+  /** The edited cell (if it holds a formula) plus every formula downstream of it. */
+  private collectDirty(row: number, col: number): Set<string> {
+    const dirty = new Set<string>();
+    const editedKey = cellKey(row, col);
+    if (this.cells.get(editedKey)?.ast) dirty.add(editedKey);
+
+    const edited = this.cells.get(editedKey);
+    const pending = edited ? this.dependentsOf(edited) : this.graph.getDependents(row, col);
+    while (pending.length > 0) {
+      const key = pending.pop();
+      if (dirty.has(key)) continue;
+      dirty.add(key);
+      const cell = this.cells.get(key);
+      if (cell) pending.push(...this.dependentsOf(cell));
+    }
+    return dirty;
+  }
+
+  /** Formulas that read a cell, including, for a spilled array, those reading any cell it spills into. */
+  private dependentsOf(cell: CellRecord): string[] {
+    const dependents = this.graph.getDependents(cell.row, cell.col);
+    if (!cell.spill?.placed) return dependents;
+    const { start, end } = this.spillArea(cell);
+    const all = new Set(dependents);
+    for (let row = start.row; row <= end.row; row++) {
+      for (let col = start.col; col <= end.col; col++) {
+        if (row === cell.row && col === cell.col) continue;
+        for (const dependent of this.graph.getDependents(row, col)) all.add(dependent);
+      }
+    }
+    return [...all];
+  }
+
+  /** The area an anchor's array covers, or would cover if it were not blocked. */
+  private spillArea(cell: CellRecord): RangeRef {
+    const at = (row: number, col: number) => ({ row, col, absRow: false, absCol: false });
+    const { values } = cell.spill;
+    return {
+      start: at(cell.row, cell.col),
+      end: at(cell.row + values.length - 1, cell.col + values[0].length - 1),
+    };
+  }
+
+  /** Array formulas whose intended spill area includes a cell other than their own. */
+  private anchorsCovering(row: number, col: number): CellRecord[] {
+    const covering: CellRecord[] = [];
+    for (const key of this.anchors) {
+      const anchor = this.cells.get(key);
+      const { start, end } = this.spillArea(anchor);
+      const inside = row >= start.row && row <= end.row && col >= start.col && col <= end.col;
+      if (inside && !(row === anchor.row && col === anchor.col)) covering.push(anchor);
+    }
+    return covering;
+  }
+
+  /** Removes an anchor's spilled values from its neighbours, optionally noting which cells changed. */
+  private releaseSpill(cell: CellRecord, record: boolean) {
+    if (!cell.spill?.placed) return;
+    const anchorKey = cellKey(cell.row, cell.col);
+    const { start, end } = this.spillArea(cell);
+    for (let row = start.row; row <= end.row; row++) {
+      for (let col = start.col; col <= end.col; col++) {
+        const key = cellKey(row, col);
+        if (this.spillOwners.get(key) !== anchorKey) continue;
+        this.spillOwners.delete(key);
+        if (!record) continue;
+        this.spillChanges.add(key);
+        this.changed.add(key);
+      }
+    }
+    cell.spill.placed = false;
+  }
+
+  /**
+   * Spills an array from its anchor into the cells below and to the right,
+   * unless one of them already holds something: then the anchor shows #SPILL!.
+   */
+  private placeSpill(cell: CellRecord, values: CellValue[][]): CellValue {
+    const anchorKey = cellKey(cell.row, cell.col);
+    cell.spill = { values, placed: false };
+    this.anchors.add(anchorKey);
+    const area = this.spillArea(cell);
+    if (area.end.row >= MAX_ROWS || area.end.col >= MAX_COLS) {
+      return errors.spill('The array would spill past the edge of the sheet.');
+    }
+    for (let row = area.start.row; row <= area.end.row; row++) {
+      for (let col = area.start.col; col <= area.end.col; col++) {
+        const key = cellKey(row, col);
+        if (key === anchorKey) continue;
+        if (this.cells.has(key) || this.spillOwners.has(key)) {
+          return errors.spill(`The spill range ${formatRangeAddress(area)} isn't blank.`);
+        }
+      }
+    }
+    for (let row = area.start.row; row <= area.end.row; row++) {
+      for (let col = area.start.col; col <= area.end.col; col++) {
+        const key = cellKey(row, col);
+        if (key !== anchorKey) this.spillOwners.set(key, anchorKey);
+      }
+    }
+    cell.spill.placed = true;
+    this.usedRange = {
+      rows: Math.max(this.usedRange.rows, area.end.row + 1),
+      cols: Math.max(this.usedRange.cols, area.end.col + 1),
+    };
+    return values[0][0];
+  }
+
+  /**
+   * Marks the dirty formulas stale and, unless recalculation is deferred,
+   * recalculates them. A recalculation under way is dropped, since its order
+   * may no longer hold; the formulas it had yet to reach are still stale, so
+   * they are recalculated along with the new ones in a single pass.
+   */
+  private recalculate(dirty: Set<string>) {
+    for (const key of dirty) this.stale.add(key);
+    this.recalculation = null;
+    if (!this.deferRecalculation) this.recalculateStale();
+  }
+
+  /**
+   * Recalculates the stale formulas, yielding after each. When a spill range
+   * appears, grows or moves, formulas reading the newly covered cells (and
+   * arrays those cells were blocking) are recalculated in a further pass.
+   */
+  private *recalculateSteps(): Generator<void> {
+    for (let pass = 0; this.stale.size > 0 && pass < MAX_SPILL_PASSES; pass++) {
+      // A stale cell may have been cleared, or lost its formula, since it was marked
+      yield* this.recalculatePass(new Set([...this.stale].filter(key => this.cells.get(key)?.ast)));
+      this.stale.clear();
+      const changed = [...this.spillChanges];
+      this.spillChanges.clear();
+      for (const key of changed) {
+        const [row, col] = key.split(',').map(Number);
+        for (const dependent of this.collectDirty(row, col)) this.stale.add(dependent);
+        for (const anchor of this.anchorsCovering(row, col)) {
+          if (!anchor.spill.placed) this.stale.add(cellKey(anchor.row, anchor.col));
+        }
+      }
+    }
+    this.stale.clear();
+  }
+
+  /** Evaluates dirty formulas in topological order (Kahn's algorithm), yielding after each. */
+  private *recalculatePass(dirty: Set<string>): Generator<void> {
+    // Dependents are read before anything is evaluated, since evaluating can move spill ranges.
+    const successors = new Map<string, string[]>();
+    for (const key of dirty) successors.set(key, this.dependentsOf(this.cells.get(key)));
+
+    const inDegree = new Map<string, number>();
+    for (const key of dirty) inDegree.set(key, 0);
+    for (const key of dirty) {
+      for (const dependent of successors.get(key)) {
+        if (inDegree.has(dependent)) inDegree.set(dependent, inDegree.get(dependent) + 1);
+      }
+    }
+
+    const ready = [...dirty].filter(key => inDegree.get(key) === 0);
+    const done = new Set<string>();
+    while (ready.length > 0) {
+      const key = ready.pop();
+      const cell = this.cells.get(key);
+      this.evaluateCell(cell);
+      done.add(key);
+      this.stale.delete(key);
+      for (const dependent of successors.get(key)) {
+        if (!inDegree.has(dependent)) continue;
+        const remaining = inDegree.get(dependent) - 1;
+        inDegree.set(dependent, remaining);
+        if (remaining === 0) ready.push(dependent);
+      }
+      yield;
+    }
+
+    for (const key of dirty) this.circular.delete(key);
+    const blocked = new Set([...dirty].filter(key => !done.has(key)));
+    if (blocked.size > 0) this.resolveCycles(blocked, key => successors.get(key));
+  }
+
+  /**
+   * Cells Kahn's algorithm could not order either sit on a cycle or read from
+   * one. Each cycle is resolved as Excel does: without iterative calculation
+   * its cells show 0, otherwise they are recalculated until they settle.
+   */
+  private resolveCycles(blocked: Set<string>, successors: (key: string) => string[]) {
+    for (const component of findStronglyConnected(blocked, successors)) {
+      const [first] = component;
+      const isCycle = component.length > 1 || successors(first).includes(first);
+      if (!isCycle) {
+        this.evaluateCell(this.cells.get(first));
+        continue;
+      }
+
+      for (const key of component) this.circular.add(key);
+      const members = component.map(key => this.cells.get(key));
+      if (!this.iterative) {
+        for (const cell of members) cell.value = 0;
+        continue;
+      }
+
+      for (const cell of members) {
+        if (typeof cell.value !== 'number') cell.value = 0;
+      }
+      for (let iteration = 0; iteration < this.iterative.maxIterations; iteration++) {
+        let largestChange = 0;
+        for (const cell of members) {
+          const previous = cell.value;
+          this.evaluateCell(cell);
+          if (typeof previous === 'number' && typeof cell.value === 'number') {
+            largestChange = Math.max(largestChange, Math.abs(cell.value - previous));
+          } else if (previous !== cell.value) {
+            largestChange = Infinity;
+          }
+        }
+        if (largestChange < this.iterative.maxChange) break;
+      }
+    }
+  }
+
+  private evaluateCell(cell: CellRecord) {
+    if (!cell.ast) return;
+    this.changed.add(cellKey(cell.row, cell.col));
+    if (cell.ast instanceof FormulaParseError) {
+      cell.value = errors.name(`The formula could not be read: ${cell.ast.message}.`);
+      return;
+    }
+    const previousArea = cell.spill?.placed ? formatRangeAddress(this.spillArea(cell)) : null;
+    this.releaseSpill(cell, false);
+    const result = evaluate(cell.ast, this.ctx);
+    if (isMultiCell(result)) {
+      const values = toMatrix(result, this.ctx);
+      // Blanks inside a spilled array display as 0, like a formula that returns a blank cell.
+      cell.value =
+        values.length === 0 || values[0].length === 0
+          ? errors.calc('The array is empty.')
+          : this.placeSpill(cell, values.map(row => row.map(value => value ?? 0)));
+    } else {
+      if (cell.spill) this.anchors.delete(cellKey(cell.row, cell.col));
+      cell.spill = null;
+      // A formula that resolves to an empty cell displays 0, as in Excel.
+      cell.value = toScalar(result, this.ctx) ?? 0;
+    }
+    cell.format = typeof cell.value === 'number' ? this.inferFormat(cell.ast) : 'General';
+    this.noteSpillChange(cell, previousArea);
+  }
+
+  /** Records the cells whose spilled value appeared or vanished when an anchor's spill range changed. */
+  private noteSpillChange(cell: CellRecord, previousArea: string | null) {
+    const area = cell.spill?.placed ? this.spillArea(cell) : null;
+    if ((area ? formatRangeAddress(area) : null) === previousArea) return;
+    const anchorKey = cellKey(cell.row, cell.col);
+    for (const range of [area, previousArea && parseRangeAddress(previousArea)]) {
+      if (!range) continue;
+      for (let row = range.start.row; row <= range.end.row; row++) {
+        for (let col = range.start.col; col <= range.end.col; col++) {
+          if (cellKey(row, col) === anchorKey) continue;
+          this.spillChanges.add(cellKey(row, col));
+          this.changed.add(cellKey(row, col));
+        }
+      }
+    }
+  }
+}
@@ -0,0 +1,99 @@
+import { evaluate, toScalar, type EvaluationContext } from './evaluator';
+import { FUNCTIONS } from './functions';
+import { displayValue } from './number-format';
+import type { AstNode } from './parser';
+import { formatRangeAddress } from './references';
+import { isArray, isLambda, isReference, isUnion, type CellValue, type Value } from './values';
+
+/** One press of Evaluate in Excel's Evaluate Formula dialog. */
+export interface EvaluationStep {
+  /** The formula as it reads before this step, with the results of earlier steps written in. */
+  formula: string;
+  /** The part of `formula` this step evaluates, which the dialog underlines. */
+  start: number;
+  end: number;
+  /** What that part evaluates to, written the way it appears in the next step's formula. */
+  result: string;
+}
+
+/** LET's variables and a LAMBDA's parameters only mean something inside the call, so these are evaluated whole. */
+const OPAQUE_FUNCTIONS = new Set(['LET', 'LAMBDA']);
+
+/** Collects the parts of a formula to evaluate, innermost first, in the order Excel steps through them. */
+const collectSteps = (node: AstNode, steps: AstNode[]) => {
+  switch (node.type) {
+    // Constants and ranges are shown as written rather than evaluated.
+    case 'number':
+    case 'string':
+    case 'boolean':
+    case 'error':
+    case 'missing':
+    case 'range':
+    case 'spill':
+    case 'union':
+    case 'array':
+      return;
+    case 'function': {
+      // Lazy functions such as IFERROR decide what else to evaluate, so only their first argument is stepped into.
+      const fn = FUNCTIONS[node.name];
+      const args = OPAQUE_FUNCTIONS.has(node.name) ? [] : fn?.lazy ? node.args.slice(0, 1) : node.args;
+      for (const arg of args) collectSteps(arg, steps);
+      break;
+    }
+    case 'unary':
+    case 'percent':
+      collectSteps(node.operand, steps);
+      break;
+    case 'binary':
+      collectSteps(node.left, steps);
+      collectSteps(node.right, steps);
+      break;
+  }
+  steps.push(node);
+};
+
+const literal = (value: CellValue): string =>
+  typeof value === 'string' ? `"${value.replace(/"/g, '""')}"` : displayValue(value ?? 0);
+
+/** Writes a result as Excel's dialog does: values as literals, arrays as array constants and ranges as addresses. */
+const describeResult = (value: Value, ctx: EvaluationContext): string => {
+  if (isReference(value)) {
+    const { start, end } = value.range;
+    return start.row === end.row && start.col === end.col ? literal(toScalar(value, ctx)) : formatRangeAddress(value.range);
+  }
+  if (isUnion(value)) return `(${value.areas.map(area => formatRangeAddress(area.range)).join(',')})`;
+  if (isArray(value)) return `{${value.values.map(row => row.map(literal).join(',')).join(';')}}`;
+  return literal(toScalar(value, ctx));
+};
+
+/**
+ * The steps of Excel's Evaluate Formula for `formula`, whose parsed tree is
+ * `ast`: each evaluates one part of the formula, innermost first, and the next
+ * step's formula shows the result in its place.
+ */
+export const evaluationSteps = (formula: string, ast: AstNode, ctx: EvaluationContext): EvaluationStep[] => {
+  const nodes: AstNode[] = [];
+  collectSteps(ast, nodes);
+
+  // Results written in so far, by their offsets in the original formula and how much longer they made it.
+  let replaced: Array<{ start: number; end: number; delta: number }> = [];
+  const offsetOf = (position: number) =>
+    position + replaced.filter(({ end }) => end <= position).reduce((sum, { delta }) => sum + delta, 0);
+
+  let text = formula;
+  const steps: EvaluationStep[] = [];
+  for (const node of nodes) {
+    const value = evaluate(node, ctx);
+    if (isLambda(value)) continue;
+    // Node offsets don't count the formula's leading `=`.
+    const [originalStart, originalEnd] = [node.start + 1, node.end + 1];
+    const [start, end] = [offsetOf(originalStart), offsetOf(originalEnd)];
+    const result = describeResult(value, ctx);
+    steps.push({ formula: text, start, end, result });
+    text = text.slice(0, start) + result + text.slice(end);
+    // The result stands in for everything inside it, including results already written there.
+    replaced = replaced.filter(({ start, end }) => start < originalStart || end > originalEnd);
+    replaced.push({ start: originalStart, end: originalEnd, delta: result.length - (originalEnd - originalStart) });
+  }
+  return steps;
+};
@@ -0,0 +1,289 @@
+import { FUNCTIONS } from './functions';
+import { arrayOf, broadcast, isMultiCell } from './functions/helpers';
+import type { AstNode, BinaryOperator } from './parser';
+import { boundingRange, formatCellAddress, formatRangeAddress, intersectRanges, type RangeRef } from './references';
+import {
+  compareValues,
+  errors,
+  FormulaError,
+  isArray,
+  isError,
+  isLambda,
+  isReference,
+  isUnion,
+  toNumber,
+  toText,
+  type CellValue,
+  type LambdaValue,
+  type ReferenceValue,
+  type Value,
+} from './values';
+
+/** What the evaluator needs from the sheet a formula lives in. */
+export interface EvaluationContext {
+  getCell(row: number, col: number): CellValue;
+  /** Rows and columns that can hold data; cells beyond them are known to be blank. */
+  getUsedRange(): { rows: number; cols: number };
+  /** Whether a known function may be used here; when absent every function is available. */
+  isFunctionAvailable?(name: string): boolean;
+  /** The current moment for TODAY() and NOW(). */
+  now(): Date;
+  /** The range a dynamic array anchored at a cell spills into, or `null` if it holds none. */
+  getSpillRange(row: number, col: number): RangeRef | null;
+  /** The value of a LET or LAMBDA variable or a defined name, or `undefined` if nothing has that name. */
+  resolveName(name: string): Value | undefined;
+}
+
+/** Evaluates a lazy function's argument, optionally in a scope with extra variables (see `bindName`). */
+export type Thunk = (scope?: EvaluationContext) => Value;
+
+export type FunctionCall = (args: Value[], ctx: EvaluationContext) => Value;
+
+interface FunctionInfo {
+  minArgs: number;
+  maxArgs: number;
+  /** Volatile functions such as NOW are recalculated after every edit, whatever they read. */
+  volatile?: boolean;
+  /** The number format a cell takes on when this function is its outermost call, as `=TODAY()` shows a date. */
+  format?: string;
+}
+
+export type FormulaFunction = FunctionInfo &
+  (
+    | {
+        lazy?: false;
+        call: FunctionCall;
+      }
+    | {
+        /**
+         * Lazy functions such as IF decide which of their arguments are evaluated.
+         * They also see the unevaluated arguments, so LET can read its variable names.
+         */
+        lazy: true;
+        call(args: Thunk[], ctx: EvaluationContext, nodes: AstNode[]): Value;
+      }
+  );
+
+/** Reads a value down to a single cell value, as Excel does for scalar operands. */
+export const toScalar = (value: Value, ctx: EvaluationContext): CellValue => {
+  if (isArray(value)) return value.values[0][0];
+  if (isUnion(value)) return errors.value('A union of ranges was used where a single value is expected.');
+  if (isLambda(value)) return errors.calc('A LAMBDA has to be called with its arguments, e.g. =LAMBDA(x,x+1)(5).');
+  if (!isReference(value)) return value;
+  const { start, end } = value.range;
+  if (start.row !== end.row || start.col !== end.col) {
+    return errors.value('A range was used where a single value is expected.');
+  }
+  return ctx.getCell(start.row, start.col);
+};
+
+const applyArithmetic = (operator: BinaryOperator, left: number, right: number): CellValue => {
+  switch (operator) {
+    case '+':
+      return left + right;
+    case '-':
+      return left - right;
+    case '*':
+      return left * right;
+    case '/':
+      return right === 0 ? errors.div0('The divisor is zero or an empty cell.') : left / right;
+    case '^': {
+      if (left === 0 && right === 0) return errors.num('0^0 is undefined.');
+      const result = Math.pow(left, right);
+      return Number.isFinite(result) ? result : errors.num('The power has no real result or is too large.');
+    }
+    default:
+      return errors.value();
+  }
+};
+
+const applyBinary = (operator: BinaryOperator, left: CellValue, right: CellValue): CellValue => {
+  if (isError(left)) return left;
+  if (isError(right)) return right;
+
+  if (operator === '&') {
+    return (toText(left) as string) + (toText(right) as string);
+  }
+
+  if (operator === '=' || operator === '<>' || operator === '<' || operator === '>' || operator === '<=' || operator === '>=') {
+    const order = compareValues(left, right);
+    switch (operator) {
+      case '=':
+        return order === 0;
+      case '<>':
+        return order !== 0;
+      case '<':
+        return order < 0;
+      case '>':
+        return order > 0;
+      case '<=':
+        return order <= 0;
+      default:
+        return order >= 0;
+    }
+  }
+
+  const leftNumber = toNumber(left);
+  if (isError(leftNumber)) return leftNumber;
+  const rightNumber = toNumber(right);
+  if (isError(rightNumber)) return rightNumber;
+  const result = applyArithmetic(operator, leftNumber, rightNumber);
+  return typeof result === 'number' && !Number.isFinite(result) ? errors.num('The result is too large to represent.') : result;
+};
+
+/** A scope where `name` (case-insensitively) stands for `value`, as LET and LAMBDA parameters do. */
+export const bindName = (ctx: EvaluationContext, name: string, value: Value): EvaluationContext => {
+  const key = name.toUpperCase();
+  return { ...ctx, resolveName: other => (other.toUpperCase() === key ? value : ctx.resolveName(other)) };
+};
+
+/** Deep enough for sensible recursive LAMBDAs while stopping runaway ones before the stack does. */
+const MAX_LAMBDA_DEPTH = 1000;
+let lambdaDepth = 0;
+
+/** Calls a LAMBDA with already evaluated arguments. */
+export const invokeLambda = (fn: LambdaValue, args: Value[]): Value => {
+  if (args.length !== fn.params.length) {
+    return errors.value(`The LAMBDA takes ${fn.params.length} argument(s) but received ${args.length}.`);
+  }
+  if (lambdaDepth >= MAX_LAMBDA_DEPTH) return errors.num('The LAMBDA calls itself too many times.');
+  const scope = fn.params.reduce((scoped, param, i) => bindName(scoped, param, args[i]), fn.ctx);
+  lambdaDepth++;
+  try {
+    return evaluate(fn.body, scope);
+  } finally {
+    lambdaDepth--;
+  }
+};
+
+/** Calls whatever `callee` evaluated to, which must be a LAMBDA. */
+const callValue = (callee: Value, description: string, args: AstNode[], ctx: EvaluationContext): Value => {
+  if (isError(callee)) return callee;
+  if (!isLambda(callee)) return errors.value(`${description} is not a LAMBDA function.`);
+  return invokeLambda(
+    callee,
+    args.map(arg => evaluate(arg, ctx)),
+  );
+};
+
+const callFunction = (node: Extract<AstNode, { type: 'function' }>, ctx: EvaluationContext): Value => {
+  const fn = FUNCTIONS[node.name];
+  if (!fn) {
+    // A name defined as a LAMBDA, in the workbook or by LET, is called like a function.
+    const named = ctx.resolveName(node.name);
+    if (named === undefined) return errors.name(`${node.name} is not a recognised function.`);
+    return callValue(named, node.name, node.args, ctx);
+  }
+  if (ctx.isFunctionAvailable && !ctx.isFunctionAvailable(node.name)) {
+    return errors.name(`${node.name} is not available in this task.`);
+  }
+  if (node.args.length < fn.minArgs || node.args.length > fn.maxArgs) {
+    const expected = fn.minArgs === fn.maxArgs ? `${fn.minArgs}` : `${fn.minArgs} to ${fn.maxArgs}`;
+    return errors.value(`${node.name} expects ${expected} argument(s) but received ${node.args.length}.`);
+  }
+
+  if (fn.lazy === true) {
+    return fn.call(
+      node.args.map(arg => (scope = ctx) => evaluate(arg, scope)),
+      ctx,
+      node.args,
+    );
+  }
+  return fn.call(
+    node.args.map(arg => evaluate(arg, ctx)),
+    ctx,
+  );
+};
+
+/** Evaluates both sides of `:` or the intersection operator, which must each be a single reference. */
+const referenceOperands = (
+  node: Extract<AstNode, { type: 'span' | 'intersect' }>,
+  ctx: EvaluationContext,
+): [ReferenceValue, ReferenceValue] | FormulaError => {
+  const left = evaluate(node.left, ctx);
+  if (isError(left)) return left;
+  const right = evaluate(node.right, ctx);
+  if (isError(right)) return right;
+  if (!isReference(left) || !isReference(right)) {
+    const operator = node.type === 'span' ? 'The range operator (:)' : 'The intersection operator (a space)';
+    return errors.value(`${operator} needs a reference on each side.`);
+  }
+  return [left, right];
+};
+
+/** Evaluates an expression. References are returned unread so functions can iterate them. */
+export const evaluate = (node: AstNode, ctx: EvaluationContext): Value => {
+  switch (node.type) {
+    case 'number':
+    case 'string':
+    case 'boolean':
+      return node.value;
+    case 'error':
+      return new FormulaError(node.code);
+    case 'missing':
+      return null;
+    case 'cell':
+      return { kind: 'reference', range: { start: node.ref, end: node.ref } };
+    case 'range':
+      return { kind: 'reference', range: node.ref };
+    case 'spill': {
+      const range = ctx.getSpillRange(node.ref.row, node.ref.col);
+      if (!range) return errors.ref(`${formatCellAddress(node.ref)} does not hold a spilled array.`);
+      return { kind: 'reference', range };
+    }
+    case 'name':
+      return ctx.resolveName(node.name) ?? errors.name(`"${node.name}" is not a defined name.`);
+    case 'function':
+      return callFunction(node, ctx);
+    case 'call':
+      return callValue(evaluate(node.callee, ctx), 'The called value', node.args, ctx);
+    case 'unary':
+    case 'percent': {
+      const apply = (value: CellValue): CellValue => {
+        const operand = toNumber(value);
+        if (isError(operand)) return operand;
+        if (node.type === 'percent') return operand / 100;
+        return node.operator === '-' ? -operand : operand;
+      };
+      const operand = evaluate(node.operand, ctx);
+      return isMultiCell(operand) ? broadcast([operand], ctx, ([value]) => apply(value)) : apply(toScalar(operand, ctx));
+    }
+    case 'binary': {
+      const left = evaluate(node.left, ctx);
+      const right = evaluate(node.right, ctx);
+      // Operators on ranges or arrays work element by element and spill the result.
+      if (isMultiCell(left) || isMultiCell(right)) {
+        return broadcast([left, right], ctx, ([l, r]) => applyBinary(node.operator, l, r));
+      }
+      return applyBinary(node.operator, toScalar(left, ctx), toScalar(right, ctx));
+    }
+    case 'span': {
+      const operands = referenceOperands(node, ctx);
+      if (isError(operands)) return operands;
+      return { kind: 'reference', range: boundingRange(operands[0].range, operands[1].range) };
+    }
+    case 'intersect': {
+      const operands = referenceOperands(node, ctx);
+      if (isError(operands)) return operands;
+      const [left, right] = operands;
+      const range = intersectRanges(left.range, right.range);
+      if (!range) {
+        return errors.null(`${formatRangeAddress(left.range)} and ${formatRangeAddress(right.range)} do not intersect.`);
+      }
+      return { kind: 'reference', range };
+    }
+    case 'union': {
+      const areas: ReferenceValue[] = [];
+      for (const area of node.areas) {
+        const value = evaluate(area, ctx);
+        if (isError(value)) return value;
+        if (isUnion(value)) areas.push(...value.areas);
+        else if (isReference(value)) areas.push(value);
+        else return errors.value('The union operator (,) can only join references.');
+      }
+      return { kind: 'union', areas };
+    }
+    case 'array':
+      return arrayOf(node.rows.map(row => row.map(value => toScalar(evaluate(value, ctx), ctx))));
+  }
+};
@@ -0,0 +1,169 @@
+import { toScalar, type EvaluationContext } from '../evaluator';
+import {
+  compareValues,
+  errors,
+  isError,
+  isReference,
+  parseNumericText,
+  type CellValue,
+  type FormulaError,
+  type Value,
+} from '../values';
+import { sizeOf, toGrid } from './helpers';
+import { hasWildcards, wildcardToRegExp } from './matching';
+
+type Predicate = (value: CellValue) => boolean;
+
+const OPERATOR = /^(<=|>=|<>|=|<|>)?([\s\S]*)$/;
+
+const numberOf = (value: CellValue): number | null => {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string') return parseNumericText(value);
+  return null;
+};
+
+const compareWith = (operator: string, order: number) => {
+  switch (operator) {
+    case '<':
+      return order < 0;
+    case '<=':
+      return order <= 0;
+    case '>':
+      return order > 0;
+    case '>=':
+      return order >= 0;
+    case '<>':
+      return order !== 0;
+    default:
+      return order === 0;
+  }
+};
+
+/**
+ * Turns a COUNTIF-style criterion into a test. Criteria can be plain values
+ * (`100`, `TRUE`), text with wildcards (`"Elec*"`) or an operator followed by
+ * an operand (`">100"`, `"<>Furniture"`, `"="` for blank cells).
+ */
+export const parseCriterion = (criterion: CellValue): Predicate => {
+  if (isError(criterion)) return value => isError(value) && value.code === criterion.code;
+  if (criterion === null) return value => value === 0;
+  if (typeof criterion === 'number') return value => numberOf(value) === criterion;
+  if (typeof criterion === 'boolean') return value => value === criterion;
+
+  const [, operator = '', operand] = OPERATOR.exec(criterion);
+
+  if (operand === '') {
+    if (operator === '') return value => value === null || value === '';
+    if (operator === '=') return value => value === null;
+    if (operator === '<>') return value => value !== null;
+  }
+
+  const numericOperand = parseNumericText(operand);
+  if (numericOperand !== null) {
+    // Equality also accepts numbers stored as text; ordering only looks at real numbers.
+    if (operator === '' || operator === '=') return value => numberOf(value) === numericOperand;
+    if (operator === '<>') return value => numberOf(value) !== numericOperand;
+    return value => typeof value === 'number' && compareWith(operator, value - numericOperand);
+  }
+
+  const upper = operand.toUpperCase();
+  if (upper === 'TRUE' || upper === 'FALSE') {
+    const bool = upper === 'TRUE';
+    if (operator === '<>') return value => value !== bool;
+    if (operator === '' || operator === '=') return value => value === bool;
+  }
+
+  if (operator === '' || operator === '=' || operator === '<>') {
+    const pattern = hasWildcards(operand) ? wildcardToRegExp(operand) : null;
+    const equals: Predicate = value =>
+      typeof value === 'string' && (pattern ? pattern.test(value) : value.toUpperCase() === upper);
+    return operator === '<>' ? value => !equals(value) : equals;
+  }
+  return value => typeof value === 'string' && compareWith(operator, compareValues(value, operand));
+};
+
+export interface CriteriaMatch {
+  /** Zero-based offsets, within the ranges, of every cell that met all criteria. */
+  offsets: Array<[number, number]>;
+  /** Cells past the used range that are blank in every range yet still met all criteria. */
+  blankMatches: number;
+}
+
+/**
+ * Applies `[range, criterion]` pairs cell by cell, as COUNTIFS and friends do.
+ * Every range must be the same size. Only the used part of the sheet is
+ * scanned, so whole-column criteria ranges stay cheap.
+ */
+export const matchCriteria = (
+  pairs: Array<[Value, CellValue]>,
+  ctx: EvaluationContext,
+): CriteriaMatch | FormulaError => {
+  const size = sizeOf(pairs[0][0]);
+  for (const [range] of pairs) {
+    const other = sizeOf(range);
+    if (other.rows !== size.rows || other.cols !== size.cols) {
+      return errors.value('All criteria ranges must be the same size.');
+    }
+  }
+
+  const extent = scanExtent(pairs.map(([range]) => range), ctx);
+  const tests = pairs.map(([range, criterion]) => ({ grid: toGrid(range, ctx), matches: parseCriterion(criterion) }));
+  const offsets: Array<[number, number]> = [];
+  for (let row = 0; row < extent.rows; row++) {
+    for (let col = 0; col < extent.cols; col++) {
+      if (tests.every(({ grid, matches }) => matches(grid.get(row, col)))) offsets.push([row, col]);
+    }
+  }
+
+  const unscanned = size.rows * size.cols - extent.rows * extent.cols;
+  const blankMatches = unscanned > 0 && tests.every(({ matches }) => matches(null)) ? unscanned : 0;
+  return { offsets, blankMatches };
+};
+
+/**
+ * How much of a set of same-sized ranges needs reading: enough rows and
+ * columns to cover the used part of the sheet in any of them.
+ */
+export const scanExtent = (values: Value[], ctx: EvaluationContext): { rows: number; cols: number } => {
+  const used = ctx.getUsedRange();
+  const size = sizeOf(values[0]);
+  let rows = 0;
+  let cols = 0;
+  for (const value of values) {
+    if (!isReference(value)) return size;
+    rows = Math.max(rows, used.rows - value.range.start.row);
+    cols = Math.max(cols, used.cols - value.range.start.col);
+  }
+  return { rows: Math.max(0, Math.min(size.rows, rows)), cols: Math.max(0, Math.min(size.cols, cols)) };
+};
+
+/** Pairs up `criteria_range, criteria` arguments for the *IFS functions. */
+export const criteriaPairs = (args: Value[], ctx: EvaluationContext): Array<[Value, CellValue]> | FormulaError => {
+  if (args.length % 2 !== 0) return errors.value('Each criteria range needs a criterion.');
+  const pairs: Array<[Value, CellValue]> = [];
+  for (let i = 0; i < args.length; i += 2) pairs.push([args[i], toScalar(args[i + 1], ctx)]);
+  return pairs;
+};
+
+/**
+ * Sums the numeric cells of `target` at the given offsets. Text and blanks are
+ * skipped; an error in a selected cell is the result.
+ */
+export const sumAt = (
+  target: Value,
+  offsets: Array<[number, number]>,
+  ctx: EvaluationContext,
+): { sum: number; count: number } | FormulaError => {
+  const grid = toGrid(target, ctx);
+  let sum = 0;
+  let count = 0;
+  for (const [row, col] of offsets) {
+    const value = grid.get(row, col);
+    if (isError(value)) return value;
+    if (typeof value === 'number') {
+      sum += value;
+      count++;
+    }
+  }
+  return { sum, count };
+};
@@ -0,0 +1,281 @@
+import {
+  dateTimeToSerial,
+  dateToSerial,
+  dayOfWeek,
+  daysInMonth,
+  MAX_SERIAL,
+  parseDateTime,
+  serialToDate,
+} from '../dates';
+import { toScalar, type EvaluationContext, type FormulaFunction, type FunctionCall } from '../evaluator';
+import { errors, isError, toNumber, toText, type CellValue, type FormulaError, type Value } from '../values';
+import { forEachValue, optionalScalar } from './helpers';
+
+/** Reads a date argument: a serial number or text such as "3/15/2024". */
+const serialArg = (value: Value, ctx: EvaluationContext): number | FormulaError => {
+  const scalar = toScalar(value, ctx);
+  if (typeof scalar === 'boolean') return errors.value('A date cannot be TRUE or FALSE.');
+  const serial = toNumber(scalar);
+  if (isError(serial)) return serial;
+  if (serial < 0 || serial >= MAX_SERIAL + 1) return errors.num('The date is outside the range Excel supports.');
+  return Math.floor(serial);
+};
+
+const integerArg = (value: Value | undefined, ctx: EvaluationContext, fallback: number): number | FormulaError => {
+  const number = toNumber(optionalScalar(value, ctx, fallback));
+  return isError(number) ? number : Math.trunc(number);
+};
+
+const checkSerial = (serial: number): CellValue =>
+  serial < 0 || serial > MAX_SERIAL ? errors.num('The result is outside the range of dates Excel supports.') : serial;
+
+/** A one-argument function of a date's parts, such as YEAR. */
+const datePart = (part: 'year' | 'month' | 'day'): FormulaFunction => ({
+  minArgs: 1,
+  maxArgs: 1,
+  call: ([value], ctx) => {
+    const serial = serialArg(value, ctx);
+    return isError(serial) ? serial : serialToDate(serial)[part];
+  },
+});
+
+/**
+ * Which days of the week (0 = Sunday) are weekend days, from a NETWORKDAYS.INTL
+ * weekend argument: a code such as 1 (Saturday and Sunday) or 11 (Sunday only),
+ * or a seven-character mask starting on Monday, e.g. "0000011".
+ */
+const weekendArg = (value: Value | undefined, ctx: EvaluationContext): boolean[] | FormulaError => {
+  const weekend = optionalScalar(value, ctx, 1);
+  if (typeof weekend === 'string') {
+    if (!/^[01]{7}$/.test(weekend) || weekend === '1111111') {
+      return errors.value('The weekend mask must be seven 0s and 1s, starting on Monday, with at least one workday.');
+    }
+    return Array.from({ length: 7 }, (_, day) => weekend[(day + 6) % 7] === '1');
+  }
+  const code = toNumber(weekend);
+  if (isError(code)) return code;
+  if (code >= 1 && code <= 7) return Array.from({ length: 7 }, (_, day) => day === (code + 5) % 7 || day === (code + 6) % 7);
+  if (code >= 11 && code <= 17) return Array.from({ length: 7 }, (_, day) => day === code - 11);
+  return errors.num(`${code} is not a valid weekend code.`);
+};
+
+const holidaysArg = (value: Value | undefined, ctx: EvaluationContext): Set<number> | FormulaError => {
+  const holidays = new Set<number>();
+  if (value === undefined) return holidays;
+  let error: FormulaError | null = null;
+  forEachValue([value], ctx, item => {
+    if (error || item === null) return;
+    const serial = toNumber(item);
+    if (isError(serial)) error = serial;
+    else holidays.add(Math.floor(serial));
+  });
+  return error ?? holidays;
+};
+
+/** Counts workdays from `start` to `end` inclusive; negative when `end` comes first. */
+const countWorkdays = (start: number, end: number, weekend: boolean[], holidays: Set<number>): number => {
+  const [first, last] = start <= end ? [start, end] : [end, start];
+  const isWorkday = (serial: number) => !weekend[dayOfWeek(serial)];
+  const days = last - first + 1;
+  const fullWeeks = Math.floor(days / 7);
+  let count = fullWeeks * weekend.filter(isWeekend => !isWeekend).length;
+  for (let serial = first + fullWeeks * 7; serial <= last; serial++) {
+    if (isWorkday(serial)) count++;
+  }
+  for (const holiday of holidays) {
+    if (holiday >= first && holiday <= last && isWorkday(holiday)) count--;
+  }
+  return start <= end ? count : -count;
+};
+
+const networkDays: FunctionCall = ([startArg, endArg, weekendValue, holidaysValue], ctx) => {
+  const start = serialArg(startArg, ctx);
+  if (isError(start)) return start;
+  const end = serialArg(endArg, ctx);
+  if (isError(end)) return end;
+  const weekend = weekendArg(weekendValue, ctx);
+  if (isError(weekend)) return weekend;
+  const holidays = holidaysArg(holidaysValue, ctx);
+  return isError(holidays) ? holidays : countWorkdays(start, end, weekend, holidays);
+};
+
+const workday: FunctionCall = ([startArg, daysArg, weekendValue, holidaysValue], ctx) => {
+  const start = serialArg(startArg, ctx);
+  if (isError(start)) return start;
+  const days = integerArg(daysArg, ctx, 0);
+  if (isError(days)) return days;
+  const weekend = weekendArg(weekendValue, ctx);
+  if (isError(weekend)) return weekend;
+  const holidays = holidaysArg(holidaysValue, ctx);
+  if (isError(holidays)) return holidays;
+
+  const step = days < 0 ? -1 : 1;
+  let serial = start;
+  for (let remaining = Math.abs(days); remaining > 0; ) {
+    serial += step;
+    if (serial < 0 || serial > MAX_SERIAL) return checkSerial(serial);
+    if (!weekend[dayOfWeek(serial)] && !holidays.has(serial)) remaining--;
+  }
+  return serial;
+};
+
+/** DATEDIF's units: whole years, months or days, or the remainder after larger units. */
+const dateDifference = (start: number, end: number, unit: string): CellValue => {
+  const from = serialToDate(start);
+  const to = serialToDate(end);
+  const beforeDay = to.day < from.day;
+  const beforeMonthDay = to.month < from.month || (to.month === from.month && beforeDay);
+  switch (unit) {
+    case 'Y':
+      return to.year - from.year - (beforeMonthDay ? 1 : 0);
+    case 'M':
+      return (to.year - from.year) * 12 + to.month - from.month - (beforeDay ? 1 : 0);
+    case 'D':
+      return end - start;
+    case 'MD':
+      return beforeDay ? end - dateToSerial(to.year, to.month - 1, from.day) : to.day - from.day;
+    case 'YM':
+      return (to.month - from.month - (beforeDay ? 1 : 0) + 12) % 12;
+    case 'YD': {
+      let anniversary = dateToSerial(to.year, from.month, from.day);
+      if (anniversary > end) anniversary = dateToSerial(to.year - 1, from.month, from.day);
+      return end - anniversary;
+    }
+    default:
+      return errors.num(`"${unit}" is not a DATEDIF unit; use Y, M, D, MD, YM or YD.`);
+  }
+};
+
+export const DATE_TIME_FUNCTIONS: Record<string, FormulaFunction> = {
+  DATE: {
+    minArgs: 3,
+    maxArgs: 3,
+    format: 'm/d/yyyy',
+    call: ([yearArg, monthArg, dayArg], ctx) => {
+      const year = integerArg(yearArg, ctx, 0);
+      if (isError(year)) return year;
+      const month = integerArg(monthArg, ctx, 0);
+      if (isError(month)) return month;
+      const day = integerArg(dayArg, ctx, 0);
+      if (isError(day)) return day;
+      if (year < 0 || year > 9999) return errors.num('The year must be between 0 and 9999.');
+      // Years 0–1899 are added to 1900, so DATE(24,1,1) is in 1924.
+      return checkSerial(dateToSerial(year < 1900 ? year + 1900 : year, month, day));
+    },
+  },
+  DATEVALUE: {
+    minArgs: 1,
+    maxArgs: 1,
+    call: ([value], ctx) => {
+      const text = toScalar(value, ctx);
+      if (isError(text)) return text;
+      if (typeof text !== 'string') return errors.value('DATEVALUE needs a date written as text.');
+      const parsed = parseDateTime(text);
+      return parsed ? Math.floor(parsed.serial) : errors.value(`The text "${text}" is not a date.`);
+    },
+  },
+  TIME: {
+    minArgs: 3,
+    maxArgs: 3,
+    format: 'h:mm AM/PM',
+    call: ([hourArg, minuteArg, secondArg], ctx) => {
+      const hours = integerArg(hourArg, ctx, 0);
+      if (isError(hours)) return hours;
+      const minutes = integerArg(minuteArg, ctx, 0);
+      if (isError(minutes)) return minutes;
+      const seconds = integerArg(secondArg, ctx, 0);
+      if (isError(seconds)) return seconds;
+      const total = hours * 3600 + minutes * 60 + seconds;
+      if (total < 0) return errors.num('The time cannot be negative.');
+      // Whole days are dropped, so TIME(25,0,0) is 1:00 AM.
+      return (total % 86400) / 86400;
+    },
+  },
+  YEAR: datePart('year'),
+  MONTH: datePart('month'),
+  DAY: datePart('day'),
+  WEEKDAY: {
+    minArgs: 1,
+    maxArgs: 2,
+    call: ([value, typeArg], ctx) => {
+      const serial = serialArg(value, ctx);
+      if (isError(serial)) return serial;
+      const type = integerArg(typeArg, ctx, 1);
+      if (isError(type)) return type;
+      const day = dayOfWeek(serial);
+      if (type === 1 || type === 17) return day + 1;
+      if (type === 2) return ((day + 6) % 7) + 1;
+      if (type === 3) return (day + 6) % 7;
+      // Types 11–16 number the week from Monday through Saturday respectively.
+      if (type >= 11 && type <= 16) return ((day - (type - 10) + 7) % 7) + 1;
+      return errors.num(`${type} is not a valid WEEKDAY return type.`);
+    },
+  },
+  EDATE: {
+    minArgs: 2,
+    maxArgs: 2,
+    call: ([startArg, monthsArg], ctx) => {
+      const start = serialArg(startArg, ctx);
+      if (isError(start)) return start;
+      const months = integerArg(monthsArg, ctx, 0);
+      if (isError(months)) return months;
+      const { year, month, day } = serialToDate(start);
+      // The day is kept where possible and otherwise moved to the end of the month.
+      const target = dateToSerial(year, month + months, 1);
+      const { year: targetYear, month: targetMonth } = serialToDate(target);
+      return checkSerial(target + Math.min(day, daysInMonth(targetYear, targetMonth)) - 1);
+    },
+  },
+  EOMONTH: {
+    minArgs: 2,
+    maxArgs: 2,
+    call: ([startArg, monthsArg], ctx) => {
+      const start = serialArg(startArg, ctx);
+      if (isError(start)) return start;
+      const months = integerArg(monthsArg, ctx, 0);
+      if (isError(months)) return months;
+      const { year, month } = serialToDate(start);
+      return checkSerial(dateToSerial(year, month + months + 1, 0));
+    },
+  },
+  DATEDIF: {
+    minArgs: 3,
+    maxArgs: 3,
+    call: ([startArg, endArg, unitArg], ctx) => {
+      const start = serialArg(startArg, ctx);
+      if (isError(start)) return start;
+      const end = serialArg(endArg, ctx);
+      if (isError(end)) return end;
+      const unit = toText(toScalar(unitArg, ctx));
+      if (isError(unit)) return unit;
+      if (start > end) return errors.num('The start date must not be after the end date.');
+      return dateDifference(start, end, unit.toUpperCase());
+    },
+  },
+  NETWORKDAYS: {
+    minArgs: 2,
+    maxArgs: 3,
+    call: ([start, end, holidays], ctx) => networkDays([start, end, 1, holidays], ctx),
+  },
+  'NETWORKDAYS.INTL': { minArgs: 2, maxArgs: 4, call: networkDays },
+  WORKDAY: {
+    minArgs: 2,
+    maxArgs: 3,
+    call: ([start, days, holidays], ctx) => workday([start, days, 1, holidays], ctx),
+  },
+  'WORKDAY.INTL': { minArgs: 2, maxArgs: 4, call: workday },
+  TODAY: {
+    minArgs: 0,
+    maxArgs: 0,
+    volatile: true,
+    format: 'm/d/yyyy',
+    call: (_, ctx) => Math.floor(dateTimeToSerial(ctx.now())),
+  },
+  NOW: {
+    minArgs: 0,
+    maxArgs: 0,
+    volatile: true,
+    format: 'm/d/yyyy h:mm',
+    call: (_, ctx) => dateTimeToSerial(ctx.now()),
+  },
+};
@@ -0,0 +1,214 @@
+import { type EvaluationContext, type FormulaFunction } from '../evaluator';
+import { MAX_COLS, MAX_ROWS } from '../references';
+import {
+  compareValues,
+  errors,
+  isError,
+  toBoolean,
+  toNumber,
+  type CellValue,
+  type FormulaError,
+  type Value,
+} from '../values';
+import { arrayOf, defaulted, optionalScalar, toMatrix } from './helpers';
+
+const integerArg = (value: Value | undefined, ctx: EvaluationContext, fallback: number): number | FormulaError => {
+  const number = toNumber(optionalScalar(defaulted(value), ctx, fallback));
+  return isError(number) ? number : Math.trunc(number);
+};
+
+const booleanArg = (value: Value | undefined, ctx: EvaluationContext): boolean | FormulaError =>
+  toBoolean(optionalScalar(defaulted(value), ctx, false));
+
+const transpose = (values: CellValue[][]): CellValue[][] =>
+  values[0].map((_, col) => values.map(row => row[col]));
+
+/** Reads a single row or column of values, such as FILTER's include argument or a SORTBY key. */
+const vectorArg = (value: Value, ctx: EvaluationContext): { values: CellValue[]; byCol: boolean } | null => {
+  const matrix = toMatrix(value, ctx);
+  if (matrix.length === 0 || matrix[0].length === 0) return null;
+  if (matrix[0].length === 1) return { values: matrix.map(row => row[0]), byCol: false };
+  if (matrix.length === 1) return { values: matrix[0], byCol: true };
+  return null;
+};
+
+/** Orders values for SORT: numbers, text, logicals, then errors, with blanks always last. */
+const compareForSort = (left: CellValue, right: CellValue, order: number): number => {
+  if (left === null || right === null) return (left === null ? 1 : 0) - (right === null ? 1 : 0);
+  if (isError(left) || isError(right)) return (isError(left) ? 1 : 0) - (isError(right) ? 1 : 0);
+  return compareValues(left, right) * order;
+};
+
+const orderArg = (value: Value | undefined, ctx: EvaluationContext): number | FormulaError => {
+  const order = integerArg(value, ctx, 1);
+  if (isError(order)) return order;
+  return order === 1 || order === -1 ? order : errors.value('The sort order must be 1 (ascending) or -1 (descending).');
+};
+
+/** A key that treats text case-insensitively, as UNIQUE does, while keeping numbers and text apart. */
+const uniqueKey = (values: CellValue[]) =>
+  JSON.stringify(values.map(value => (typeof value === 'string' ? ['s', value.toUpperCase()] : [typeof value, String(value)])));
+
+/** Reads the size of a SEQUENCE or RANDARRAY result. */
+const dimensionsArg = (
+  rowsArg: Value | undefined,
+  colsArg: Value | undefined,
+  ctx: EvaluationContext,
+): { rows: number; cols: number } | FormulaError => {
+  const rows = integerArg(rowsArg, ctx, 1);
+  if (isError(rows)) return rows;
+  const cols = integerArg(colsArg, ctx, 1);
+  if (isError(cols)) return cols;
+  if (rows < 0 || cols < 0) return errors.value('The number of rows and columns cannot be negative.');
+  if (rows === 0 || cols === 0) return errors.calc('The array would be empty.');
+  if (rows > MAX_ROWS || cols > MAX_COLS) return errors.value('The array would be larger than the sheet.');
+  return { rows, cols };
+};
+
+export const DYNAMIC_ARRAY_FUNCTIONS: Record<string, FormulaFunction> = {
+  FILTER: {
+    minArgs: 2,
+    maxArgs: 3,
+    call: ([arrayArg, includeArg, ifEmpty], ctx) => {
+      const values = toMatrix(arrayArg, ctx);
+      const include = vectorArg(includeArg, ctx);
+      if (values.length === 0 || values[0].length === 0) return errors.calc('FILTER has nothing to filter.');
+      const byCol = include?.byCol ?? false;
+      const lines = byCol ? transpose(values) : values;
+      if (!include || include.values.length !== lines.length) {
+        return errors.value('The include argument must be one row or column the same size as the array.');
+      }
+
+      const kept: CellValue[][] = [];
+      for (let index = 0; index < lines.length; index++) {
+        const flag = include.values[index];
+        if (isError(flag)) return flag;
+        const keep = flag === null ? false : toBoolean(flag);
+        if (isError(keep)) return keep;
+        if (keep) kept.push(lines[index]);
+      }
+      if (kept.length === 0) {
+        return ifEmpty === undefined ? errors.calc('FILTER found no matching rows.') : ifEmpty;
+      }
+      return arrayOf(byCol ? transpose(kept) : kept);
+    },
+  },
+  SORT: {
+    minArgs: 1,
+    maxArgs: 4,
+    call: ([arrayArg, indexArg, orderValue, byColArg], ctx) => {
+      const index = integerArg(indexArg, ctx, 1);
+      if (isError(index)) return index;
+      const order = orderArg(orderValue, ctx);
+      if (isError(order)) return order;
+      const byCol = booleanArg(byColArg, ctx);
+      if (isError(byCol)) return byCol;
+
+      const values = toMatrix(arrayArg, ctx);
+      if (values.length === 0 || values[0].length === 0) return errors.calc('SORT has nothing to sort.');
+      const lines = byCol ? transpose(values) : values;
+      if (index < 1 || index > lines[0].length) {
+        return errors.value(`The sort index must be between 1 and ${lines[0].length}.`);
+      }
+      const sorted = [...lines].sort((a, b) => compareForSort(a[index - 1], b[index - 1], order));
+      return arrayOf(byCol ? transpose(sorted) : sorted);
+    },
+  },
+  SORTBY: {
+    minArgs: 2,
+    maxArgs: 253,
+    call: ([arrayArg, ...keyArgs], ctx) => {
+      const values = toMatrix(arrayArg, ctx);
+      if (values.length === 0 || values[0].length === 0) return errors.calc('SORTBY has nothing to sort.');
+
+      // Keys come in (by_array, sort_order) pairs; the order may be left off the last one.
+      const keys: Array<{ values: CellValue[]; order: number }> = [];
+      let byCol: boolean | null = null;
+      for (let i = 0; i < keyArgs.length; i += 2) {
+        const key = vectorArg(keyArgs[i], ctx);
+        const length = key?.byCol ? values[0].length : values.length;
+        if (!key || key.values.length !== length || (byCol !== null && key.byCol !== byCol)) {
+          return errors.value('Each sort-by array must be one row or column the same size as the array.');
+        }
+        byCol = key.byCol;
+        const order = orderArg(keyArgs[i + 1], ctx);
+        if (isError(order)) return order;
+        keys.push({ values: key.values, order });
+      }
+
+      const lines = byCol ? transpose(values) : values;
+      const positions = lines.map((_, index) => index);
+      positions.sort((a, b) => {
+        for (const key of keys) {
+          const order = compareForSort(key.values[a], key.values[b], key.order);
+          if (order !== 0) return order;
+        }
+        return 0;
+      });
+      const sorted = positions.map(index => lines[index]);
+      return arrayOf(byCol ? transpose(sorted) : sorted);
+    },
+  },
+  UNIQUE: {
+    minArgs: 1,
+    maxArgs: 3,
+    call: ([arrayArg, byColArg, exactlyOnceArg], ctx) => {
+      const byCol = booleanArg(byColArg, ctx);
+      if (isError(byCol)) return byCol;
+      const exactlyOnce = booleanArg(exactlyOnceArg, ctx);
+      if (isError(exactlyOnce)) return exactlyOnce;
+
+      const values = toMatrix(arrayArg, ctx);
+      if (values.length === 0 || values[0].length === 0) return errors.calc('UNIQUE has nothing to compare.');
+      const lines = byCol ? transpose(values) : values;
+      const counts = new Map<string, { line: CellValue[]; count: number }>();
+      for (const line of lines) {
+        const key = uniqueKey(line);
+        const entry = counts.get(key);
+        if (entry) entry.count++;
+        else counts.set(key, { line, count: 1 });
+      }
+      const unique = [...counts.values()].filter(({ count }) => !exactlyOnce || count === 1).map(({ line }) => line);
+      if (unique.length === 0) return errors.calc('Every value appears more than once.');
+      return arrayOf(byCol ? transpose(unique) : unique);
+    },
+  },
+  SEQUENCE: {
+    minArgs: 1,
+    maxArgs: 4,
+    call: ([rowsArg, colsArg, startArg, stepArg], ctx) => {
+      const size = dimensionsArg(rowsArg, colsArg, ctx);
+      if (isError(size)) return size;
+      const start = toNumber(optionalScalar(defaulted(startArg), ctx, 1));
+      if (isError(start)) return start;
+      const step = toNumber(optionalScalar(defaulted(stepArg), ctx, 1));
+      if (isError(step)) return step;
+      return arrayOf(
+        Array.from({ length: size.rows }, (_, row) =>
+          Array.from({ length: size.cols }, (_, col) => start + (row * size.cols + col) * step),
+        ),
+      );
+    },
+  },
+  RANDARRAY: {
+    minArgs: 0,
+    maxArgs: 5,
+    volatile: true,
+    call: ([rowsArg, colsArg, minArg, maxArg, integerArgValue], ctx) => {
+      const size = dimensionsArg(rowsArg, colsArg, ctx);
+      if (isError(size)) return size;
+      const min = toNumber(optionalScalar(defaulted(minArg), ctx, 0));
+      if (isError(min)) return min;
+      const max = toNumber(optionalScalar(defaulted(maxArg), ctx, 1));
+      if (isError(max)) return max;
+      const whole = booleanArg(integerArgValue, ctx);
+      if (isError(whole)) return whole;
+      if (min > max) return errors.value('The minimum cannot be larger than the maximum.');
+      if (whole && (!Number.isInteger(min) || !Number.isInteger(max))) {
+        return errors.value('Whole-number results need whole-number bounds.');
+      }
+      const next = () => (whole ? min + Math.floor(Math.random() * (max - min + 1)) : min + Math.random() * (max - min));
+      return arrayOf(Array.from({ length: size.rows }, () => Array.from({ length: size.cols }, next)));
+    },
+  },
+};
@@ -0,0 +1,354 @@
+import { toScalar, type EvaluationContext, type FormulaFunction } from '../evaluator';
+import { errors, isError, toNumber, type FormulaError, type Value } from '../values';
+import { collectNumbers, defaulted, optionalScalar, toMatrix } from './helpers';
+
+/** Excel gives payment, present and future value results a currency format, negatives in brackets. */
+const CURRENCY_FORMAT = '$#,##0.00_);($#,##0.00)';
+const PERCENT_FORMAT = '0%';
+
+const numberArg = (value: Value | undefined, ctx: EvaluationContext, fallback: number): number | FormulaError =>
+  toNumber(optionalScalar(defaulted(value), ctx, fallback));
+
+/** Reads several numeric arguments at once, stopping at the first error. */
+const numberArgs = (
+  values: Array<Value | undefined>,
+  fallbacks: number[],
+  ctx: EvaluationContext,
+): number[] | FormulaError => {
+  const numbers: number[] = [];
+  for (let i = 0; i < values.length; i++) {
+    const number = numberArg(values[i], ctx, fallbacks[i] ?? 0);
+    if (isError(number)) return number;
+    numbers.push(number);
+  }
+  return numbers;
+};
+
+/** Payments are due at the end of each period unless type is 1 (the start). */
+const paymentType = (type: number) => (type === 0 ? 0 : 1);
+
+const checkResult = (value: number): number | FormulaError =>
+  Number.isFinite(value) ? value : errors.num('The result is too large to represent.');
+
+/*
+ * The time-value-of-money identity every annuity function solves, with
+ * payments at the end (type 0) or start (type 1) of each period:
+ *   pv·(1+rate)^nper + pmt·(1+rate·type)·((1+rate)^nper − 1)/rate + fv = 0
+ */
+
+const futureValue = (rate: number, nper: number, pmt: number, pv: number, type: number): number => {
+  if (rate === 0) return -(pv + pmt * nper);
+  const growth = Math.pow(1 + rate, nper);
+  return -(pv * growth + (pmt * (1 + rate * type) * (growth - 1)) / rate);
+};
+
+const presentValue = (rate: number, nper: number, pmt: number, fv: number, type: number): number => {
+  if (rate === 0) return -(fv + pmt * nper);
+  const growth = Math.pow(1 + rate, nper);
+  return -(fv + (pmt * (1 + rate * type) * (growth - 1)) / rate) / growth;
+};
+
+const payment = (rate: number, nper: number, pv: number, fv: number, type: number): number => {
+  if (rate === 0) return -(pv + fv) / nper;
+  const growth = Math.pow(1 + rate, nper);
+  return (-(pv * growth + fv) * rate) / ((1 + rate * type) * (growth - 1));
+};
+
+/** The interest part of payment `per`, negative for money paid out as FV's sign convention has it. */
+const interestPayment = (rate: number, per: number, nper: number, pv: number, fv: number, type: number): number => {
+  const pmt = payment(rate, nper, pv, fv, type);
+  if (per === 1) return type === 1 ? 0 : -pv * rate;
+  // The balance owed at the start of the period earns the interest; with payments in advance it's one period earlier.
+  const balance = type === 1 ? futureValue(rate, per - 2, pmt, pv, 1) - pmt : futureValue(rate, per - 1, pmt, pv, 0);
+  return balance * rate;
+};
+
+interface SolverOptions {
+  guess: number;
+  maxIterations: number;
+  tolerance: number;
+}
+
+/**
+ * Newton's method, as Excel's RATE, IRR and XIRR use it: start from the guess
+ * and give up with #NUM! if the result hasn't settled within the iteration limit
+ * or a step leaves the sensible range of rates above -100%.
+ */
+const solve = (
+  f: (x: number) => number,
+  derivative: (x: number) => number,
+  { guess, maxIterations, tolerance }: SolverOptions,
+  fn: string,
+): number | FormulaError => {
+  let x = guess;
+  for (let i = 0; i < maxIterations; i++) {
+    const slope = derivative(x);
+    if (slope === 0 || !Number.isFinite(slope)) break;
+    const next = x - f(x) / slope;
+    if (!Number.isFinite(next) || next <= -1) break;
+    if (Math.abs(next - x) < tolerance) return next;
+    x = next;
+  }
+  return errors.num(`${fn} could not find a result; try a different guess.`);
+};
+
+/** Reads cash flows for IRR, MIRR and friends; there must be at least one payment and one receipt. */
+const cashFlows = (value: Value, ctx: EvaluationContext, fn: string): number[] | FormulaError => {
+  const values = collectNumbers([value], ctx);
+  if (isError(values)) return values;
+  if (!values.some(v => v > 0) || !values.some(v => v < 0)) {
+    return errors.num(`${fn} needs at least one positive and one negative cash flow.`);
+  }
+  return values;
+};
+
+/** Reads XNPV and XIRR's values and dates, which pair up one to one and start with the earliest date. */
+const datedCashFlows = (
+  valuesArg: Value,
+  datesArg: Value,
+  ctx: EvaluationContext,
+): { values: number[]; years: number[] } | FormulaError => {
+  const read = (arg: Value): number[] | FormulaError => {
+    const numbers: number[] = [];
+    for (const value of toMatrix(arg, ctx).flat()) {
+      if (isError(value)) return value;
+      if (typeof value !== 'number') return errors.value('Every value and date must be a number.');
+      numbers.push(value);
+    }
+    return numbers;
+  };
+  const values = read(valuesArg);
+  if (isError(values)) return values;
+  const dates = read(datesArg);
+  if (isError(dates)) return dates;
+  if (values.length !== dates.length) return errors.num('There must be one date for each value.');
+  const start = Math.floor(dates[0]);
+  if (dates.some(date => Math.floor(date) < start)) return errors.num('No date may come before the first date.');
+  // Each cash flow is discounted by the years since the first one, counted as 365 days.
+  return { values, years: dates.map(date => (Math.floor(date) - start) / 365) };
+};
+
+const datedPresentValue = (rate: number, values: number[], years: number[]) =>
+  values.reduce((sum, value, i) => sum + value / Math.pow(1 + rate, years[i]), 0);
+
+const npv = (rate: number, values: number[]) =>
+  values.reduce((sum, value, i) => sum + value / Math.pow(1 + rate, i + 1), 0);
+
+export const FINANCIAL_FUNCTIONS: Record<string, FormulaFunction> = {
+  PMT: {
+    minArgs: 3,
+    maxArgs: 5,
+    format: CURRENCY_FORMAT,
+    call: ([rateArg, nperArg, pvArg, fvArg, typeArg], ctx) => {
+      const args = numberArgs([rateArg, nperArg, pvArg, fvArg, typeArg], [0, 0, 0, 0, 0], ctx);
+      if (isError(args)) return args;
+      const [rate, nper, pv, fv, type] = args;
+      if (nper === 0) return errors.num('The number of periods cannot be zero.');
+      return checkResult(payment(rate, nper, pv, fv, paymentType(type)));
+    },
+  },
+  IPMT: {
+    minArgs: 4,
+    maxArgs: 6,
+    format: CURRENCY_FORMAT,
+    call: ([rateArg, perArg, nperArg, pvArg, fvArg, typeArg], ctx) => {
+      const args = numberArgs([rateArg, perArg, nperArg, pvArg, fvArg, typeArg], [0, 0, 0, 0, 0, 0], ctx);
+      if (isError(args)) return args;
+      const [rate, per, nper, pv, fv, type] = args;
+      if (per < 1 || per > nper) return errors.num('The period must be between 1 and the number of periods.');
+      return checkResult(interestPayment(rate, per, nper, pv, fv, paymentType(type)));
+    },
+  },
+  PPMT: {
+    minArgs: 4,
+    maxArgs: 6,
+    format: CURRENCY_FORMAT,
+    call: ([rateArg, perArg, nperArg, pvArg, fvArg, typeArg], ctx) => {
+      const args = numberArgs([rateArg, perArg, nperArg, pvArg, fvArg, typeArg], [0, 0, 0, 0, 0, 0], ctx);
+      if (isError(args)) return args;
+      const [rate, per, nper, pv, fv, type] = args;
+      if (per < 1 || per > nper) return errors.num('The period must be between 1 and the number of periods.');
+      const total = payment(rate, nper, pv, fv, paymentType(type));
+      return checkResult(total - interestPayment(rate, per, nper, pv, fv, paymentType(type)));
+    },
+  },
+  FV: {
+    minArgs: 3,
+    maxArgs: 5,
+    format: CURRENCY_FORMAT,
+    call: ([rateArg, nperArg, pmtArg, pvArg, typeArg], ctx) => {
+      const args = numberArgs([rateArg, nperArg, pmtArg, pvArg, typeArg], [0, 0, 0, 0, 0], ctx);
+      if (isError(args)) return args;
+      const [rate, nper, pmt, pv, type] = args;
+      return checkResult(futureValue(rate, nper, pmt, pv, paymentType(type)));
+    },
+  },
+  PV: {
+    minArgs: 3,
+    maxArgs: 5,
+    format: CURRENCY_FORMAT,
+    call: ([rateArg, nperArg, pmtArg, fvArg, typeArg], ctx) => {
+      const args = numberArgs([rateArg, nperArg, pmtArg, fvArg, typeArg], [0, 0, 0, 0, 0], ctx);
+      if (isError(args)) return args;
+      const [rate, nper, pmt, fv, type] = args;
+      return checkResult(presentValue(rate, nper, pmt, fv, paymentType(type)));
+    },
+  },
+  NPER: {
+    minArgs: 3,
+    maxArgs: 5,
+    call: ([rateArg, pmtArg, pvArg, fvArg, typeArg], ctx) => {
+      const args = numberArgs([rateArg, pmtArg, pvArg, fvArg, typeArg], [0, 0, 0, 0, 0], ctx);
+      if (isError(args)) return args;
+      const [rate, pmt, pv, fv, type] = args;
+      if (rate === 0) {
+        return pmt === 0 ? errors.num('The payment cannot be zero when the rate is zero.') : checkResult(-(pv + fv) / pmt);
+      }
+      const adjusted = pmt * (1 + rate * paymentType(type));
+      const ratio = (adjusted - fv * rate) / (adjusted + pv * rate);
+      if (ratio <= 0 || rate <= -1) return errors.num('The loan can never be paid off with this payment.');
+      return checkResult(Math.log(ratio) / Math.log(1 + rate));
+    },
+  },
+  RATE: {
+    minArgs: 3,
+    maxArgs: 6,
+    format: PERCENT_FORMAT,
+    call: ([nperArg, pmtArg, pvArg, fvArg, typeArg, guessArg], ctx) => {
+      const args = numberArgs([nperArg, pmtArg, pvArg, fvArg, typeArg, guessArg], [0, 0, 0, 0, 0, 0.1], ctx);
+      if (isError(args)) return args;
+      const [nper, pmt, pv, fv, typeValue, guess] = args;
+      if (nper <= 0) return errors.num('The number of periods must be positive.');
+      const type = paymentType(typeValue);
+      const f = (rate: number) =>
+        rate === 0
+          ? pv + pmt * nper + fv
+          : pv * Math.pow(1 + rate, nper) + (pmt * (1 + rate * type) * (Math.pow(1 + rate, nper) - 1)) / rate + fv;
+      const derivative = (rate: number) => {
+        if (rate === 0) return pv * nper + pmt * ((nper * (nper - 1)) / 2 + type * nper);
+        const growth = Math.pow(1 + rate, nper);
+        const growthSlope = nper * Math.pow(1 + rate, nper - 1);
+        return (
+          pv * growthSlope +
+          (pmt * type * (growth - 1)) / rate +
+          (pmt * (1 + rate * type) * (growthSlope * rate - (growth - 1))) / (rate * rate)
+        );
+      };
+      // Long loans creep toward the answer from the default guess, so RATE gets more steps than IRR.
+      return solve(f, derivative, { guess, maxIterations: 100, tolerance: 1e-7 }, 'RATE');
+    },
+  },
+  NPV: {
+    minArgs: 2,
+    maxArgs: 255,
+    format: CURRENCY_FORMAT,
+    call: ([rateArg, ...valueArgs], ctx) => {
+      const rate = toNumber(toScalar(rateArg, ctx));
+      if (isError(rate)) return rate;
+      if (rate === -1) return errors.div0('The rate cannot be -100%.');
+      const values = collectNumbers(valueArgs, ctx);
+      return isError(values) ? values : checkResult(npv(rate, values));
+    },
+  },
+  XNPV: {
+    minArgs: 3,
+    maxArgs: 3,
+    call: ([rateArg, valuesArg, datesArg], ctx) => {
+      const rate = toNumber(toScalar(rateArg, ctx));
+      if (isError(rate)) return rate;
+      if (rate <= -1) return errors.num('The rate must be greater than -100%.');
+      const flows = datedCashFlows(valuesArg, datesArg, ctx);
+      if (isError(flows)) return flows;
+      return checkResult(datedPresentValue(rate, flows.values, flows.years));
+    },
+  },
+  IRR: {
+    minArgs: 1,
+    maxArgs: 2,
+    format: PERCENT_FORMAT,
+    call: ([valuesArg, guessArg], ctx) => {
+      const values = cashFlows(valuesArg, ctx, 'IRR');
+      if (isError(values)) return values;
+      const guess = numberArg(guessArg, ctx, 0.1);
+      if (isError(guess)) return guess;
+      // The first cash flow happens now, so IRR discounts from period 0 where NPV starts at 1.
+      const f = (rate: number) => values.reduce((sum, value, i) => sum + value / Math.pow(1 + rate, i), 0);
+      const derivative = (rate: number) =>
+        values.reduce((sum, value, i) => sum - (i * value) / Math.pow(1 + rate, i + 1), 0);
+      return solve(f, derivative, { guess, maxIterations: 20, tolerance: 1e-7 }, 'IRR');
+    },
+  },
+  XIRR: {
+    minArgs: 2,
+    maxArgs: 3,
+    format: PERCENT_FORMAT,
+    call: ([valuesArg, datesArg, guessArg], ctx) => {
+      const flows = datedCashFlows(valuesArg, datesArg, ctx);
+      if (isError(flows)) return flows;
+      const { values, years } = flows;
+      if (!values.some(v => v > 0) || !values.some(v => v < 0)) {
+        return errors.num('XIRR needs at least one positive and one negative cash flow.');
+      }
+      const guess = numberArg(guessArg, ctx, 0.1);
+      if (isError(guess)) return guess;
+      const f = (rate: number) => datedPresentValue(rate, values, years);
+      const derivative = (rate: number) =>
+        values.reduce((sum, value, i) => sum - (years[i] * value) / Math.pow(1 + rate, years[i] + 1), 0);
+      return solve(f, derivative, { guess, maxIterations: 100, tolerance: 1e-8 }, 'XIRR');
+    },
+  },
+  MIRR: {
+    minArgs: 3,
+    maxArgs: 3,
+    format: PERCENT_FORMAT,
+    call: ([valuesArg, financeArg, reinvestArg], ctx) => {
+      const values = collectNumbers([valuesArg], ctx);
+      if (isError(values)) return values;
+      const financeRate = toNumber(toScalar(financeArg, ctx));
+      if (isError(financeRate)) return financeRate;
+      const reinvestRate = toNumber(toScalar(reinvestArg, ctx));
+      if (isError(reinvestRate)) return reinvestRate;
+      if (!values.some(v => v > 0) || !values.some(v => v < 0)) {
+        return errors.div0('MIRR needs at least one positive and one negative cash flow.');
+      }
+      // Receipts are reinvested to the end and payments financed from the start.
+      const n = values.length;
+      const receipts = npv(reinvestRate, values.map(v => Math.max(v, 0)));
+      const payments = npv(financeRate, values.map(v => Math.min(v, 0)));
+      const growth = (-receipts * Math.pow(1 + reinvestRate, n)) / (payments * (1 + financeRate));
+      return checkResult(Math.pow(growth, 1 / (n - 1)) - 1);
+    },
+  },
+  SLN: {
+    minArgs: 3,
+    maxArgs: 3,
+    format: CURRENCY_FORMAT,
+    call: ([costArg, salvageArg, lifeArg], ctx) => {
+      const args = numberArgs([costArg, salvageArg, lifeArg], [], ctx);
+      if (isError(args)) return args;
+      const [cost, salvage, life] = args;
+      return life === 0 ? errors.div0('The useful life cannot be zero.') : (cost - salvage) / life;
+    },
+  },
+  DDB: {
+    minArgs: 4,
+    maxArgs: 5,
+    format: CURRENCY_FORMAT,
+    call: ([costArg, salvageArg, lifeArg, periodArg, factorArg], ctx) => {
+      const args = numberArgs([costArg, salvageArg, lifeArg, periodArg, factorArg], [0, 0, 0, 0, 2], ctx);
+      if (isError(args)) return args;
+      const [cost, salvage, life, period, factor] = args;
+      if (cost < 0 || salvage < 0 || life <= 0 || period <= 0 || factor <= 0 || period > life) {
+        return errors.num('Cost and salvage cannot be negative, and the period must fall within the useful life.');
+      }
+      // Each period writes off `factor / life` of the remaining book value, never going below salvage.
+      let depreciated = 0;
+      let current = 0;
+      for (let i = 1; i <= period; i++) {
+        current = Math.max(0, Math.min((cost - depreciated) * (factor / life), cost - salvage - depreciated));
+        depreciated += current;
+      }
+      return current;
+    },
+  },
+};
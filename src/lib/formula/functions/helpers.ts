@@ -0,0 +1,197 @@
+import { toScalar, type EvaluationContext } from '../evaluator';
+import { isWholeColumn, isWholeRow, type RangeRef } from '../references';
+import {
+  errors,
+  isArray,
+  isError,
+  isLambda,
+  isReference,
+  isUnion,
+  toNumber,
+  type ArrayValue,
+  type CellValue,
+  type FormulaError,
+  type Value,
+} from '../values';
+
+/** A read-only, row-major view over a range or a single value. */
+export interface Grid {
+  rows: number;
+  cols: number;
+  get(row: number, col: number): CellValue;
+}
+
+/**
+ * Cuts a range down to the part of the sheet that can hold data, so a
+ * whole-column reference like `A:B` only costs as much as the used rows.
+ */
+export const clipToUsedRange = (range: RangeRef, ctx: EvaluationContext): RangeRef => {
+  const used = ctx.getUsedRange();
+  return {
+    start: range.start,
+    end: {
+      ...range.end,
+      row: Math.min(range.end.row, Math.max(range.start.row, used.rows) - 1),
+      col: Math.min(range.end.col, Math.max(range.start.col, used.cols) - 1),
+    },
+  };
+};
+
+export const toGrid = (value: Value, ctx: EvaluationContext): Grid => {
+  if (isUnion(value) || isLambda(value)) {
+    const error = toScalar(value, ctx);
+    return { rows: 1, cols: 1, get: () => error };
+  }
+  if (isArray(value)) {
+    return { rows: value.values.length, cols: value.values[0].length, get: (row, col) => value.values[row]?.[col] ?? null };
+  }
+  if (!isReference(value)) return { rows: 1, cols: 1, get: () => value };
+  const { start, end } = clipToUsedRange(value.range, ctx);
+  return {
+    rows: Math.max(0, end.row - start.row + 1),
+    cols: Math.max(0, end.col - start.col + 1),
+    get: (row, col) => ctx.getCell(start.row + row, start.col + col),
+  };
+};
+
+/**
+ * Visits every value an argument list supplies. `fromReference` tells callers
+ * whether the value came from a range, because Excel skips text and booleans in
+ * ranges for many functions while still coercing them when typed directly.
+ */
+export const forEachValue = (
+  args: Value[],
+  ctx: EvaluationContext,
+  visit: (value: CellValue, fromReference: boolean) => void,
+) => {
+  for (const arg of args) {
+    if (isUnion(arg)) {
+      forEachValue(arg.areas, ctx, visit);
+      continue;
+    }
+    if (!isReference(arg) && !isArray(arg)) {
+      visit(toScalar(arg, ctx), false);
+      continue;
+    }
+    const grid = toGrid(arg, ctx);
+    for (let row = 0; row < grid.rows; row++) {
+      for (let col = 0; col < grid.cols; col++) {
+        visit(grid.get(row, col), true);
+      }
+    }
+  }
+};
+
+/**
+ * Reads an optional argument, falling back only when it was left off entirely.
+ * An empty argument such as the last one in `VLOOKUP(A1,B:C,2,)` is blank,
+ * which Excel reads as 0 or FALSE.
+ */
+export const optionalScalar = (value: Value | undefined, ctx: EvaluationContext, fallback: CellValue): CellValue =>
+  value === undefined ? fallback : toScalar(value, ctx);
+
+/** Newer functions such as TEXTSPLIT and SORT read an empty argument as "use the default". */
+export const defaulted = (value: Value | undefined): Value | undefined => (value === null ? undefined : value);
+
+/** The declared size of a range, ignoring how much of it is actually used. */
+export const sizeOf = (value: Value): { rows: number; cols: number } => {
+  if (isArray(value)) return { rows: value.values.length, cols: value.values[0].length };
+  if (!isReference(value)) return { rows: 1, cols: 1 };
+  const { start, end } = value.range;
+  return { rows: end.row - start.row + 1, cols: end.col - start.col + 1 };
+};
+
+/** A reference to part of a range, given zero-based offsets and a size. */
+export const subRange = (value: Value, row: number, col: number, rows: number, cols: number): Value => {
+  if (isArray(value)) {
+    return { kind: 'array', values: value.values.slice(row, row + rows).map(line => line.slice(col, col + cols)) };
+  }
+  if (!isReference(value)) return value;
+  const { start } = value.range;
+  return {
+    kind: 'reference',
+    range: {
+      start: { ...start, row: start.row + row, col: start.col + col },
+      end: { ...start, row: start.row + row + rows - 1, col: start.col + col + cols - 1 },
+    },
+  };
+};
+
+/**
+ * Gathers the numbers in an argument list using the rules shared by SUM,
+ * AVERAGE, MAX and friends: inside ranges only real numbers count; typed
+ * arguments are coerced, so `TRUE` is 1 and `"3"` is 3. Errors anywhere win.
+ */
+export const collectNumbers = (args: Value[], ctx: EvaluationContext): number[] | FormulaError => {
+  const numbers: number[] = [];
+  let error: FormulaError | null = null;
+  forEachValue(args, ctx, (value, fromReference) => {
+    if (error) return;
+    if (isError(value)) {
+      error = value;
+    } else if (typeof value === 'number') {
+      numbers.push(value);
+    } else if (!fromReference && value !== null) {
+      const number = toNumber(value);
+      if (isError(number)) error = number;
+      else numbers.push(number);
+    }
+  });
+  return error ?? numbers;
+};
+
+/** Whether a value holds more than one cell, so it spills or lifts an operator over its elements. */
+export const isMultiCell = (value: Value): boolean => {
+  if (!isReference(value) && !isArray(value)) return false;
+  const { rows, cols } = sizeOf(value);
+  return rows * cols > 1;
+};
+
+/**
+ * A grid the size a dynamic-array result takes: the declared size of a range,
+ * except that whole columns stop at the last used row and whole rows at the
+ * last used column.
+ */
+export const toArrayGrid = (value: Value, ctx: EvaluationContext): Grid => {
+  const grid = toGrid(value, ctx);
+  if (!isReference(value)) return grid;
+  const size = sizeOf(value);
+  return {
+    ...grid,
+    rows: isWholeColumn(value.range) ? grid.rows : size.rows,
+    cols: isWholeRow(value.range) ? grid.cols : size.cols,
+  };
+};
+
+/** Reads a value into rows of cell values, for functions that rearrange whole arrays. */
+export const toMatrix = (value: Value, ctx: EvaluationContext): CellValue[][] => {
+  const grid = toArrayGrid(value, ctx);
+  return Array.from({ length: grid.rows }, (_, row) => Array.from({ length: grid.cols }, (_, col) => grid.get(row, col)));
+};
+
+export const arrayOf = (values: CellValue[][]): ArrayValue => ({ kind: 'array', values });
+
+/**
+ * Applies a scalar operation element by element, as dynamic-array Excel does
+ * for `A2:A9*2`. A single row or column is repeated to match the others;
+ * positions past the end of a larger mismatched operand are #N/A.
+ */
+export const broadcast = (
+  operands: Value[],
+  ctx: EvaluationContext,
+  apply: (values: CellValue[]) => CellValue,
+): ArrayValue => {
+  const grids = operands.map(operand => toArrayGrid(operand, ctx));
+  const rows = Math.max(...grids.map(grid => grid.rows));
+  const cols = Math.max(...grids.map(grid => grid.cols));
+  const at = (grid: Grid, row: number, col: number): CellValue => {
+    const r = grid.rows === 1 ? 0 : row;
+    const c = grid.cols === 1 ? 0 : col;
+    return r < grid.rows && c < grid.cols ? grid.get(r, c) : errors.na('The arrays are different sizes.');
+  };
+  return arrayOf(
+    Array.from({ length: rows }, (_, row) =>
+      Array.from({ length: cols }, (_, col) => apply(grids.map(grid => at(grid, row, col)))),
+    ),
+  );
+};
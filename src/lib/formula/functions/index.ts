@@ -0,0 +1,25 @@
+import type { FormulaFunction } from '../evaluator';
+import { DATE_TIME_FUNCTIONS } from './date-time';
+import { DYNAMIC_ARRAY_FUNCTIONS } from './dynamic-array';
+import { FINANCIAL_FUNCTIONS } from './financial';
+import { INFORMATION_FUNCTIONS } from './information';
+import { LAMBDA_FUNCTIONS } from './lambda';
+import { LOGICAL_FUNCTIONS } from './logical';
+import { LOOKUP_FUNCTIONS } from './lookup';
+import { MATH_FUNCTIONS } from './math';
+import { STATISTICAL_FUNCTIONS } from './statistical';
+import { TEXT_FUNCTIONS } from './text';
+
+/** Every function the engine understands, keyed by its upper-case Excel name. */
+export const FUNCTIONS: Record<string, FormulaFunction> = {
+  ...DATE_TIME_FUNCTIONS,
+  ...DYNAMIC_ARRAY_FUNCTIONS,
+  ...FINANCIAL_FUNCTIONS,
+  ...INFORMATION_FUNCTIONS,
+  ...LAMBDA_FUNCTIONS,
+  ...LOGICAL_FUNCTIONS,
+  ...LOOKUP_FUNCTIONS,
+  ...MATH_FUNCTIONS,
+  ...STATISTICAL_FUNCTIONS,
+  ...TEXT_FUNCTIONS,
+};
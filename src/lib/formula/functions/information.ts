@@ -0,0 +1,27 @@
+import { toScalar, type FormulaFunction } from '../evaluator';
+import { ERROR_TYPE_NUMBERS, errors, isError, type CellValue } from '../values';
+
+const test = (predicate: (value: CellValue) => boolean): FormulaFunction => ({
+  minArgs: 1,
+  maxArgs: 1,
+  call: ([value], ctx) => predicate(toScalar(value, ctx)),
+});
+
+export const INFORMATION_FUNCTIONS: Record<string, FormulaFunction> = {
+  ISERROR: test(isError),
+  ISERR: test(value => isError(value) && value.code !== '#N/A'),
+  ISNA: test(value => isError(value) && value.code === '#N/A'),
+  ISBLANK: test(value => value === null),
+  ISNUMBER: test(value => typeof value === 'number'),
+  ISTEXT: test(value => typeof value === 'string'),
+  ISLOGICAL: test(value => typeof value === 'boolean'),
+  'ERROR.TYPE': {
+    minArgs: 1,
+    maxArgs: 1,
+    call: ([value], ctx) => {
+      const scalar = toScalar(value, ctx);
+      return isError(scalar) ? ERROR_TYPE_NUMBERS[scalar.code] : errors.na('The value is not an error.');
+    },
+  },
+  NA: { minArgs: 0, maxArgs: 0, call: () => errors.na() },
+};
@@ -0,0 +1,101 @@
+import { bindName, invokeLambda, toScalar, type FormulaFunction, type FunctionCall } from '../evaluator';
+import type { AstNode } from '../parser';
+import { errors, isError, isLambda, type CellValue, type FormulaError, type LambdaValue, type Value } from '../values';
+import { arrayOf, broadcast, isMultiCell, sizeOf, subRange, toArrayGrid, toMatrix } from './helpers';
+
+/** Reads the variable names LET and LAMBDA declare, which must be plain, distinct names. */
+const variableNames = (nodes: AstNode[], fn: string): string[] | FormulaError => {
+  const names: string[] = [];
+  for (const node of nodes) {
+    if (node.type !== 'name') return errors.value(`${fn} expects a variable name where it found something else.`);
+    if (names.some(name => name.toUpperCase() === node.name.toUpperCase())) {
+      return errors.value(`${fn} declares "${node.name}" more than once.`);
+    }
+    names.push(node.name);
+  }
+  return names;
+};
+
+/** The LAMBDA that MAP, REDUCE, BYROW and BYCOL apply, always their last argument. */
+const lambdaArg = (value: Value, fn: string): LambdaValue | FormulaError => {
+  if (isError(value)) return value;
+  return isLambda(value) ? value : errors.value(`${fn} needs a LAMBDA as its last argument.`);
+};
+
+/** Applies a LAMBDA to every row (or column) of an array; each call must return a single value. */
+const byLine =
+  (fn: 'BYROW' | 'BYCOL'): FunctionCall =>
+  ([array, lambdaValue], ctx) => {
+    const lambda = lambdaArg(lambdaValue, fn);
+    if (isError(lambda)) return lambda;
+    const { rows, cols } = sizeOf(array);
+    const byRow = fn === 'BYROW';
+    // Whole columns only contribute their used rows.
+    const grid = toArrayGrid(array, ctx);
+    const results: CellValue[] = [];
+    for (let i = 0; i < (byRow ? grid.rows : grid.cols); i++) {
+      const line = byRow ? subRange(array, i, 0, 1, cols) : subRange(array, 0, i, rows, 1);
+      const result = invokeLambda(lambda, [line]);
+      if (isMultiCell(result)) {
+        return errors.calc(`${fn}'s LAMBDA must return a single value for each ${byRow ? 'row' : 'column'}.`);
+      }
+      results.push(toScalar(result, ctx));
+    }
+    return arrayOf(byRow ? results.map(result => [result]) : [results]);
+  };
+
+export const LAMBDA_FUNCTIONS: Record<string, FormulaFunction> = {
+  LET: {
+    minArgs: 3,
+    maxArgs: 253,
+    lazy: true,
+    call: (args, ctx, nodes) => {
+      if (nodes.length % 2 === 0) return errors.value('LET needs name/value pairs followed by a calculation.');
+      const names = variableNames(
+        nodes.filter((_, i) => i % 2 === 0 && i < nodes.length - 1),
+        'LET',
+      );
+      if (isError(names)) return names;
+      // Each value can use the names declared before it.
+      let scope = ctx;
+      names.forEach((name, i) => {
+        scope = bindName(scope, name, args[i * 2 + 1](scope));
+      });
+      return args[args.length - 1](scope);
+    },
+  },
+  LAMBDA: {
+    minArgs: 1,
+    maxArgs: 254,
+    lazy: true,
+    call: (_, ctx, nodes) => {
+      const params = variableNames(nodes.slice(0, -1), 'LAMBDA');
+      if (isError(params)) return params;
+      return { kind: 'lambda', params, body: nodes[nodes.length - 1], ctx };
+    },
+  },
+  MAP: {
+    minArgs: 2,
+    maxArgs: 254,
+    call: (args, ctx) => {
+      const lambda = lambdaArg(args[args.length - 1], 'MAP');
+      if (isError(lambda)) return lambda;
+      return broadcast(args.slice(0, -1), ctx, values => toScalar(invokeLambda(lambda, values), ctx));
+    },
+  },
+  REDUCE: {
+    minArgs: 3,
+    maxArgs: 3,
+    call: ([initial, array, lambdaValue], ctx) => {
+      const lambda = lambdaArg(lambdaValue, 'REDUCE');
+      if (isError(lambda)) return lambda;
+      let accumulator: Value = initial;
+      for (const row of toMatrix(array, ctx)) {
+        for (const value of row) accumulator = invokeLambda(lambda, [accumulator, value]);
+      }
+      return accumulator;
+    },
+  },
+  BYROW: { minArgs: 2, maxArgs: 2, call: byLine('BYROW') },
+  BYCOL: { minArgs: 2, maxArgs: 2, call: byLine('BYCOL') },
+};
@@ -0,0 +1,99 @@
+import { toScalar, type EvaluationContext, type FormulaFunction } from '../evaluator';
+import { errors, isError, toBoolean, type FormulaError, type Value } from '../values';
+import { broadcast, forEachValue, isMultiCell } from './helpers';
+
+/** Folds the logical values of AND/OR/XOR arguments; text inside ranges is ignored. */
+const collectBooleans = (args: Value[], ctx: EvaluationContext): boolean[] | FormulaError => {
+  const booleans: boolean[] = [];
+  let error: FormulaError | null = null;
+  forEachValue(args, ctx, (value, fromReference) => {
+    if (error) return;
+    if (isError(value)) {
+      error = value;
+      return;
+    }
+    if (value === null || (fromReference && typeof value === 'string')) return;
+    const bool = toBoolean(value);
+    if (isError(bool)) error = bool;
+    else booleans.push(bool);
+  });
+  if (error) return error;
+  return booleans.length === 0 ? errors.value('There are no logical values to evaluate.') : booleans;
+};
+
+export const LOGICAL_FUNCTIONS: Record<string, FormulaFunction> = {
+  IF: {
+    minArgs: 1,
+    maxArgs: 3,
+    lazy: true,
+    call: ([test, whenTrue, whenFalse], ctx) => {
+      const tested = test();
+      // An array condition picks from both branches element by element, e.g. IF(A2:A9>0,"Yes","No").
+      if (isMultiCell(tested)) {
+        const yes = whenTrue ? whenTrue() ?? 0 : true;
+        const no = whenFalse ? whenFalse() ?? 0 : false;
+        return broadcast([tested, yes, no], ctx, ([flag, ifTrue, ifFalse]) => {
+          const chosen = toBoolean(flag);
+          if (isError(chosen)) return chosen;
+          return (chosen ? ifTrue : ifFalse) ?? 0;
+        });
+      }
+      const condition = toBoolean(toScalar(tested, ctx));
+      if (isError(condition)) return condition;
+      if (condition) return whenTrue ? whenTrue() ?? 0 : true;
+      return whenFalse ? whenFalse() ?? 0 : false;
+    },
+  },
+  AND: {
+    minArgs: 1,
+    maxArgs: 255,
+    call: (args, ctx) => {
+      const booleans = collectBooleans(args, ctx);
+      return Array.isArray(booleans) ? booleans.every(Boolean) : booleans;
+    },
+  },
+  OR: {
+    minArgs: 1,
+    maxArgs: 255,
+    call: (args, ctx) => {
+      const booleans = collectBooleans(args, ctx);
+      return Array.isArray(booleans) ? booleans.some(Boolean) : booleans;
+    },
+  },
+  XOR: {
+    minArgs: 1,
+    maxArgs: 255,
+    call: (args, ctx) => {
+      const booleans = collectBooleans(args, ctx);
+      return Array.isArray(booleans) ? booleans.filter(Boolean).length % 2 === 1 : booleans;
+    },
+  },
+  NOT: {
+    minArgs: 1,
+    maxArgs: 1,
+    call: ([value], ctx) => {
+      const bool = toBoolean(toScalar(value, ctx));
+      return isError(bool) ? bool : !bool;
+    },
+  },
+  IFERROR: {
+    minArgs: 2,
+    maxArgs: 2,
+    lazy: true,
+    call: ([value, fallback], ctx) => {
+      const result = toScalar(value(), ctx);
+      return isError(result) ? fallback() : result;
+    },
+  },
+  IFNA: {
+    minArgs: 2,
+    maxArgs: 2,
+    lazy: true,
+    call: ([value, fallback], ctx) => {
+      const result = toScalar(value(), ctx);
+      return isError(result) && result.code === '#N/A' ? fallback() : result;
+    },
+  },
+  TRUE: { minArgs: 0, maxArgs: 0, call: () => true },
+  FALSE: { minArgs: 0, maxArgs: 0, call: () => false },
+};
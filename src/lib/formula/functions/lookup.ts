@@ -0,0 +1,307 @@
+import { toScalar, type EvaluationContext, type FormulaFunction, type FunctionCall } from '../evaluator';
+import { displayValue } from '../number-format';
+import { MAX_COLS, MAX_ROWS, parseRangeAddress, type RangeRef } from '../references';
+import {
+  compareValues,
+  errors,
+  isError,
+  isReference,
+  isUnion,
+  toBoolean,
+  toNumber,
+  type CellValue,
+  type FormulaError,
+  type Value,
+} from '../values';
+import { defaulted, optionalScalar, sizeOf, subRange, toGrid } from './helpers';
+import { binarySearch, createMatcher, sameType } from './matching';
+
+const describe = (value: CellValue) => (typeof value === 'string' ? `"${value}"` : displayValue(value));
+
+const notFound = (fn: string, lookup: CellValue) => errors.na(`${fn} could not find ${describe(lookup)}.`);
+
+/** Reads the lookup value; an empty lookup cell never matches anything. */
+const lookupValue = (value: Value, fn: string, ctx: EvaluationContext): CellValue => {
+  const lookup = toScalar(value, ctx);
+  if (lookup === null) return errors.na(`The ${fn} lookup value is empty.`);
+  return lookup;
+};
+
+const integerArg = (value: CellValue): number | FormulaError => {
+  const number = toNumber(value);
+  return isError(number) ? number : Math.trunc(number);
+};
+
+/** The shared body of VLOOKUP and HLOOKUP. */
+const tableLookup =
+  (fn: 'VLOOKUP' | 'HLOOKUP', horizontal: boolean): FunctionCall =>
+  ([lookupArg, table, indexArg, rangeLookupArg], ctx) => {
+    const lookup = lookupValue(lookupArg, fn, ctx);
+    if (isError(lookup)) return lookup;
+    const index = integerArg(toScalar(indexArg, ctx));
+    if (isError(index)) return index;
+    const approximate = toBoolean(optionalScalar(rangeLookupArg, ctx, true));
+    if (isError(approximate)) return approximate;
+
+    const size = sizeOf(table);
+    if (index < 1) return errors.value(`The ${horizontal ? 'row' : 'column'} index must be at least 1.`);
+    if (index > (horizontal ? size.rows : size.cols)) {
+      return errors.ref(`The ${horizontal ? 'row' : 'column'} index ${index} is outside the table.`);
+    }
+
+    const grid = toGrid(table, ctx);
+    const length = horizontal ? grid.cols : grid.rows;
+    const keyAt = (i: number) => (horizontal ? grid.get(0, i) : grid.get(i, 0));
+    let position = -1;
+    if (approximate) {
+      position = binarySearch(length, keyAt, lookup);
+    } else {
+      const matches = createMatcher(lookup, true);
+      for (let i = 0; i < length && position < 0; i++) {
+        if (matches(keyAt(i))) position = i;
+      }
+    }
+
+    if (position < 0) return notFound(fn, lookup);
+    return horizontal ? grid.get(index - 1, position) : grid.get(position, index - 1);
+  };
+
+/** Reads a one-row or one-column range as a vector; anything wider is rejected. */
+const toVector = (value: Value, ctx: EvaluationContext) => {
+  const size = sizeOf(value);
+  if (size.rows > 1 && size.cols > 1) return null;
+  const grid = toGrid(value, ctx);
+  const vertical = size.cols === 1;
+  return {
+    vertical,
+    declaredLength: vertical ? size.rows : size.cols,
+    length: vertical ? grid.rows : grid.cols,
+    get: (i: number) => (vertical ? grid.get(i, 0) : grid.get(0, i)),
+  };
+};
+
+const R1C1_ADDRESS = /^R(\d+)C(\d+)(?::R(\d+)C(\d+))?$/i;
+
+/** Reads INDIRECT's text as an A1 address such as `$B$2:B9`, or an absolute R1C1 address such as `R2C2:R9C2`. */
+const readAddress = (text: string, a1: boolean): RangeRef | null => {
+  if (a1) return parseRangeAddress(text.replace(/\s/g, ''));
+  const match = R1C1_ADDRESS.exec(text.trim());
+  if (!match) return null;
+  const [startRow, startCol, endRow = startRow, endCol = startCol] = match.slice(1).filter(Boolean).map(Number);
+  const cell = (row: number, col: number) => ({ row: row - 1, col: col - 1, absRow: true, absCol: true });
+  const range = { start: cell(startRow, startCol), end: cell(endRow, endCol) };
+  const inSheet = [range.start, range.end].every(ref => ref.row >= 0 && ref.row < MAX_ROWS && ref.col >= 0 && ref.col < MAX_COLS);
+  return inSheet ? range : null;
+};
+
+type MatchMode = 0 | -1 | 1 | 2;
+type SearchMode = 1 | -1 | 2 | -2;
+
+/**
+ * XLOOKUP and XMATCH's search. Returns the zero-based position of the match
+ * or -1. The "next smaller/larger" modes only consider values of the same type.
+ */
+const xSearch = (
+  lookup: CellValue,
+  length: number,
+  get: (i: number) => CellValue,
+  matchMode: MatchMode,
+  searchMode: SearchMode,
+): number => {
+  if (searchMode === 2 || searchMode === -2) {
+    const descending = searchMode === -2;
+    const position = binarySearch(length, get, lookup, descending);
+    if (position >= 0 && compareValues(get(position), lookup) === 0) return position;
+    if (matchMode === 0 || matchMode === 2) return -1;
+    // The binary search lands on the neighbour below (ascending) or above (descending) the lookup value.
+    const wantsNeighbour = descending ? matchMode === 1 : matchMode === -1;
+    const candidate = wantsNeighbour ? position : position + 1;
+    return candidate >= 0 && candidate < length && sameType(get(candidate), lookup) ? candidate : -1;
+  }
+
+  const matches = createMatcher(lookup, matchMode === 2);
+  let best = -1;
+  for (let step = 0; step < length; step++) {
+    const i = searchMode === -1 ? length - 1 - step : step;
+    const candidate = get(i);
+    if (matches(candidate)) return i;
+    if (matchMode === 0 || matchMode === 2 || !sameType(candidate, lookup)) continue;
+
+    const order = compareValues(candidate, lookup);
+    const onRightSide = matchMode === -1 ? order < 0 : order > 0;
+    const closer = best < 0 || (matchMode === -1 ? compareValues(candidate, get(best)) > 0 : compareValues(candidate, get(best)) < 0);
+    if (onRightSide && closer) best = i;
+  }
+  return best;
+};
+
+const readModes = (matchModeArg: Value | undefined, searchModeArg: Value | undefined, ctx: EvaluationContext) => {
+  const matchMode = integerArg(optionalScalar(matchModeArg, ctx, 0));
+  if (isError(matchMode)) return matchMode;
+  const searchMode = integerArg(optionalScalar(searchModeArg, ctx, 1));
+  if (isError(searchMode)) return searchMode;
+  if (![0, -1, 1, 2].includes(matchMode)) return errors.value('match_mode must be 0, -1, 1 or 2.');
+  if (![1, -1, 2, -2].includes(searchMode)) return errors.value('search_mode must be 1, -1, 2 or -2.');
+  if (matchMode === 2 && Math.abs(searchMode) === 2) return errors.value('Wildcards cannot be used with a binary search.');
+  return { matchMode: matchMode as MatchMode, searchMode: searchMode as SearchMode };
+};
+
+export const LOOKUP_FUNCTIONS: Record<string, FormulaFunction> = {
+  VLOOKUP: { minArgs: 3, maxArgs: 4, call: tableLookup('VLOOKUP', false) },
+  HLOOKUP: { minArgs: 3, maxArgs: 4, call: tableLookup('HLOOKUP', true) },
+  MATCH: {
+    minArgs: 2,
+    maxArgs: 3,
+    call: ([lookupArg, arrayArg, typeArg], ctx) => {
+      const lookup = lookupValue(lookupArg, 'MATCH', ctx);
+      if (isError(lookup)) return lookup;
+      const matchType = toNumber(optionalScalar(typeArg, ctx, 1));
+      if (isError(matchType)) return matchType;
+      const vector = toVector(arrayArg, ctx);
+      if (!vector) return errors.na('MATCH needs a single row or column to search.');
+
+      let position = -1;
+      if (matchType === 0) {
+        const matches = createMatcher(lookup, true);
+        for (let i = 0; i < vector.length && position < 0; i++) {
+          if (matches(vector.get(i))) position = i;
+        }
+      } else {
+        position = binarySearch(vector.length, vector.get, lookup, matchType < 0);
+      }
+      return position < 0 ? notFound('MATCH', lookup) : position + 1;
+    },
+  },
+  INDEX: {
+    minArgs: 2,
+    maxArgs: 4,
+    call: ([areas, rowArg, colArg, areaArg], ctx) => {
+      let row = integerArg(optionalScalar(rowArg, ctx, 0));
+      if (isError(row)) return row;
+      let col = integerArg(optionalScalar(colArg, ctx, 0));
+      if (isError(col)) return col;
+      const area = integerArg(optionalScalar(areaArg, ctx, 1));
+      if (isError(area)) return area;
+      // With a union such as (A1:B4,D1:E4), area_num picks which range to index into.
+      const count = isUnion(areas) ? areas.areas.length : 1;
+      if (area < 1 || area > count) return errors.ref(`INDEX has ${count} area(s) to choose from, not ${area}.`);
+      const array = isUnion(areas) ? areas.areas[area - 1] : areas;
+
+      const size = sizeOf(array);
+      // With a single row and one index, Excel reads that index as the column.
+      if (colArg === undefined && size.rows === 1 && size.cols > 1) [row, col] = [1, row];
+      if (row < 0 || col < 0) return errors.value('INDEX positions cannot be negative.');
+      if (row > size.rows || col > size.cols) return errors.ref('The INDEX position is outside the range.');
+
+      // A zero row or column selects the whole column or row.
+      return subRange(
+        array,
+        row === 0 ? 0 : row - 1,
+        col === 0 ? 0 : col - 1,
+        row === 0 ? size.rows : 1,
+        col === 0 ? size.cols : 1,
+      );
+    },
+  },
+  XLOOKUP: {
+    minArgs: 3,
+    maxArgs: 6,
+    call: ([lookupArg, lookupArray, returnArray, ifNotFound, matchModeArg, searchModeArg], ctx) => {
+      const lookup = toScalar(lookupArg, ctx);
+      if (isError(lookup)) return lookup;
+      const modes = readModes(matchModeArg, searchModeArg, ctx);
+      if (isError(modes)) return modes;
+      const vector = toVector(lookupArray, ctx);
+      if (!vector) return errors.value('XLOOKUP needs a single row or column to search.');
+
+      const returnSize = sizeOf(returnArray);
+      if ((vector.vertical ? returnSize.rows : returnSize.cols) !== vector.declaredLength) {
+        return errors.value('The lookup and return arrays must be the same length.');
+      }
+
+      const position = xSearch(lookup, vector.length, vector.get, modes.matchMode, modes.searchMode);
+      if (position < 0) {
+        return ifNotFound === undefined || ifNotFound === null ? notFound('XLOOKUP', lookup) : ifNotFound;
+      }
+      return vector.vertical
+        ? subRange(returnArray, position, 0, 1, returnSize.cols)
+        : subRange(returnArray, 0, position, returnSize.rows, 1);
+    },
+  },
+  XMATCH: {
+    minArgs: 2,
+    maxArgs: 4,
+    call: ([lookupArg, lookupArray, matchModeArg, searchModeArg], ctx) => {
+      const lookup = toScalar(lookupArg, ctx);
+      if (isError(lookup)) return lookup;
+      const modes = readModes(matchModeArg, searchModeArg, ctx);
+      if (isError(modes)) return modes;
+      const vector = toVector(lookupArray, ctx);
+      if (!vector) return errors.value('XMATCH needs a single row or column to search.');
+
+      const position = xSearch(lookup, vector.length, vector.get, modes.matchMode, modes.searchMode);
+      return position < 0 ? notFound('XMATCH', lookup) : position + 1;
+    },
+  },
+  OFFSET: {
+    minArgs: 3,
+    maxArgs: 5,
+    // The cells OFFSET reads depend on its arguments, so like Excel it recalculates after every edit.
+    volatile: true,
+    call: ([reference, rowsArg, colsArg, heightArg, widthArg], ctx) => {
+      if (isError(reference)) return reference;
+      if (!isReference(reference)) return errors.value('OFFSET needs a reference to start from.');
+      const rows = integerArg(toScalar(rowsArg, ctx));
+      if (isError(rows)) return rows;
+      const cols = integerArg(toScalar(colsArg, ctx));
+      if (isError(cols)) return cols;
+      const size = sizeOf(reference);
+      const height = integerArg(optionalScalar(defaulted(heightArg), ctx, size.rows));
+      if (isError(height)) return height;
+      const width = integerArg(optionalScalar(defaulted(widthArg), ctx, size.cols));
+      if (isError(width)) return width;
+      if (height < 1 || width < 1) return errors.ref('The height and width must be at least 1.');
+
+      const { start } = reference.range;
+      const top = start.row + rows;
+      const left = start.col + cols;
+      if (top < 0 || left < 0 || top + height > MAX_ROWS || left + width > MAX_COLS) {
+        return errors.ref('The offset reference falls outside the sheet.');
+      }
+      return subRange(reference, rows, cols, height, width);
+    },
+  },
+  INDIRECT: {
+    minArgs: 1,
+    maxArgs: 2,
+    volatile: true,
+    call: ([textArg, a1Arg], ctx) => {
+      const text = toScalar(textArg, ctx);
+      if (isError(text)) return text;
+      const a1 = toBoolean(optionalScalar(a1Arg, ctx, true));
+      if (isError(a1)) return a1;
+      const range = typeof text === 'string' ? readAddress(text, a1) : null;
+      if (!range) return errors.ref(`${describe(text)} is not a valid reference.`);
+      return { kind: 'reference' as const, range };
+    },
+  },
+  ROWS: {
+    minArgs: 1,
+    maxArgs: 1,
+    call: ([array]) => (isUnion(array) ? errors.ref('ROWS needs a single range.') : sizeOf(array).rows),
+  },
+  COLUMNS: {
+    minArgs: 1,
+    maxArgs: 1,
+    call: ([array]) => (isUnion(array) ? errors.ref('COLUMNS needs a single range.') : sizeOf(array).cols),
+  },
+  AREAS: {
+    minArgs: 1,
+    maxArgs: 1,
+    call: ([reference]) => {
+      if (isError(reference)) return reference;
+      if (isUnion(reference)) return reference.areas.length;
+      return isReference(reference) ? 1 : errors.value('AREAS needs a reference.');
+    },
+  },
+};
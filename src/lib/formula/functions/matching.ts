@@ -0,0 +1,81 @@
+import { compareValues, type CellValue } from '../values';
+
+/**
+ * Converts an Excel wildcard pattern to a regular expression: `*` matches any
+ * run of characters, `?` any single character, and `~` escapes the next one.
+ * Unanchored patterns match anywhere in the text, as SEARCH needs.
+ */
+export const wildcardToRegExp = (pattern: string, anchored = true): RegExp => {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '~' && i + 1 < pattern.length) {
+      source += escapeRegExp(pattern[++i]);
+    } else if (char === '*') {
+      source += '.*';
+    } else if (char === '?') {
+      source += '.';
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+  return new RegExp(anchored ? `^${source}$` : source, 'is');
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+export const hasWildcards = (pattern: string) => /[*?~]/.test(pattern);
+
+const typeOf = (value: CellValue) => (value === null ? 'blank' : typeof value);
+
+/** Whether two values are the same type, the precondition for any lookup match. */
+export const sameType = (left: CellValue, right: CellValue) => typeOf(left) === typeOf(right);
+
+/**
+ * Builds the equality test lookups use: values must share a type, text is
+ * compared case-insensitively, and wildcards apply only when asked for.
+ */
+export const createMatcher = (lookup: CellValue, useWildcards: boolean): ((candidate: CellValue) => boolean) => {
+  if (typeof lookup === 'string' && useWildcards && hasWildcards(lookup)) {
+    const pattern = wildcardToRegExp(lookup);
+    return candidate => typeof candidate === 'string' && pattern.test(candidate);
+  }
+  return candidate => sameType(candidate, lookup) && compareValues(candidate, lookup) === 0;
+};
+
+/**
+ * Excel's approximate-match binary search. Over values sorted ascending it
+ * finds the last one not greater than `lookup`; with `descending` it finds
+ * the last one not smaller. Values of a different type are skipped, as Excel
+ * does, so a stray text cell does not derail the search.
+ */
+export const binarySearch = (
+  length: number,
+  get: (index: number) => CellValue,
+  lookup: CellValue,
+  descending = false,
+): number => {
+  let low = 0;
+  let high = length - 1;
+  let found = -1;
+
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    let probe = mid;
+    while (probe >= low && !sameType(get(probe), lookup)) probe--;
+    if (probe < low) {
+      low = mid + 1;
+      continue;
+    }
+
+    const order = compareValues(get(probe), lookup);
+    // On a tie keep going right: Excel returns the last of several equal values.
+    if (descending ? order >= 0 : order <= 0) {
+      found = probe;
+      low = mid + 1;
+    } else {
+      high = probe - 1;
+    }
+  }
+  return found;
+};
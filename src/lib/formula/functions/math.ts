@@ -0,0 +1,163 @@
+import { toScalar, type FormulaFunction } from '../evaluator';
+import { errors, isError, toNumber, type CellValue, type FormulaError } from '../values';
+import { criteriaPairs, matchCriteria, scanExtent, sumAt } from './criteria';
+import { broadcast, collectNumbers, isMultiCell, sizeOf, toGrid } from './helpers';
+
+/**
+ * A function of one or more numbers, such as ROUND, with `fallbacks` for the
+ * optional arguments, in order, when they are left off. Given a range or array it works element by
+ * element and spills, as `=ROUND(A2:A9,0)` does in dynamic-array Excel.
+ */
+const numeric = (
+  minArgs: number,
+  maxArgs: number,
+  compute: (...numbers: number[]) => number | FormulaError,
+  fallbacks: number[] = [],
+): FormulaFunction => ({
+  minArgs,
+  maxArgs,
+  call: (args, ctx) => {
+    const apply = (values: CellValue[]): CellValue => {
+      const numbers: number[] = [];
+      for (const value of values) {
+        const number = toNumber(value);
+        if (isError(number)) return number;
+        numbers.push(number);
+      }
+      const result = compute(...numbers, ...fallbacks.slice(numbers.length - minArgs));
+      if (isError(result) || Number.isFinite(result)) return result;
+      return errors.num('The result is too large to represent.');
+    };
+    return args.some(isMultiCell) ? broadcast(args, ctx, apply) : apply(args.map(arg => toScalar(arg, ctx)));
+  },
+});
+
+/**
+ * Rounds to `digits` decimal places, or to tens, hundreds and so on when it is
+ * negative: to the nearer value with halves away from zero, or always away
+ * from or toward zero. The scaled number is read to Excel's 15 significant
+ * digits first, so 2.675 rounds to 2.68 rather than to the 2.67 its binary
+ * value, 2.67499…, would give.
+ */
+const roundTo = (number: number, digits: number, direction: 'nearest' | 'up' | 'down'): number => {
+  const places = Math.max(-308, Math.min(308, Math.trunc(digits)));
+  const scale = 10 ** Math.abs(places);
+  const scaled = Number((places >= 0 ? Math.abs(number) * scale : Math.abs(number) / scale).toPrecision(15));
+  // Too many places to change anything
+  if (!Number.isFinite(scaled)) return number;
+  const rounded =
+    direction === 'nearest' ? Math.floor(scaled + 0.5) : direction === 'up' ? Math.ceil(scaled) : Math.floor(scaled);
+  const result = places >= 0 ? rounded / scale : rounded * scale;
+  return number < 0 ? -result : result;
+};
+
+export const MATH_FUNCTIONS: Record<string, FormulaFunction> = {
+  ABS: numeric(1, 1, Math.abs),
+  INT: numeric(1, 1, Math.floor),
+  TRUNC: numeric(1, 2, (number, digits) => roundTo(number, digits, 'down'), [0]),
+  ROUND: numeric(2, 2, (number, digits) => roundTo(number, digits, 'nearest')),
+  ROUNDUP: numeric(2, 2, (number, digits) => roundTo(number, digits, 'up')),
+  ROUNDDOWN: numeric(2, 2, (number, digits) => roundTo(number, digits, 'down')),
+  // Like INT, MOD rounds the quotient down, so the result takes the divisor's sign: MOD(-3,2) is 1.
+  MOD: numeric(2, 2, (number, divisor) =>
+    divisor === 0 ? errors.div0('MOD cannot divide by zero.') : number - divisor * Math.floor(number / divisor),
+  ),
+  SIGN: numeric(1, 1, number => Math.sign(number) || 0),
+  SQRT: numeric(1, 1, number =>
+    number < 0 ? errors.num('SQRT cannot take the square root of a negative number.') : Math.sqrt(number),
+  ),
+  POWER: numeric(2, 2, (base, exponent) => {
+    if (base === 0 && exponent === 0) return errors.num('0 to the power of 0 is undefined.');
+    if (base === 0 && exponent < 0) return errors.div0('0 cannot be raised to a negative power.');
+    const result = base ** exponent;
+    return Number.isNaN(result) ? errors.num('A negative number cannot be raised to a fractional power.') : result;
+  }),
+  EXP: numeric(1, 1, Math.exp),
+  LN: numeric(1, 1, number =>
+    number <= 0 ? errors.num('LN needs a number greater than zero.') : Math.log(number),
+  ),
+  LOG: numeric(1, 2, (number, base) => {
+    if (number <= 0 || base <= 0) return errors.num('LOG needs a number and base greater than zero.');
+    if (base === 1) return errors.div0('A logarithm cannot have a base of 1.');
+    // Base 10 is worked out directly, so LOG(1000) is exactly 3
+    return base === 10 ? Math.log10(number) : Math.log(number) / Math.log(base);
+  }, [10]),
+  LOG10: numeric(1, 1, number =>
+    number <= 0 ? errors.num('LOG10 needs a number greater than zero.') : Math.log10(number),
+  ),
+  PI: { minArgs: 0, maxArgs: 0, call: () => Math.PI },
+  PRODUCT: {
+    minArgs: 1,
+    maxArgs: 255,
+    call: (args, ctx) => {
+      const numbers = collectNumbers(args, ctx);
+      if (isError(numbers)) return numbers;
+      // With no numbers to multiply, PRODUCT is 0 rather than 1.
+      return numbers.length === 0 ? 0 : numbers.reduce((product, value) => product * value, 1);
+    },
+  },
+  SUM: {
+    minArgs: 1,
+    maxArgs: 255,
+    call: (args, ctx) => {
+      const numbers = collectNumbers(args, ctx);
+      return isError(numbers) ? numbers : numbers.reduce((sum, value) => sum + value, 0);
+    },
+  },
+  SUMIF: {
+    minArgs: 2,
+    maxArgs: 3,
+    call: ([range, criterion, sumRange], ctx) => {
+      const match = matchCriteria([[range, toScalar(criterion, ctx)]], ctx);
+      if (isError(match)) return match;
+      const total = sumAt(sumRange ?? range, match.offsets, ctx);
+      return isError(total) ? total : total.sum;
+    },
+  },
+  SUMIFS: {
+    minArgs: 3,
+    maxArgs: 255,
+    call: ([sumRange, ...rest], ctx) => {
+      const pairs = criteriaPairs(rest, ctx);
+      if (isError(pairs)) return pairs;
+      const size = sizeOf(sumRange);
+      const criteriaSize = sizeOf(pairs[0][0]);
+      if (size.rows !== criteriaSize.rows || size.cols !== criteriaSize.cols) {
+        return errors.value('The sum range and criteria ranges must be the same size.');
+      }
+      const match = matchCriteria(pairs, ctx);
+      if (isError(match)) return match;
+      const total = sumAt(sumRange, match.offsets, ctx);
+      return isError(total) ? total : total.sum;
+    },
+  },
+  SUMPRODUCT: {
+    minArgs: 1,
+    maxArgs: 255,
+    call: (args, ctx) => {
+      const size = sizeOf(args[0]);
+      for (const arg of args) {
+        const other = sizeOf(arg);
+        if (other.rows !== size.rows || other.cols !== size.cols) {
+          return errors.value('SUMPRODUCT arrays must all be the same size.');
+        }
+      }
+      const extent = scanExtent(args, ctx);
+      const grids = args.map(arg => toGrid(arg, ctx));
+      let total = 0;
+      for (let row = 0; row < extent.rows; row++) {
+        for (let col = 0; col < extent.cols; col++) {
+          let product = 1;
+          for (const grid of grids) {
+            const value = grid.get(row, col);
+            if (isError(value)) return value;
+            // Anything that is not a number counts as zero.
+            product *= typeof value === 'number' ? value : 0;
+          }
+          total += product;
+        }
+      }
+      return total;
+    },
+  },
+};
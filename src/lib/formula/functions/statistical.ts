@@ -0,0 +1,197 @@
+import { toScalar, type EvaluationContext, type FormulaFunction, type FunctionCall } from '../evaluator';
+import { errors, isError, toNumber, type FormulaError, type Value } from '../values';
+import { criteriaPairs, matchCriteria, sumAt } from './criteria';
+import { collectNumbers, forEachValue, optionalScalar, toGrid } from './helpers';
+
+/** Wraps a reducer over the numbers in the arguments, passing errors straight through. */
+const numeric =
+  (reduce: (numbers: number[]) => number | FormulaError): FunctionCall =>
+  (args, ctx) => {
+    const numbers = collectNumbers(args, ctx);
+    return isError(numbers) ? numbers : reduce(numbers);
+  };
+
+const mean = (numbers: number[]) => numbers.reduce((sum, value) => sum + value, 0) / numbers.length;
+
+const variance = (sample: boolean) => (numbers: number[]) => {
+  const n = numbers.length;
+  if (n === 0 || (sample && n < 2)) return errors.div0('There are not enough numbers to compute a variance.');
+  const average = mean(numbers);
+  const squares = numbers.reduce((sum, value) => sum + (value - average) ** 2, 0);
+  return squares / (sample ? n - 1 : n);
+};
+
+const deviation = (sample: boolean) => (numbers: number[]) => {
+  const result = variance(sample)(numbers);
+  return isError(result) ? result : Math.sqrt(result);
+};
+
+const median = (numbers: number[]) => {
+  if (numbers.length === 0) return errors.num('There are no numbers to take the median of.');
+  const sorted = [...numbers].sort((a, b) => a - b);
+  const middle = sorted.length >> 1;
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+/** The most frequent number; ties go to the one that appears first. */
+const mode = (numbers: number[]) => {
+  const counts = new Map<number, number>();
+  let best: number | null = null;
+  let bestCount = 1;
+  for (const value of numbers) {
+    const count = (counts.get(value) ?? 0) + 1;
+    counts.set(value, count);
+    if (count > bestCount) {
+      best = value;
+      bestCount = count;
+    }
+  }
+  return best === null ? errors.na('No number appears more than once.') : best;
+};
+
+/** Only the numbers stored in ranges or arrays, as LARGE, SMALL and RANK read them. */
+const rangeNumbers = (value: Value, ctx: EvaluationContext): number[] | FormulaError => {
+  const numbers: number[] = [];
+  let error: FormulaError | null = null;
+  forEachValue([value], ctx, item => {
+    if (isError(item)) error ??= item;
+    else if (typeof item === 'number') numbers.push(item);
+  });
+  return error ?? numbers;
+};
+
+const kth =
+  (largest: boolean): FunctionCall =>
+  ([array, kArg], ctx) => {
+    const numbers = rangeNumbers(array, ctx);
+    if (isError(numbers)) return numbers;
+    const k = toNumber(toScalar(kArg, ctx));
+    if (isError(k)) return k;
+    const position = Math.ceil(k);
+    if (position < 1 || position > numbers.length) return errors.num(`k must be between 1 and ${numbers.length}.`);
+    const sorted = numbers.sort((a, b) => (largest ? b - a : a - b));
+    return sorted[position - 1];
+  };
+
+const rank: FunctionCall = ([numberArg, ref, orderArg], ctx) => {
+  const number = toNumber(toScalar(numberArg, ctx));
+  if (isError(number)) return number;
+  const order = toNumber(optionalScalar(orderArg, ctx, 0));
+  if (isError(order)) return order;
+  const numbers = rangeNumbers(ref, ctx);
+  if (isError(numbers)) return numbers;
+  if (!numbers.includes(number)) return errors.na('The number is not in the reference list.');
+  const ahead = numbers.filter(value => (order === 0 ? value > number : value < number)).length;
+  return ahead + 1;
+};
+
+/** MAXIFS / MINIFS: the extreme numeric value among cells meeting every criterion, or 0. */
+const extremeIfs =
+  (pickLarger: boolean): FunctionCall =>
+  ([target, ...rest], ctx) => {
+    const pairs = criteriaPairs(rest, ctx);
+    if (isError(pairs)) return pairs;
+    const match = matchCriteria(pairs, ctx);
+    if (isError(match)) return match;
+    const grid = toGrid(target, ctx);
+    let result: number | null = null;
+    for (const [row, col] of match.offsets) {
+      const value = grid.get(row, col);
+      if (isError(value)) return value;
+      if (typeof value !== 'number') continue;
+      if (result === null || (pickLarger ? value > result : value < result)) result = value;
+    }
+    return result ?? 0;
+  };
+
+const countIfs: FunctionCall = (args, ctx) => {
+  const pairs = criteriaPairs(args, ctx);
+  if (isError(pairs)) return pairs;
+  const match = matchCriteria(pairs, ctx);
+  return isError(match) ? match : match.offsets.length + match.blankMatches;
+};
+
+const averageOf = (total: { sum: number; count: number } | FormulaError) => {
+  if (isError(total)) return total;
+  return total.count === 0 ? errors.div0('No cells met the criteria.') : total.sum / total.count;
+};
+
+export const STATISTICAL_FUNCTIONS: Record<string, FormulaFunction> = {
+  AVERAGE: {
+    minArgs: 1,
+    maxArgs: 255,
+    call: numeric(numbers => (numbers.length === 0 ? errors.div0('There are no numbers to average.') : mean(numbers))),
+  },
+  MAX: { minArgs: 1, maxArgs: 255, call: numeric(numbers => numbers.reduce((max, value) => Math.max(max, value), numbers[0] ?? 0)) },
+  MIN: { minArgs: 1, maxArgs: 255, call: numeric(numbers => numbers.reduce((min, value) => Math.min(min, value), numbers[0] ?? 0)) },
+  MEDIAN: { minArgs: 1, maxArgs: 255, call: numeric(median) },
+  MODE: { minArgs: 1, maxArgs: 255, call: numeric(mode) },
+  'MODE.SNGL': { minArgs: 1, maxArgs: 255, call: numeric(mode) },
+  'STDEV.S': { minArgs: 1, maxArgs: 255, call: numeric(deviation(true)) },
+  'STDEV.P': { minArgs: 1, maxArgs: 255, call: numeric(deviation(false)) },
+  STDEV: { minArgs: 1, maxArgs: 255, call: numeric(deviation(true)) },
+  STDEVP: { minArgs: 1, maxArgs: 255, call: numeric(deviation(false)) },
+  'VAR.S': { minArgs: 1, maxArgs: 255, call: numeric(variance(true)) },
+  'VAR.P': { minArgs: 1, maxArgs: 255, call: numeric(variance(false)) },
+  VAR: { minArgs: 1, maxArgs: 255, call: numeric(variance(true)) },
+  VARP: { minArgs: 1, maxArgs: 255, call: numeric(variance(false)) },
+  COUNT: {
+    minArgs: 1,
+    maxArgs: 255,
+    call: (args, ctx) => {
+      let count = 0;
+      forEachValue(args, ctx, (value, fromReference) => {
+        if (typeof value === 'number') count++;
+        else if (!fromReference && value !== null && !isError(value) && !isError(toNumber(value))) count++;
+      });
+      return count;
+    },
+  },
+  COUNTA: {
+    minArgs: 1,
+    maxArgs: 255,
+    call: (args, ctx) => {
+      let count = 0;
+      forEachValue(args, ctx, (value, fromReference) => {
+        if (value !== null || !fromReference) count++;
+      });
+      return count;
+    },
+  },
+  COUNTBLANK: {
+    minArgs: 1,
+    maxArgs: 1,
+    call: ([range], ctx) => {
+      const match = matchCriteria([[range, '']], ctx);
+      return isError(match) ? match : match.offsets.length + match.blankMatches;
+    },
+  },
+  COUNTIF: { minArgs: 2, maxArgs: 2, call: countIfs },
+  COUNTIFS: { minArgs: 2, maxArgs: 255, call: countIfs },
+  AVERAGEIF: {
+    minArgs: 2,
+    maxArgs: 3,
+    call: ([range, criterion, averageRange], ctx) => {
+      const match = matchCriteria([[range, toScalar(criterion, ctx)]], ctx);
+      if (isError(match)) return match;
+      return averageOf(sumAt(averageRange ?? range, match.offsets, ctx));
+    },
+  },
+  AVERAGEIFS: {
+    minArgs: 3,
+    maxArgs: 255,
+    call: ([averageRange, ...rest], ctx) => {
+      const pairs = criteriaPairs(rest, ctx);
+      if (isError(pairs)) return pairs;
+      const match = matchCriteria(pairs, ctx);
+      if (isError(match)) return match;
+      return averageOf(sumAt(averageRange, match.offsets, ctx));
+    },
+  },
+  MAXIFS: { minArgs: 3, maxArgs: 255, call: extremeIfs(true) },
+  MINIFS: { minArgs: 3, maxArgs: 255, call: extremeIfs(false) },
+  LARGE: { minArgs: 2, maxArgs: 2, call: kth(true) },
+  SMALL: { minArgs: 2, maxArgs: 2, call: kth(false) },
+  'RANK.EQ': { minArgs: 2, maxArgs: 3, call: rank },
+  RANK: { minArgs: 2, maxArgs: 3, call: rank },
+};
@@ -0,0 +1,396 @@
+import { toScalar, type EvaluationContext, type FormulaFunction, type FunctionCall } from '../evaluator';
+import { displayValue } from '../number-format';
+import {
+  errors,
+  isError,
+  parseNumericText,
+  toBoolean,
+  toNumber,
+  toText,
+  type ArrayValue,
+  type CellValue,
+  type FormulaError,
+  type Value,
+} from '../values';
+import { defaulted, forEachValue, optionalScalar } from './helpers';
+import { wildcardToRegExp } from './matching';
+
+/** The longest text a cell can hold. */
+const MAX_TEXT_LENGTH = 32767;
+
+const textArg = (value: Value, ctx: EvaluationContext) => toText(toScalar(value, ctx));
+
+const integerArg = (value: Value | undefined, ctx: EvaluationContext, fallback: number): number | FormulaError => {
+  const number = toNumber(optionalScalar(value, ctx, fallback));
+  return isError(number) ? number : Math.trunc(number);
+};
+
+const tooLong = () => errors.value(`The result is longer than ${MAX_TEXT_LENGTH} characters.`);
+
+const limitLength = (text: string): CellValue => (text.length > MAX_TEXT_LENGTH ? tooLong() : text);
+
+/** Wraps a single-text transformation such as UPPER. */
+const transform = (change: (text: string) => string): FormulaFunction => ({
+  minArgs: 1,
+  maxArgs: 1,
+  call: ([value], ctx) => {
+    const text = textArg(value, ctx);
+    return isError(text) ? text : change(text);
+  },
+});
+
+/** The shared body of LEFT and RIGHT. */
+const slice =
+  (fromEnd: boolean): FunctionCall =>
+  ([value, countArg], ctx) => {
+    const text = textArg(value, ctx);
+    if (isError(text)) return text;
+    const count = integerArg(countArg, ctx, 1);
+    if (isError(count)) return count;
+    if (count < 0) return errors.value('The number of characters cannot be negative.');
+    return fromEnd ? text.slice(Math.max(0, text.length - count)) : text.slice(0, count);
+  };
+
+/** The shared body of FIND (case-sensitive) and SEARCH (case-insensitive, with wildcards). */
+const locate =
+  (fn: 'FIND' | 'SEARCH'): FunctionCall =>
+  ([findArg, withinArg, startArg], ctx) => {
+    const find = textArg(findArg, ctx);
+    if (isError(find)) return find;
+    const within = textArg(withinArg, ctx);
+    if (isError(within)) return within;
+    const start = integerArg(startArg, ctx, 1);
+    if (isError(start)) return start;
+    if (start < 1 || start > within.length + 1) {
+      return errors.value(`The start position must be between 1 and ${within.length + 1}.`);
+    }
+
+    let index: number;
+    if (fn === 'FIND') {
+      index = within.indexOf(find, start - 1);
+    } else {
+      const match = wildcardToRegExp(find, false).exec(within.slice(start - 1));
+      index = match ? match.index + start - 1 : -1;
+    }
+    return index < 0 ? errors.value(`${fn} could not find "${find}".`) : index + 1;
+  };
+
+/** Reads a delimiter argument, which may be a single text or a range of alternatives. */
+const delimitersArg = (value: Value, ctx: EvaluationContext): string[] | FormulaError => {
+  const delimiters: string[] = [];
+  let error: FormulaError | null = null;
+  forEachValue([value], ctx, item => {
+    const text = toText(item);
+    if (isError(text)) error ??= text;
+    else delimiters.push(text);
+  });
+  return error ?? delimiters;
+};
+
+interface Occurrence {
+  index: number;
+  length: number;
+}
+
+/** Finds every non-overlapping occurrence of any delimiter, scanning left to right. */
+const findOccurrences = (text: string, delimiters: string[], ignoreCase: boolean): Occurrence[] => {
+  const haystack = ignoreCase ? text.toUpperCase() : text;
+  const needles = delimiters.filter(delimiter => delimiter !== '').map(d => (ignoreCase ? d.toUpperCase() : d));
+  const occurrences: Occurrence[] = [];
+  let position = 0;
+  while (position <= haystack.length) {
+    let best: Occurrence | null = null;
+    for (const needle of needles) {
+      const index = haystack.indexOf(needle, position);
+      if (index >= 0 && (!best || index < best.index || (index === best.index && needle.length > best.length))) {
+        best = { index, length: needle.length };
+      }
+    }
+    if (!best) break;
+    occurrences.push(best);
+    position = best.index + best.length;
+  }
+  return occurrences;
+};
+
+/**
+ * The shared body of TEXTBEFORE and TEXTAFTER. A negative instance counts
+ * from the end of the text; `match_end` treats either end as a delimiter.
+ */
+const around =
+  (fn: 'TEXTBEFORE' | 'TEXTAFTER'): FunctionCall =>
+  ([value, delimiterArg, instanceArg, matchModeArg, matchEndArg, notFoundArg], ctx) => {
+    const text = textArg(value, ctx);
+    if (isError(text)) return text;
+    const delimiters = delimitersArg(delimiterArg, ctx);
+    if (isError(delimiters)) return delimiters;
+    const instance = integerArg(defaulted(instanceArg), ctx, 1);
+    if (isError(instance)) return instance;
+    const ignoreCase = integerArg(defaulted(matchModeArg), ctx, 0);
+    if (isError(ignoreCase)) return ignoreCase;
+    const matchEnd = toBoolean(optionalScalar(defaulted(matchEndArg), ctx, false));
+    if (isError(matchEnd)) return matchEnd;
+    if (instance === 0 || Math.abs(instance) > text.length + 1) {
+      return errors.value(`The instance number must be between 1 and ${text.length + 1}, or negative to count from the end.`);
+    }
+
+    // An empty delimiter matches straight away at the end the search starts from.
+    const split = (cut: number, length: number) => (fn === 'TEXTBEFORE' ? text.slice(0, cut) : text.slice(cut + length));
+    if (delimiters.every(delimiter => delimiter === '')) return instance > 0 ? split(0, 0) : split(text.length, 0);
+
+    const occurrences = findOccurrences(text, delimiters, ignoreCase === 1);
+    if (matchEnd) {
+      if (instance > 0) occurrences.push({ index: text.length, length: 0 });
+      else occurrences.unshift({ index: 0, length: 0 });
+    }
+    const chosen = occurrences[instance > 0 ? instance - 1 : occurrences.length + instance];
+    if (!chosen) {
+      return defaulted(notFoundArg) === undefined ? errors.na(`${fn} could not find the delimiter.`) : toScalar(notFoundArg, ctx);
+    }
+    return split(chosen.index, chosen.length);
+  };
+
+const splitText = (text: string, delimiters: string[], ignoreCase: boolean, ignoreEmpty: boolean): string[] => {
+  const parts: string[] = [];
+  let position = 0;
+  for (const { index, length } of findOccurrences(text, delimiters, ignoreCase)) {
+    parts.push(text.slice(position, index));
+    position = index + length;
+  }
+  parts.push(text.slice(position));
+  return ignoreEmpty ? parts.filter(part => part !== '') : parts;
+};
+
+const PROPER_WORD = /(^|[^A-Za-zÀ-ɏ])([A-Za-zÀ-ɏ]+)/g;
+
+export const TEXT_FUNCTIONS: Record<string, FormulaFunction> = {
+  LEFT: { minArgs: 1, maxArgs: 2, call: slice(false) },
+  RIGHT: { minArgs: 1, maxArgs: 2, call: slice(true) },
+  MID: {
+    minArgs: 3,
+    maxArgs: 3,
+    call: ([value, startArg, countArg], ctx) => {
+      const text = textArg(value, ctx);
+      if (isError(text)) return text;
+      const start = integerArg(startArg, ctx, 1);
+      if (isError(start)) return start;
+      const count = integerArg(countArg, ctx, 0);
+      if (isError(count)) return count;
+      if (start < 1) return errors.value('The start position must be at least 1.');
+      if (count < 0) return errors.value('The number of characters cannot be negative.');
+      return text.slice(start - 1, start - 1 + count);
+    },
+  },
+  LEN: {
+    minArgs: 1,
+    maxArgs: 1,
+    call: ([value], ctx) => {
+      const text = textArg(value, ctx);
+      return isError(text) ? text : text.length;
+    },
+  },
+  // TRIM only touches the space character, not tabs or non-breaking spaces.
+  TRIM: transform(text => text.replace(/ +/g, ' ').replace(/^ | $/g, '')),
+  // CLEAN removes the 7-bit non-printing characters, codes 0 to 31.
+  CLEAN: transform(text => [...text].filter(char => char.charCodeAt(0) > 31).join('')),
+  UPPER: transform(text => text.toUpperCase()),
+  LOWER: transform(text => text.toLowerCase()),
+  PROPER: transform(text =>
+    text.replace(PROPER_WORD, (_, before: string, word: string) => before + word[0].toUpperCase() + word.slice(1).toLowerCase()),
+  ),
+  CONCAT: {
+    minArgs: 1,
+    maxArgs: 253,
+    call: (args, ctx) => {
+      let result = '';
+      let error: FormulaError | null = null;
+      forEachValue(args, ctx, value => {
+        const text = toText(value);
+        if (isError(text)) error ??= text;
+        else result += text;
+      });
+      return error ?? limitLength(result);
+    },
+  },
+  CONCATENATE: {
+    minArgs: 1,
+    maxArgs: 255,
+    call: (args, ctx) => {
+      let result = '';
+      for (const arg of args) {
+        const text = textArg(arg, ctx);
+        if (isError(text)) return text;
+        result += text;
+      }
+      return limitLength(result);
+    },
+  },
+  TEXTJOIN: {
+    minArgs: 3,
+    maxArgs: 252,
+    call: ([delimiterArg, ignoreEmptyArg, ...args], ctx) => {
+      const delimiter = textArg(delimiterArg, ctx);
+      if (isError(delimiter)) return delimiter;
+      const ignoreEmpty = toBoolean(toScalar(ignoreEmptyArg, ctx));
+      if (isError(ignoreEmpty)) return ignoreEmpty;
+      const parts: string[] = [];
+      let error: FormulaError | null = null;
+      forEachValue(args, ctx, value => {
+        const text = toText(value);
+        if (isError(text)) error ??= text;
+        else if (!ignoreEmpty || text !== '') parts.push(text);
+      });
+      return error ?? limitLength(parts.join(delimiter));
+    },
+  },
+  SUBSTITUTE: {
+    minArgs: 3,
+    maxArgs: 4,
+    call: ([value, oldArg, newArg, instanceArg], ctx) => {
+      const text = textArg(value, ctx);
+      if (isError(text)) return text;
+      const oldText = textArg(oldArg, ctx);
+      if (isError(oldText)) return oldText;
+      const newText = textArg(newArg, ctx);
+      if (isError(newText)) return newText;
+      if (oldText === '') return text;
+      if (instanceArg === undefined) return limitLength(text.split(oldText).join(newText));
+
+      const instance = integerArg(instanceArg, ctx, 1);
+      if (isError(instance)) return instance;
+      if (instance < 1) return errors.value('The instance number must be at least 1.');
+      let index = -1;
+      for (let found = 0; found < instance; found++) {
+        index = text.indexOf(oldText, index + 1);
+        if (index < 0) return text;
+      }
+      return limitLength(text.slice(0, index) + newText + text.slice(index + oldText.length));
+    },
+  },
+  REPLACE: {
+    minArgs: 4,
+    maxArgs: 4,
+    call: ([value, startArg, countArg, newArg], ctx) => {
+      const text = textArg(value, ctx);
+      if (isError(text)) return text;
+      const start = integerArg(startArg, ctx, 1);
+      if (isError(start)) return start;
+      const count = integerArg(countArg, ctx, 0);
+      if (isError(count)) return count;
+      const newText = textArg(newArg, ctx);
+      if (isError(newText)) return newText;
+      if (start < 1) return errors.value('The start position must be at least 1.');
+      if (count < 0) return errors.value('The number of characters cannot be negative.');
+      return limitLength(text.slice(0, start - 1) + newText + text.slice(start - 1 + count));
+    },
+  },
+  FIND: { minArgs: 2, maxArgs: 3, call: locate('FIND') },
+  SEARCH: { minArgs: 2, maxArgs: 3, call: locate('SEARCH') },
+  VALUE: {
+    minArgs: 1,
+    maxArgs: 1,
+    call: ([value], ctx) => {
+      const scalar = toScalar(value, ctx);
+      if (isError(scalar) || typeof scalar === 'number') return scalar;
+      if (scalar === null) return 0;
+      const number = typeof scalar === 'string' ? parseNumericText(scalar) : null;
+      return number ?? errors.value(`The text "${displayValue(scalar)}" is not a number.`);
+    },
+  },
+  NUMBERVALUE: {
+    minArgs: 1,
+    maxArgs: 3,
+    call: ([value, decimalArg, groupArg], ctx) => {
+      const text = textArg(value, ctx);
+      if (isError(text)) return text;
+      const decimal = toText(optionalScalar(decimalArg, ctx, '.'));
+      if (isError(decimal)) return decimal;
+      const group = toText(optionalScalar(groupArg, ctx, ','));
+      if (isError(group)) return group;
+      if (decimal === '' || group === '' || decimal[0] === group[0]) {
+        return errors.value('The decimal and group separators must be different characters.');
+      }
+
+      // Only the first character of each separator counts; whitespace is ignored anywhere.
+      const compact = text.replace(/\s+/g, '');
+      if (compact === '') return 0;
+      const [whole, ...fractions] = compact.split(decimal[0]);
+      if (fractions.length > 1 || fractions.some(part => part.includes(group[0]))) {
+        return errors.value(`The text "${text}" is not a number.`);
+      }
+      const normalised = whole.split(group[0]).join('') + (fractions.length ? `.${fractions[0]}` : '');
+      return parseNumericText(normalised) ?? errors.value(`The text "${text}" is not a number.`);
+    },
+  },
+  EXACT: {
+    minArgs: 2,
+    maxArgs: 2,
+    call: ([leftArg, rightArg], ctx) => {
+      const left = textArg(leftArg, ctx);
+      if (isError(left)) return left;
+      const right = textArg(rightArg, ctx);
+      return isError(right) ? right : left === right;
+    },
+  },
+  REPT: {
+    minArgs: 2,
+    maxArgs: 2,
+    call: ([value, countArg], ctx) => {
+      const text = textArg(value, ctx);
+      if (isError(text)) return text;
+      const count = integerArg(countArg, ctx, 0);
+      if (isError(count)) return count;
+      if (count < 0) return errors.value('The number of repeats cannot be negative.');
+      if (text.length * count > MAX_TEXT_LENGTH) return tooLong();
+      return text.repeat(count);
+    },
+  },
+  TEXTBEFORE: { minArgs: 2, maxArgs: 6, call: around('TEXTBEFORE') },
+  TEXTAFTER: { minArgs: 2, maxArgs: 6, call: around('TEXTAFTER') },
+  TEXTSPLIT: {
+    minArgs: 2,
+    maxArgs: 6,
+    call: ([value, columnArg, rowArg, ignoreEmptyArg, matchModeArg, padArg], ctx) => {
+      const text = textArg(value, ctx);
+      if (isError(text)) return text;
+      const columnDelimiters = delimitersArg(columnArg, ctx);
+      if (isError(columnDelimiters)) return columnDelimiters;
+      const rowDelimiters = defaulted(rowArg) === undefined ? [] : delimitersArg(rowArg, ctx);
+      if (isError(rowDelimiters)) return rowDelimiters;
+      const ignoreEmpty = toBoolean(optionalScalar(defaulted(ignoreEmptyArg), ctx, false));
+      if (isError(ignoreEmpty)) return ignoreEmpty;
+      const ignoreCase = integerArg(defaulted(matchModeArg), ctx, 0);
+      if (isError(ignoreCase)) return ignoreCase;
+      if ([...columnDelimiters, ...rowDelimiters].every(delimiter => delimiter === '')) {
+        return errors.value('TEXTSPLIT needs at least one non-empty delimiter.');
+      }
+
+      const lines = splitText(text, rowDelimiters, ignoreCase === 1, ignoreEmpty).map(line =>
+        splitText(line, columnDelimiters, ignoreCase === 1, ignoreEmpty),
+      );
+      if (lines.length === 0) return errors.calc('TEXTSPLIT produced an empty result.');
+      // Short rows are padded, by default with #N/A, to keep the result rectangular.
+      const width = Math.max(...lines.map(line => line.length));
+      const pad = defaulted(padArg) === undefined ? errors.na() : toScalar(padArg, ctx);
+      const result: ArrayValue = {
+        kind: 'array',
+        values: lines.map(line => [...line, ...Array<CellValue>(width - line.length).fill(pad)]),
+      };
+      return result;
+    },
+  },
+  TEXT: {
+    minArgs: 2,
+    maxArgs: 2,
+    call: ([value, formatArg], ctx) => {
+      const scalar = toScalar(value, ctx);
+      if (isError(scalar)) return scalar;
+      const format = textArg(formatArg, ctx);
+      if (isError(format)) return format;
+      // Numeric text is formatted as the number it represents, as Excel does.
+      const number = typeof scalar === 'string' ? parseNumericText(scalar) : null;
+      return displayValue(number ?? scalar, format);
+    },
+  },
+};
+
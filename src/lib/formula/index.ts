@@ -0,0 +1,55 @@
+export { CalcClient, type CalcPort } from './calc-client';
+export { CalcHost } from './calc-host';
+export { completionsFor, formulaContextAt, type Completion, type FormulaContext } from './completion';
+export { dateTimeToSerial, dateToSerial, parseDateTime, serialToDate, systemClock, type Clock } from './dates';
+export { collectReferences, DependencyGraph, findStronglyConnected } from './dependency-graph';
+export {
+  CalcEngine,
+  isFormula,
+  parseCellFormula,
+  type CalcEngineOptions,
+  type CellEdit,
+  type IterativeCalculation,
+} from './engine';
+export { acceptsReferenceAt, REFERENCE_COLORS, referenceHighlights, type ReferenceHighlight } from './editor';
+export { evaluationSteps, type EvaluationStep } from './evaluation-steps';
+export { evaluate, toScalar, type EvaluationContext, type FormulaFunction, type FunctionCall } from './evaluator';
+export { FUNCTIONS } from './functions';
+export {
+  CANONICAL_LOCALE,
+  canonicalizeInput,
+  localizeInput,
+  LOCALES,
+  type FormulaLocale,
+  type LocaleId,
+} from './locale';
+export { checkName, type DefinedName } from './names';
+export { displayValue, formatNumber } from './number-format';
+export { parseFormula, type AstNode } from './parser';
+export {
+  cellKey,
+  columnToIndex,
+  formatCellAddress,
+  formatRangeAddress,
+  indexToColumn,
+  MAX_COLS,
+  MAX_ROWS,
+  normalizeRange,
+  parseCellAddress,
+  parseRangeAddress,
+  SHEET_NAME,
+  type CellRef,
+  type RangeRef,
+} from './references';
+export { FUNCTION_SIGNATURES, parameterIndex, type FunctionSignature } from './signatures';
+export { CANONICAL_SYNTAX, FormulaParseError, tokenize, type FormulaSyntax, type Token } from './tokenizer';
+export { fillContents, translateFormula, type FilledCell } from './translate';
+export {
+  ERROR_DESCRIPTIONS,
+  FormulaError,
+  isError,
+  parseCellInput,
+  type CellInput,
+  type CellValue,
+  type ErrorCode,
+} from './values';
@@ -0,0 +1,183 @@
+import { systemClock, type Clock } from './dates';
+import { CANONICAL_SYNTAX, tokenizeUnfinished, type FormulaSyntax } from './tokenizer';
+import { parseCellInput } from './values';
+
+/**
+ * How a regional version of Excel reads and writes formulas, numbers and
+ * dates. Cells are always stored in the en-US form the engine reads, so a
+ * workbook calculates and grades the same whichever locale it was typed in;
+ * a locale only changes what the candidate types and sees.
+ */
+export interface FormulaLocale extends FormulaSyntax {
+  id: LocaleId;
+  label: string;
+  thousandsSeparator: string;
+  /** Whether dates are typed day first, as `19/10/2026`, or month first, as `10/19/2026`. */
+  dateOrder: 'MDY' | 'DMY';
+  dateSeparator: string;
+  /** The format code cells with Excel's built-in short date, `m/d/yyyy`, are shown with. */
+  shortDate: string;
+}
+
+export type LocaleId = 'en-US' | 'en-GB' | 'de-DE' | 'fr-FR';
+
+export const LOCALES: Record<LocaleId, FormulaLocale> = {
+  'en-US': {
+    id: 'en-US',
+    label: 'English (United States)',
+    argumentSeparator: ',',
+    decimalSeparator: '.',
+    arrayColumnSeparator: ',',
+    arrayRowSeparator: ';',
+    thousandsSeparator: ',',
+    dateOrder: 'MDY',
+    dateSeparator: '/',
+    shortDate: 'm/d/yyyy',
+  },
+  'en-GB': {
+    id: 'en-GB',
+    label: 'English (United Kingdom)',
+    argumentSeparator: ',',
+    decimalSeparator: '.',
+    arrayColumnSeparator: ',',
+    arrayRowSeparator: ';',
+    thousandsSeparator: ',',
+    dateOrder: 'DMY',
+    dateSeparator: '/',
+    shortDate: 'dd/mm/yyyy',
+  },
+  'de-DE': {
+    id: 'de-DE',
+    label: 'Deutsch (Deutschland)',
+    argumentSeparator: ';',
+    decimalSeparator: ',',
+    arrayColumnSeparator: '.',
+    arrayRowSeparator: ';',
+    thousandsSeparator: '.',
+    dateOrder: 'DMY',
+    dateSeparator: '.',
+    shortDate: 'dd\\.mm\\.yyyy',
+  },
+  'fr-FR': {
+    id: 'fr-FR',
+    label: 'Français (France)',
+    argumentSeparator: ';',
+    decimalSeparator: ',',
+    arrayColumnSeparator: '.',
+    arrayRowSeparator: ';',
+    thousandsSeparator: ' ',
+    dateOrder: 'DMY',
+    dateSeparator: '/',
+    shortDate: 'dd/mm/yyyy',
+  },
+};
+
+/** The locale cells are stored in. */
+export const CANONICAL_LOCALE = LOCALES['en-US'];
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/** Rewrites a formula's separators token by token, leaving anything that can't be read yet as it was typed. */
+const convertFormula = (formula: string, from: FormulaSyntax, to: FormulaSyntax): string => {
+  const source = formula.slice(1);
+  let converted = '=';
+  let pos = 0;
+  for (const token of tokenizeUnfinished(source, from)) {
+    converted += source.slice(pos, token.start);
+    if (token.type === 'number') converted += token.value.replace('.', to.decimalSeparator);
+    else if (token.type === 'comma') converted += to.argumentSeparator;
+    else if (token.type === 'columnSeparator') converted += to.arrayColumnSeparator;
+    else if (token.type === 'rowSeparator') converted += to.arrayRowSeparator;
+    else converted += source.slice(token.start, token.end);
+    pos = token.end;
+  }
+  return converted + source.slice(pos);
+};
+
+/** Swaps the decimal and thousands separators of a number written in one locale for another's. */
+const swapSeparators = (text: string, from: FormulaLocale, to: FormulaLocale) =>
+  [...text]
+    .map(char =>
+      char === from.decimalSeparator ? to.decimalSeparator : char === from.thousandsSeparator ? to.thousandsSeparator : char,
+    )
+    .join('');
+
+/**
+ * A number written in `locale`, with an optional percent sign. The number ends in a
+ * digit or the decimal separator, so a space before `%` isn't read as a French
+ * thousands separator.
+ */
+const numberPattern = (locale: FormulaLocale) => {
+  const separators = escapeRegExp(locale.decimalSeparator + locale.thousandsSeparator);
+  const decimal = escapeRegExp(locale.decimalSeparator);
+  return new RegExp(`^([+-]?[\\d${separators}]*[\\d${decimal}](?:e[+-]?\\d+)?)(\\s*%)?$`, 'i');
+};
+
+/** Writes a number typed in one locale in another's separators, keeping a percent sign, and any space before it, as typed. */
+const convertNumber = (text: string, from: FormulaLocale, to: FormulaLocale): string | null => {
+  const match = numberPattern(from).exec(text);
+  return match && swapSeparators(match[1], from, to) + (match[2] ?? '');
+};
+
+const datePattern = (separator: string) => {
+  const sep = escapeRegExp(separator);
+  return new RegExp(`^(\\d{1,2})${sep}(\\d{1,2})${sep}(\\d{2}|\\d{4})(?!\\d)(\\s.*)?$`);
+};
+
+/**
+ * Fills in the current year on a date typed as just a day and month, `1.5` in
+ * de-DE or `5/1` in en-US, which Excel reads as that day of this year.
+ */
+const completeDate = (text: string, locale: FormulaLocale, clock: Clock): string | null => {
+  const sep = locale.dateSeparator;
+  const match = new RegExp(`^(\\d{1,2})${escapeRegExp(sep)}(\\d{1,2})(\\s.*)?$`).exec(text);
+  return match && `${match[1]}${sep}${match[2]}${sep}${clock().getFullYear()}${match[3] ?? ''}`;
+};
+
+/** Text Excel en-US reads as a number or a month-first date, which another locale may read differently. */
+const CANONICAL_NUMERIC = /^\s*[+-]?[\d.,]+(e[+-]?\d+)?\s*%?\s*$|^\s*\d{1,2}[-/]\d{1,2}[-/]\d/i;
+
+const isNumber = (raw: string) => typeof parseCellInput(raw).value === 'number';
+
+/** Swaps the day and month of a date typed in one order into the other, keeping the year and any time as typed. */
+const swapDate = (text: string, separator: string, to: string): string | null => {
+  const match = datePattern(separator).exec(text);
+  return match && `${match[2]}${to}${match[1]}${to}${match[3]}${match[4] ?? ''}`;
+};
+
+/**
+ * Turns what a candidate typed in `locale` into the text stored in the cell:
+ * `=ROUND(A1;2)` becomes `=ROUND(A1,2)`, `1.299,99` becomes `1,299.99` and
+ * `19.10.2026` becomes `10/19/2026`. A day and month typed without a year are
+ * stored with `clock`'s year, so `1.5` in de-DE becomes `5/1/2026`. Text the
+ * locale doesn't read as a number or date, but en-US would, is stored with a
+ * leading `'` so it stays text.
+ */
+export const canonicalizeInput = (typed: string, locale: FormulaLocale, clock: Clock = systemClock): string => {
+  if (typed.startsWith("'")) return typed;
+  if (locale.id === CANONICAL_LOCALE.id) {
+    const date = completeDate(typed, locale, clock);
+    return date !== null && isNumber(date) ? date : typed;
+  }
+  if (typed.startsWith('=')) return convertFormula(typed, locale, CANONICAL_SYNTAX);
+  const number = convertNumber(typed, locale, CANONICAL_LOCALE);
+  if (number !== null && isNumber(number)) return number;
+  if (locale.dateOrder === 'DMY') {
+    const date = swapDate(completeDate(typed, locale, clock) ?? typed, locale.dateSeparator, '/');
+    if (date !== null && isNumber(date)) return date;
+  }
+  return CANONICAL_NUMERIC.test(typed) && isNumber(typed) ? `'${typed}` : typed;
+};
+
+/** Turns a cell's stored text into what a candidate working in `locale` sees and edits, reversing canonicalizeInput. */
+export const localizeInput = (raw: string, locale: FormulaLocale): string => {
+  if (locale.id === CANONICAL_LOCALE.id) return raw;
+  if (raw.startsWith('=')) return convertFormula(raw, CANONICAL_SYNTAX, locale);
+  const candidates = raw.startsWith("'")
+    ? [raw.slice(1)]
+    : [
+        convertNumber(raw, CANONICAL_LOCALE, locale),
+        locale.dateOrder === 'DMY' ? swapDate(raw, '/', locale.dateSeparator) : null,
+      ];
+  return candidates.find(typed => typed !== null && canonicalizeInput(typed, locale) === raw) ?? raw;
+};
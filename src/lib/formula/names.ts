@@ -0,0 +1,28 @@
+import { parseCellAddress } from './references';
+
+/** A workbook-level defined name, such as `Prices` for `=Sheet1!$C$2:$C$9`. */
+export interface DefinedName {
+  name: string;
+  /** The formula the name stands for, with its leading `=`. */
+  refersTo: string;
+}
+
+const NAME_PATTERN = /^[A-Z_\\][A-Z0-9_.\\]*$/i;
+const MAX_NAME_LENGTH = 255;
+
+/**
+ * Checks a proposed name against Excel's rules and returns why it is not
+ * allowed, or `null` if it is fine. Names cannot look like cell addresses, so
+ * `Q1_Sales` is allowed but `Q1` and `Tax2024` (column TAX, row 2024) are not.
+ */
+export const checkName = (name: string): string | null => {
+  if (name === '') return 'A name cannot be empty.';
+  if (name.length > MAX_NAME_LENGTH) return `A name can be at most ${MAX_NAME_LENGTH} characters long.`;
+  if (!NAME_PATTERN.test(name)) {
+    return 'A name must start with a letter, underscore or backslash and contain only letters, digits, underscores and periods.';
+  }
+  const upper = name.toUpperCase();
+  if (upper === 'TRUE' || upper === 'FALSE') return `${name} is a logical value, not a name.`;
+  if (parseCellAddress(name) || /^(R\d*C\d*|R\d*|C\d*)$/i.test(name)) return `${name} looks like a cell reference.`;
+  return null;
+};
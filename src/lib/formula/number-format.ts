@@ -0,0 +1,389 @@
+import { DAY_NAMES, dayOfWeek, MAX_SERIAL, MONTH_NAMES, serialToDate } from './dates';
+import { CANONICAL_LOCALE, type FormulaLocale } from './locale';
+import { formatGeneral, isError, type CellValue } from './values';
+
+/**
+ * An interpreter for Excel number format codes such as `#,##0.00`,
+ * `0.0%`, `"$"#,##0_);("$"#,##0)`, `0.00E+00` or `d-mmm-yyyy h:mm AM/PM`.
+ * The grid renders cells through it and TEXT() uses it, so both always agree.
+ */
+
+type DateUnit = 'y' | 'm' | 'd' | 'h' | 'minute' | 's';
+
+type FormatToken =
+  | { kind: 'literal'; text: string }
+  | { kind: 'digit'; char: '0' | '#' | '?' }
+  | { kind: 'point' }
+  | { kind: 'comma' }
+  | { kind: 'percent' }
+  | { kind: 'exponent'; showPlus: boolean }
+  | { kind: 'text' }
+  | { kind: 'general' }
+  | { kind: 'date'; unit: DateUnit; length: number }
+  | { kind: 'elapsed'; unit: 'h' | 'm' | 's'; length: number }
+  | { kind: 'ampm'; am: string; pm: string };
+
+interface FormatSection {
+  tokens: FormatToken[];
+}
+
+const splitSections = (code: string): string[] => {
+  const sections: string[] = [];
+  let current = '';
+  let quoted = false;
+  let bracketed = false;
+  for (let i = 0; i < code.length; i++) {
+    const char = code[i];
+    if (char === '\\' && !quoted && i + 1 < code.length) {
+      current += char + code[++i];
+      continue;
+    }
+    if (char === '"') quoted = !quoted;
+    else if (char === '[' && !quoted) bracketed = true;
+    else if (char === ']' && !quoted) bracketed = false;
+    if (char === ';' && !quoted && !bracketed) {
+      sections.push(current);
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+  sections.push(current);
+  return sections;
+};
+
+const tokenizeSection = (section: string): FormatSection => {
+  const tokens: FormatToken[] = [];
+  const literal = (text: string) => tokens.push({ kind: 'literal', text });
+
+  for (let i = 0; i < section.length; i++) {
+    const char = section[i];
+    const rest = section.slice(i);
+
+    if (char === '"') {
+      const end = section.indexOf('"', i + 1);
+      literal(section.slice(i + 1, end < 0 ? undefined : end));
+      i = end < 0 ? section.length : end;
+    } else if (char === '\\') {
+      literal(section[++i] ?? '');
+    } else if (char === '_') {
+      // `_x` leaves room for the width of x; a space is close enough here.
+      i++;
+      literal(' ');
+    } else if (char === '*') {
+      // `*x` repeats x to fill the column, which a fixed-width cell does not need.
+      i++;
+    } else if (char === '[') {
+      const end = section.indexOf(']', i);
+      const content = section.slice(i + 1, end < 0 ? undefined : end);
+      // `[$€-407]` is a currency symbol with a locale and `[h]` an elapsed time; colours and conditions are not rendered.
+      if (content.startsWith('$')) literal(content.slice(1).split('-')[0]);
+      else if (/^(h+|m+|s+)$/i.test(content)) {
+        tokens.push({ kind: 'elapsed', unit: content[0].toLowerCase() as 'h' | 'm' | 's', length: content.length });
+      }
+      i = end < 0 ? section.length : end;
+    } else if (/^general/i.test(rest)) {
+      tokens.push({ kind: 'general' });
+      i += 'general'.length - 1;
+    } else if (char === '0' || char === '#' || char === '?') {
+      tokens.push({ kind: 'digit', char });
+    } else if (char === '.') {
+      tokens.push({ kind: 'point' });
+    } else if (char === ',') {
+      tokens.push({ kind: 'comma' });
+    } else if (char === '%') {
+      tokens.push({ kind: 'percent' });
+    } else if ((char === 'E' || char === 'e') && (section[i + 1] === '+' || section[i + 1] === '-')) {
+      tokens.push({ kind: 'exponent', showPlus: section[i + 1] === '+' });
+      i++;
+    } else if (char === '@') {
+      tokens.push({ kind: 'text' });
+    } else if (/^(am\/pm|a\/p)/i.test(rest)) {
+      const marker = /^(am\/pm|a\/p)/i.exec(rest)[0];
+      const [am, pm] = marker.split('/');
+      tokens.push({ kind: 'ampm', am, pm });
+      i += marker.length - 1;
+    } else if (/[ymdhs]/i.test(char)) {
+      let length = 1;
+      while (section[i + length]?.toLowerCase() === char.toLowerCase()) length++;
+      tokens.push({ kind: 'date', unit: char.toLowerCase() as DateUnit, length });
+      i += length - 1;
+    } else {
+      literal(char);
+    }
+  }
+  resolveMinutes(tokens);
+  return { tokens };
+};
+
+/** `m` means minutes rather than months straight after an hour or just before a second. */
+const resolveMinutes = (tokens: FormatToken[]) => {
+  const timeParts = tokens.filter(token => token.kind === 'date' || token.kind === 'elapsed');
+  timeParts.forEach((token, index) => {
+    if (token.kind !== 'date' || token.unit !== 'm' || token.length > 2) return;
+    const previous = timeParts[index - 1];
+    const next = timeParts[index + 1];
+    if ((previous && previous.unit === 'h') || (next && next.unit === 's')) token.unit = 'minute';
+  });
+};
+
+const isDateSection = (tokens: FormatToken[]) =>
+  tokens.some(token => token.kind === 'date' || token.kind === 'elapsed' || token.kind === 'ampm');
+
+const pad = (value: number, length: number) => String(value).padStart(length, '0');
+
+/** Formats a date serial with a section made of date and time codes. */
+const renderDate = (serial: number, tokens: FormatToken[], locale: FormulaLocale): string => {
+  // Digits after a point are fractions of a second; the time is rounded to what is shown.
+  const pointIndex = tokens.findIndex(token => token.kind === 'point');
+  let fractionDigits = 0;
+  while (pointIndex >= 0 && tokens[pointIndex + 1 + fractionDigits]?.kind === 'digit') fractionDigits++;
+  const scale = 10 ** fractionDigits;
+
+  const totalTicks = Math.round(serial * 86400 * scale);
+  let days = Math.floor(serial);
+  let ticks = totalTicks - days * 86400 * scale;
+  if (ticks >= 86400 * scale) {
+    days++;
+    ticks -= 86400 * scale;
+  }
+  const { year, month, day } = serialToDate(days);
+  const seconds = Math.floor(ticks / scale);
+  const hours = Math.floor(seconds / 3600);
+  const twelveHour = tokens.some(token => token.kind === 'ampm');
+
+  const output: string[] = [];
+  for (let index = 0; index < tokens.length; index++) {
+    const token = tokens[index];
+    switch (token.kind) {
+      case 'date':
+        switch (token.unit) {
+          case 'y':
+            output.push(token.length <= 2 ? pad(year % 100, 2) : pad(year, 4));
+            break;
+          case 'm':
+            if (token.length <= 2) output.push(pad(month, token.length));
+            else if (token.length === 3) output.push(MONTH_NAMES[month - 1].slice(0, 3));
+            else if (token.length === 4) output.push(MONTH_NAMES[month - 1]);
+            else output.push(MONTH_NAMES[month - 1][0]);
+            break;
+          case 'd':
+            if (token.length <= 2) output.push(pad(day, token.length));
+            else output.push(token.length === 3 ? DAY_NAMES[dayOfWeek(days)].slice(0, 3) : DAY_NAMES[dayOfWeek(days)]);
+            break;
+          case 'h':
+            output.push(pad(twelveHour ? hours % 12 || 12 : hours, Math.min(token.length, 2)));
+            break;
+          case 'minute':
+            output.push(pad(Math.floor(seconds / 60) % 60, Math.min(token.length, 2)));
+            break;
+          case 's':
+            output.push(pad(seconds % 60, Math.min(token.length, 2)));
+            break;
+        }
+        break;
+      case 'elapsed': {
+        const totalSeconds = Math.floor(totalTicks / scale);
+        const amount = token.unit === 'h' ? totalSeconds / 3600 : token.unit === 'm' ? totalSeconds / 60 : totalSeconds;
+        output.push(pad(Math.floor(amount), token.length));
+        break;
+      }
+      case 'ampm':
+        output.push(hours < 12 ? token.am : token.pm);
+        break;
+      case 'point':
+        if (index === pointIndex && fractionDigits > 0) {
+          output.push(`${locale.decimalSeparator}${pad(ticks % scale, fractionDigits)}`);
+          index += fractionDigits;
+        }
+        break;
+      case 'digit':
+        output.push(token.char === '0' ? '0' : '');
+        break;
+      case 'comma':
+        output.push(',');
+        break;
+      case 'percent':
+        output.push('%');
+        break;
+      case 'literal':
+        output.push(token.text);
+        break;
+    }
+  }
+  return output.join('');
+};
+
+/** Rounds half away from zero in decimal, so 1.005 becomes 1.01 as it does in Excel. */
+const roundDecimal = (value: number, decimals: number) => {
+  const rounded = Number(`${Math.round(Number(`${value}e${decimals}`))}e-${decimals}`);
+  return Number.isFinite(rounded) ? rounded : value;
+};
+
+const groupThousands = (digits: string, separator: string) => digits.replace(/\B(?=(\d{3})+(?!\d))/g, separator);
+
+const localGeneral = (value: number, locale: FormulaLocale) => formatGeneral(value).replace('.', locale.decimalSeparator);
+
+/** Formats a non-negative number with one section's tokens, using the locale's decimal and thousands separators. */
+const renderNumber = (value: number, tokens: FormatToken[], locale: FormulaLocale): string => {
+  if (tokens.some(token => token.kind === 'general')) {
+    return tokens
+      .map(token => (token.kind === 'general' ? localGeneral(value, locale) : token.kind === 'literal' ? token.text : ''))
+      .join('');
+  }
+
+  const digitIndexes = tokens.flatMap((token, index) => (token.kind === 'digit' ? [index] : []));
+  if (digitIndexes.length === 0) {
+    return tokens.map(token => (token.kind === 'literal' ? token.text : token.kind === 'percent' ? '%' : '')).join('');
+  }
+
+  const pointIndex = tokens.findIndex(token => token.kind === 'point');
+  const exponentIndex = tokens.findIndex(token => token.kind === 'exponent');
+  const numberEnd = exponentIndex >= 0 ? exponentIndex : tokens.length;
+  const integerEnd = pointIndex >= 0 && pointIndex < numberEnd ? pointIndex : numberEnd;
+
+  // A comma between integer digits groups thousands; one after the last digit divides by 1000.
+  let grouping = false;
+  let scale = 1;
+  const skip = new Set<number>();
+  tokens.forEach((token, index) => {
+    if (token.kind !== 'comma' || index > numberEnd || !digitIndexes.some(digit => digit < index)) return;
+    if (digitIndexes.some(digit => digit > index && digit < integerEnd)) {
+      grouping = true;
+      skip.add(index);
+    } else if (!digitIndexes.some(digit => digit > index && digit < numberEnd)) {
+      scale *= 1000;
+      skip.add(index);
+    }
+  });
+
+  const percentCount = tokens.filter(token => token.kind === 'percent').length;
+  let scaled = (value * 100 ** percentCount) / scale;
+
+  const integerDigits = digitIndexes.filter(index => index < integerEnd);
+  const fractionDigits = digitIndexes.filter(index => index > integerEnd && index < numberEnd);
+  const exponentDigits = digitIndexes.filter(index => index > numberEnd);
+
+  let exponent = 0;
+  if (exponentIndex >= 0 && scaled !== 0) {
+    exponent = Math.floor(Math.log10(scaled)) - Math.max(0, integerDigits.length - 1);
+    scaled /= 10 ** exponent;
+    if (roundDecimal(scaled, fractionDigits.length) >= 10 ** Math.max(1, integerDigits.length)) {
+      scaled /= 10;
+      exponent++;
+    }
+  }
+
+  const rounded = roundDecimal(scaled, fractionDigits.length);
+  const [integerText, fractionText = ''] = rounded.toFixed(fractionDigits.length).split('.');
+  const minimumIntegerDigits = integerDigits.filter(index => (tokens[index] as { char: string }).char !== '#').length;
+  let integerPart = integerText === '0' && minimumIntegerDigits === 0 ? '' : integerText;
+
+  // Integer digits fill placeholders right to left; extra digits go in front of the first one.
+  const integerOutput = new Map<number, string>();
+  if (grouping) {
+    integerPart = integerPart.padStart(minimumIntegerDigits, '0');
+    integerDigits.forEach((index, position) => integerOutput.set(index, position === 0 ? groupThousands(integerPart, locale.thousandsSeparator) : ''));
+  } else {
+    let remaining = integerPart;
+    for (let position = integerDigits.length - 1; position >= 0; position--) {
+      const index = integerDigits[position];
+      const char = (tokens[index] as { char: string }).char;
+      let text = remaining.slice(-1);
+      remaining = remaining.slice(0, -1);
+      if (position === 0) {
+        text = remaining + text;
+        remaining = '';
+      }
+      if (text === '') text = char === '0' ? '0' : char === '?' ? ' ' : '';
+      integerOutput.set(index, text);
+    }
+  }
+
+  // Fraction digits fill left to right; optional placeholders drop trailing zeros.
+  const fractionOutput = new Map<number, string>();
+  let trailing = true;
+  for (let position = fractionDigits.length - 1; position >= 0; position--) {
+    const index = fractionDigits[position];
+    const char = (tokens[index] as { char: string }).char;
+    const digit = fractionText[position] ?? '0';
+    if (trailing && digit === '0' && char !== '0') {
+      fractionOutput.set(index, char === '?' ? ' ' : '');
+    } else {
+      trailing = false;
+      fractionOutput.set(index, digit);
+    }
+  }
+
+  // The exponent is padded to its placeholder count; the first placeholder takes any extra digits.
+  const exponentText = String(Math.abs(exponent)).padStart(exponentDigits.length, '0');
+  const overflow = exponentText.length - exponentDigits.length;
+  const exponentOutput = new Map<number, string>();
+  exponentDigits.forEach((index, position) =>
+    exponentOutput.set(index, position === 0 ? exponentText.slice(0, overflow + 1) : exponentText[overflow + position]),
+  );
+
+  return tokens
+    .map((token, index) => {
+      if (skip.has(index)) return '';
+      switch (token.kind) {
+        case 'digit':
+          return integerOutput.get(index) ?? fractionOutput.get(index) ?? exponentOutput.get(index) ?? '';
+        case 'point':
+          return index === pointIndex ? locale.decimalSeparator : '';
+        case 'percent':
+          return '%';
+        case 'exponent':
+          return `E${exponent < 0 ? '-' : token.showPlus ? '+' : ''}`;
+        case 'comma':
+          return locale.thousandsSeparator;
+        case 'literal':
+          return token.text;
+        default:
+          return '';
+      }
+    })
+    .join('');
+};
+
+const renderText = (text: string, section: FormatSection | undefined) => {
+  if (!section || !section.tokens.some(token => token.kind === 'text')) return text;
+  return section.tokens.map(token => (token.kind === 'text' ? text : token.kind === 'literal' ? token.text : '')).join('');
+};
+
+/**
+ * Formats a number with a format code, choosing the positive, negative or zero
+ * section. Codes are always written in en-US, as TEXT() reads them; `locale`
+ * only changes the separators the result is shown with.
+ */
+export const formatNumber = (value: number, code: string, locale: FormulaLocale = CANONICAL_LOCALE): string => {
+  if (!Number.isFinite(value)) return '#NUM!';
+  // Sections are positive;negative;zero;text — a fourth section only applies to text.
+  const sections = splitSections(code).slice(0, 3).map(tokenizeSection);
+  const render = (number: number, { tokens }: FormatSection) =>
+    isDateSection(tokens) ? renderDate(number, tokens, locale) : renderNumber(number, tokens, locale);
+
+  if (value < 0 && sections.length >= 2) return render(-value, sections[1]);
+  if (value === 0 && sections.length >= 3) return render(0, sections[2]);
+  // Excel fills a cell with # when it holds a negative date or one past 9999-12-31.
+  if (isDateSection(sections[0].tokens) && (value < 0 || value >= MAX_SERIAL + 1)) return '#'.repeat(8);
+  const formatted = render(Math.abs(value), sections[0]);
+  // A single section shows negatives with a leading minus, unless rounding reached zero.
+  return value < 0 && /[1-9]/.test(formatted) ? `-${formatted}` : formatted;
+};
+
+/**
+ * Formats any cell value the way a cell with the given number format displays
+ * it in `locale`, where the built-in short date follows the locale's order.
+ */
+export const displayValue = (value: CellValue, code = 'General', locale: FormulaLocale = CANONICAL_LOCALE): string => {
+  if (value === null) return '';
+  if (isError(value)) return value.code;
+  if (typeof value === 'boolean') return value ? 'TRUE' : 'FALSE';
+  if (typeof value === 'string') {
+    const sections = splitSections(code);
+    return renderText(value, sections.length >= 4 ? tokenizeSection(sections[3]) : tokenizeSection(sections[0]));
+  }
+  if (/^general$/i.test(code)) return localGeneral(value, locale);
+  return formatNumber(value, code.replace(/^m\/d\/yyyy/, locale.shortDate), locale);
+};
@@ -0,0 +1,258 @@
+import { parseCellAddress, parseRangeAddress, SHEET_NAME, type CellRef, type RangeRef } from './references';
+import { FormulaParseError, tokenize, type Token } from './tokenizer';
+import type { ErrorCode } from './values';
+
+interface NodeSpan {
+  /** Offsets into the formula source (without the leading `=`). */
+  start: number;
+  end: number;
+}
+
+export type BinaryOperator = '+' | '-' | '*' | '/' | '^' | '&' | '=' | '<>' | '<' | '>' | '<=' | '>=';
+
+export type AstNode = NodeSpan &
+  (
+    | { type: 'number'; value: number }
+    | { type: 'string'; value: string }
+    | { type: 'boolean'; value: boolean }
+    | { type: 'error'; code: ErrorCode }
+    | { type: 'cell'; ref: CellRef }
+    | { type: 'range'; ref: RangeRef }
+    /** `F2#`: the spill range of the dynamic array anchored at `ref`. */
+    | { type: 'spill'; ref: CellRef }
+    | { type: 'name'; name: string }
+    | { type: 'function'; name: string; args: AstNode[] }
+    /** `LAMBDA(x,x+1)(5)`: calls the LAMBDA an expression returns. */
+    | { type: 'call'; callee: AstNode; args: AstNode[] }
+    | { type: 'missing' }
+    | { type: 'unary'; operator: '+' | '-'; operand: AstNode }
+    | { type: 'percent'; operand: AstNode }
+    | { type: 'binary'; operator: BinaryOperator; left: AstNode; right: AstNode }
+    /** `A1:INDEX(...)`: the smallest range covering two references. */
+    | { type: 'span'; left: AstNode; right: AstNode }
+    /** `B:B 3:3`: the cells two references share. */
+    | { type: 'intersect'; left: AstNode; right: AstNode }
+    /** `(A1:A3,C1:C3)`: several references treated as one argument. */
+    | { type: 'union'; areas: AstNode[] }
+    /** `{1,2;3,4}`: an array constant, row by row; its values are all literals. */
+    | { type: 'array'; rows: AstNode[][] }
+  );
+
+// Binding powers follow Excel's documented operator precedence, lowest first.
+const INFIX_PRECEDENCE: Record<BinaryOperator, number> = {
+  '=': 10,
+  '<>': 10,
+  '<': 10,
+  '>': 10,
+  '<=': 10,
+  '>=': 10,
+  '&': 20,
+  '+': 30,
+  '-': 30,
+  '*': 40,
+  '/': 40,
+  '^': 50,
+};
+const PERCENT_PRECEDENCE = 60;
+const PREFIX_PRECEDENCE = 70;
+// The reference operators bind tightest: `:` before intersection (a space).
+const REFERENCE_PRECEDENCE: Record<string, number> = { ' ': 80, ':': 90 };
+
+class Parser {
+  private index = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): AstNode {
+    const node = this.parseExpression(0);
+    const next = this.peek();
+    if (next.type !== 'eof') throw new FormulaParseError(`Unexpected "${next.value}"`, next.start);
+    return node;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    return this.tokens[this.index++];
+  }
+
+  private expect(type: Token['type'], description: string): Token {
+    const token = this.next();
+    if (token.type !== type) throw new FormulaParseError(`Expected ${description}`, token.start);
+    return token;
+  }
+
+  private parseExpression(minPrecedence: number): AstNode {
+    let left = this.parsePrefix();
+
+    for (;;) {
+      const token = this.peek();
+      if (token.type !== 'operator') break;
+
+      const referencePrecedence = REFERENCE_PRECEDENCE[token.value];
+      if (referencePrecedence !== undefined) {
+        if (referencePrecedence < minPrecedence) break;
+        this.next();
+        const right = this.parseExpression(referencePrecedence + 1);
+        const type = token.value === ':' ? 'span' : 'intersect';
+        left = { type, left, right, start: left.start, end: right.end };
+        continue;
+      }
+
+      if (token.value === '%') {
+        if (PERCENT_PRECEDENCE < minPrecedence) break;
+        this.next();
+        left = { type: 'percent', operand: left, start: left.start, end: token.end };
+        continue;
+      }
+
+      const operator = token.value as BinaryOperator;
+      const precedence = INFIX_PRECEDENCE[operator];
+      if (precedence === undefined || precedence < minPrecedence) break;
+      this.next();
+      // Every Excel binary operator is left-associative, including `^`.
+      const right = this.parseExpression(precedence + 1);
+      left = { type: 'binary', operator, left, right, start: left.start, end: right.end };
+    }
+
+    return left;
+  }
+
+  private parsePrefix(): AstNode {
+    const token = this.peek();
+    if (token.type === 'operator' && (token.value === '-' || token.value === '+')) {
+      this.next();
+      const operand = this.parseExpression(PREFIX_PRECEDENCE);
+      return { type: 'unary', operator: token.value, operand, start: token.start, end: operand.end };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): AstNode {
+    const token = this.next();
+    const span = { start: token.start, end: token.end };
+
+    switch (token.type) {
+      case 'number':
+        return { type: 'number', value: Number(token.value), ...span };
+      case 'string':
+        return { type: 'string', value: token.value, ...span };
+      case 'boolean':
+        return { type: 'boolean', value: token.value === 'TRUE', ...span };
+      case 'error':
+        return { type: 'error', code: token.value as ErrorCode, ...span };
+      case 'reference':
+        return this.parseReference(token);
+      case 'name':
+        return { type: 'name', name: token.value, ...span };
+      case 'function':
+        return this.parseFunction(token);
+      case 'lbrace':
+        return this.parseArray(token);
+      case 'lparen': {
+        const inner = this.parseExpression(0);
+        // Inside parentheses a comma is the union operator rather than an argument separator.
+        const areas = [inner];
+        while (this.peek().type === 'comma') {
+          this.next();
+          areas.push(this.parseExpression(0));
+        }
+        const close = this.expect('rparen', '")"');
+        if (areas.length > 1) return { type: 'union', areas, start: token.start, end: close.end };
+        return { ...inner, start: token.start, end: close.end };
+      }
+      default:
+        throw new FormulaParseError(token.type === 'eof' ? 'Unexpected end of formula' : `Unexpected "${token.value}"`, token.start);
+    }
+  }
+
+  private parseReference(token: Token): AstNode {
+    const span = { start: token.start, end: token.end };
+    const bang = token.value.lastIndexOf('!');
+    if (bang >= 0) {
+      const sheet = token.value.slice(0, bang).replace(/^'(.*)'$/, '$1').replace(/''/g, "'");
+      if (sheet.toUpperCase() !== SHEET_NAME.toUpperCase()) {
+        throw new FormulaParseError(`There is no sheet named "${sheet}"`, token.start);
+      }
+    }
+    const address = token.value.slice(bang + 1);
+    if (address.endsWith('#')) {
+      const anchor = parseCellAddress(address.slice(0, -1));
+      if (!anchor) throw new FormulaParseError(`Invalid reference "${token.value}"`, token.start);
+      return { type: 'spill', ref: anchor, ...span };
+    }
+    const ref = parseRangeAddress(address);
+    if (!ref) throw new FormulaParseError(`Invalid reference "${token.value}"`, token.start);
+    if (!address.includes(':')) return { type: 'cell', ref: ref.start, ...span };
+    return { type: 'range', ref, ...span };
+  }
+
+  /** Columns are separated by commas and rows by semicolons, and every row must be as long as the first. */
+  private parseArray(open: Token): AstNode {
+    const rows: AstNode[][] = [[]];
+    for (;;) {
+      rows[rows.length - 1].push(this.parseArrayValue());
+      const separator = this.next();
+      if (separator.type === 'rowSeparator') {
+        rows.push([]);
+      } else if (separator.type === 'rbrace') {
+        if (rows.some(row => row.length !== rows[0].length)) {
+          throw new FormulaParseError('Every row of an array constant must have the same number of values', open.start);
+        }
+        return { type: 'array', rows, start: open.start, end: separator.end };
+      } else if (separator.type !== 'columnSeparator') {
+        throw new FormulaParseError('Expected ",", ";" or "}"', separator.start);
+      }
+    }
+  }
+
+  /** A number, which may have a sign, text, a logical value or an error; an array constant holds nothing else. */
+  private parseArrayValue(): AstNode {
+    const token = this.peek();
+    if (token.type === 'operator' && (token.value === '-' || token.value === '+')) {
+      this.next();
+      const number = this.expect('number', 'a number');
+      const value = Number(number.value);
+      return { type: 'number', value: token.value === '-' ? -value : value, start: token.start, end: number.end };
+    }
+    if (!['number', 'string', 'boolean', 'error'].includes(token.type)) {
+      throw new FormulaParseError('An array constant can only hold numbers, text, logical values and errors', token.start);
+    }
+    return this.parsePrimary();
+  }
+
+  private parseFunction(token: Token): AstNode {
+    const { args, end } = this.parseArguments();
+    let node: AstNode = { type: 'function', name: token.value, args, start: token.start, end };
+    // A call that returns a LAMBDA can be called straight away: LAMBDA(x,x+1)(5).
+    while (this.peek().type === 'lparen') {
+      const call = this.parseArguments();
+      node = { type: 'call', callee: node, args: call.args, start: token.start, end: call.end };
+    }
+    return node;
+  }
+
+  private parseArguments(): { args: AstNode[]; end: number } {
+    this.expect('lparen', '"("');
+    const args: AstNode[] = [];
+
+    if (this.peek().type === 'rparen') return { args, end: this.next().end };
+
+    for (;;) {
+      const current = this.peek();
+      if (current.type === 'comma' || current.type === 'rparen') {
+        args.push({ type: 'missing', start: current.start, end: current.start });
+      } else {
+        args.push(this.parseExpression(0));
+      }
+      const separator = this.next();
+      if (separator.type === 'rparen') return { args, end: separator.end };
+      if (separator.type !== 'comma') throw new FormulaParseError('Expected "," or ")"', separator.start);
+    }
+  }
+}
+
+/** Parses a formula body, i.e. the cell text after its leading `=`. */
+export const parseFormula = (source: string): AstNode => new Parser(tokenize(source)).parse();
@@ -0,0 +1,161 @@
+/** A single cell, zero-based. `absRow`/`absCol` record `$` anchors as written. */
+export interface CellRef {
+  row: number;
+  col: number;
+  absRow: boolean;
+  absCol: boolean;
+}
+
+/** A rectangular block of cells, zero-based and inclusive on both ends. */
+export interface RangeRef {
+  start: CellRef;
+  end: CellRef;
+}
+
+/** Excel's sheet size limits: rows 1–1048576 and columns A–XFD. */
+export const MAX_ROWS = 1048576;
+export const MAX_COLS = 16384;
+
+/** The assessment workbook's only sheet. References may name it, as in `Sheet1!$C$2:$C$9`. */
+export const SHEET_NAME = 'Sheet1';
+
+const CELL_ADDRESS = /^(\$?)([A-Z]+)(\$?)(\d+)$/i;
+const COLUMN_ADDRESS = /^(\$?)([A-Z]+)$/i;
+const ROW_ADDRESS = /^(\$?)(\d+)$/;
+
+export const columnToIndex = (letters: string): number => {
+  let index = 0;
+  for (const letter of letters.toUpperCase()) {
+    index = index * 26 + (letter.charCodeAt(0) - 64);
+  }
+  return index - 1;
+};
+
+export const indexToColumn = (index: number): string => {
+  let letters = '';
+  let remaining = index + 1;
+  while (remaining > 0) {
+    const digit = (remaining - 1) % 26;
+    letters = String.fromCharCode(65 + digit) + letters;
+    remaining = Math.floor((remaining - 1) / 26);
+  }
+  return letters;
+};
+
+export const parseCellAddress = (address: string): CellRef | null => {
+  const match = CELL_ADDRESS.exec(address);
+  if (!match) return null;
+  const row = parseInt(match[4], 10) - 1;
+  const col = columnToIndex(match[2]);
+  if (row < 0 || row >= MAX_ROWS || col >= MAX_COLS) return null;
+  return {
+    row,
+    col,
+    absCol: match[1] === '$',
+    absRow: match[3] === '$',
+  };
+};
+
+/** Parses `A1`, `A1:B9`, a whole-column range such as `A:B` or a whole-row range such as `1:3`. */
+export const parseRangeAddress = (address: string): RangeRef | null => {
+  const [first, second, ...rest] = address.split(':');
+  if (rest.length > 0) return null;
+  if (second === undefined) {
+    const cell = parseCellAddress(first);
+    return cell ? { start: cell, end: cell } : null;
+  }
+
+  const startColumn = COLUMN_ADDRESS.exec(first);
+  const endColumn = COLUMN_ADDRESS.exec(second);
+  if (startColumn && endColumn) {
+    const column = (match: RegExpExecArray, row: number): CellRef => ({
+      row,
+      col: columnToIndex(match[2]),
+      absCol: match[1] === '$',
+      absRow: true,
+    });
+    const range = normalizeRange({ start: column(startColumn, 0), end: column(endColumn, MAX_ROWS - 1) });
+    return range.end.col < MAX_COLS ? range : null;
+  }
+
+  const startRow = ROW_ADDRESS.exec(first);
+  const endRow = ROW_ADDRESS.exec(second);
+  if (startRow && endRow) {
+    const row = (match: RegExpExecArray, col: number): CellRef => ({
+      row: parseInt(match[2], 10) - 1,
+      col,
+      absCol: true,
+      absRow: match[1] === '$',
+    });
+    const range = normalizeRange({ start: row(startRow, 0), end: row(endRow, MAX_COLS - 1) });
+    return range.start.row >= 0 && range.end.row < MAX_ROWS ? range : null;
+  }
+
+  const start = parseCellAddress(first);
+  const end = parseCellAddress(second);
+  return start && end ? normalizeRange({ start, end }) : null;
+};
+
+export const isWholeColumn = (range: RangeRef) => range.start.row === 0 && range.end.row === MAX_ROWS - 1;
+
+export const isWholeRow = (range: RangeRef) => range.start.col === 0 && range.end.col === MAX_COLS - 1;
+
+export const formatCellAddress = (ref: Pick<CellRef, 'row' | 'col'> & Partial<CellRef>): string =>
+  `${ref.absCol ? '$' : ''}${indexToColumn(ref.col)}${ref.absRow ? '$' : ''}${ref.row + 1}`;
+
+export const formatRangeAddress = (range: RangeRef): string => {
+  if (isWholeColumn(range)) {
+    const column = (ref: CellRef) => `${ref.absCol ? '$' : ''}${indexToColumn(ref.col)}`;
+    return `${column(range.start)}:${column(range.end)}`;
+  }
+  if (isWholeRow(range)) {
+    const row = (ref: CellRef) => `${ref.absRow ? '$' : ''}${ref.row + 1}`;
+    return `${row(range.start)}:${row(range.end)}`;
+  }
+  const { start, end } = range;
+  if (start.row === end.row && start.col === end.col) return formatCellAddress(start);
+  return `${formatCellAddress(start)}:${formatCellAddress(end)}`;
+};
+
+export const cellKey = (row: number, col: number) => `${row},${col}`;
+
+/** Returns the range with its corners ordered top-left to bottom-right. */
+export const normalizeRange = (range: RangeRef): RangeRef => ({
+  start: {
+    ...range.start,
+    row: Math.min(range.start.row, range.end.row),
+    col: Math.min(range.start.col, range.end.col),
+  },
+  end: {
+    ...range.end,
+    row: Math.max(range.start.row, range.end.row),
+    col: Math.max(range.start.col, range.end.col),
+  },
+});
+
+/** The smallest range covering both ranges, as the `:` operator builds from `A1:INDEX(...)`. */
+export const boundingRange = (a: RangeRef, b: RangeRef): RangeRef => ({
+  start: {
+    row: Math.min(a.start.row, b.start.row),
+    col: Math.min(a.start.col, b.start.col),
+    absRow: false,
+    absCol: false,
+  },
+  end: {
+    row: Math.max(a.end.row, b.end.row),
+    col: Math.max(a.end.col, b.end.col),
+    absRow: false,
+    absCol: false,
+  },
+});
+
+/** The cells two ranges share, as the space operator finds them, or `null` if they don't overlap. */
+export const intersectRanges = (a: RangeRef, b: RangeRef): RangeRef | null => {
+  const start = { row: Math.max(a.start.row, b.start.row), col: Math.max(a.start.col, b.start.col) };
+  const end = { row: Math.min(a.end.row, b.end.row), col: Math.min(a.end.col, b.end.col) };
+  if (start.row > end.row || start.col > end.col) return null;
+  return {
+    start: { ...start, absRow: false, absCol: false },
+    end: { ...end, absRow: false, absCol: false },
+  };
+};
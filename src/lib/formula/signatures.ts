@@ -0,0 +1,296 @@
+/** How a function's arguments are shown while typing a formula, as Excel's formula tooltips do. */
+export interface FunctionSignature {
+  /** Parameter names as Excel shows them, optional ones in brackets. */
+  params: string[];
+  /** How many trailing parameters repeat, as SUM's `[number2], ...` does; 0 when none do. */
+  repeats?: number;
+  description: string;
+}
+
+const NUMBERS: FunctionSignature['params'] = ['number1', '[number2]'];
+
+export const FUNCTION_SIGNATURES: Record<string, FunctionSignature> = {
+  // Date and time
+  DATE: { params: ['year', 'month', 'day'], description: 'Returns the serial number of a particular date.' },
+  DATEVALUE: { params: ['date_text'], description: 'Converts a date in the form of text to a serial number.' },
+  TIME: { params: ['hour', 'minute', 'second'], description: 'Returns the serial number of a particular time.' },
+  YEAR: { params: ['serial_number'], description: 'Returns the year of a date, an integer in the range 1900-9999.' },
+  MONTH: { params: ['serial_number'], description: 'Returns the month, a number from 1 (January) to 12 (December).' },
+  DAY: { params: ['serial_number'], description: 'Returns the day of the month, a number from 1 to 31.' },
+  WEEKDAY: { params: ['serial_number', '[return_type]'], description: 'Returns a number from 1 to 7 identifying the day of the week of a date.' },
+  EDATE: { params: ['start_date', 'months'], description: 'Returns the serial number of the date that is the indicated number of months before or after the start date.' },
+  EOMONTH: { params: ['start_date', 'months'], description: 'Returns the serial number of the last day of the month before or after a specified number of months.' },
+  DATEDIF: { params: ['start_date', 'end_date', 'unit'], description: 'Calculates the number of days, months or years between two dates.' },
+  NETWORKDAYS: { params: ['start_date', 'end_date', '[holidays]'], description: 'Returns the number of whole workdays between two dates.' },
+  'NETWORKDAYS.INTL': {
+    params: ['start_date', 'end_date', '[weekend]', '[holidays]'],
+    description: 'Returns the number of whole workdays between two dates with custom weekend parameters.',
+  },
+  WORKDAY: { params: ['start_date', 'days', '[holidays]'], description: 'Returns the serial number of the date before or after a specified number of workdays.' },
+  'WORKDAY.INTL': {
+    params: ['start_date', 'days', '[weekend]', '[holidays]'],
+    description: 'Returns the serial number of the date before or after a specified number of workdays with custom weekend parameters.',
+  },
+  TODAY: { params: [], description: 'Returns the current date formatted as a date.' },
+  NOW: { params: [], description: 'Returns the current date and time formatted as a date and time.' },
+
+  // Dynamic arrays
+  FILTER: { params: ['array', 'include', '[if_empty]'], description: 'Filters a range or array.' },
+  SORT: { params: ['array', '[sort_index]', '[sort_order]', '[by_col]'], description: 'Sorts a range or array.' },
+  SORTBY: {
+    params: ['array', 'by_array1', '[sort_order1]', '[by_array2]', '[sort_order2]'],
+    repeats: 2,
+    description: 'Sorts a range or array based on the values in a corresponding range or array.',
+  },
+  UNIQUE: { params: ['array', '[by_col]', '[exactly_once]'], description: 'Returns the unique values from a range or array.' },
+  SEQUENCE: { params: ['rows', '[columns]', '[start]', '[step]'], description: 'Returns a sequence of numbers.' },
+  RANDARRAY: { params: ['[rows]', '[columns]', '[min]', '[max]', '[integer]'], description: 'Returns an array of random numbers.' },
+
+  // Financial
+  PMT: { params: ['rate', 'nper', 'pv', '[fv]', '[type]'], description: 'Calculates the payment for a loan based on constant payments and a constant interest rate.' },
+  IPMT: {
+    params: ['rate', 'per', 'nper', 'pv', '[fv]', '[type]'],
+    description: 'Returns the interest payment for a given period for an investment, based on periodic, constant payments and a constant interest rate.',
+  },
+  PPMT: {
+    params: ['rate', 'per', 'nper', 'pv', '[fv]', '[type]'],
+    description: 'Returns the payment on the principal for a given investment based on periodic, constant payments and a constant interest rate.',
+  },
+  FV: { params: ['rate', 'nper', 'pmt', '[pv]', '[type]'], description: 'Returns the future value of an investment based on periodic, constant payments and a constant interest rate.' },
+  PV: { params: ['rate', 'nper', 'pmt', '[fv]', '[type]'], description: 'Returns the present value of an investment: the total amount that a series of future payments is worth now.' },
+  NPER: { params: ['rate', 'pmt', 'pv', '[fv]', '[type]'], description: 'Returns the number of periods for an investment based on periodic, constant payments and a constant interest rate.' },
+  RATE: { params: ['nper', 'pmt', 'pv', '[fv]', '[type]', '[guess]'], description: 'Returns the interest rate per period of a loan or an investment.' },
+  NPV: {
+    params: ['rate', 'value1', '[value2]'],
+    repeats: 1,
+    description: 'Returns the net present value of an investment based on a discount rate and a series of future payments and income.',
+  },
+  XNPV: { params: ['rate', 'values', 'dates'], description: 'Returns the net present value for a schedule of cash flows.' },
+  IRR: { params: ['values', '[guess]'], description: 'Returns the internal rate of return for a series of cash flows.' },
+  XIRR: { params: ['values', 'dates', '[guess]'], description: 'Returns the internal rate of return for a schedule of cash flows.' },
+  MIRR: {
+    params: ['values', 'finance_rate', 'reinvest_rate'],
+    description: 'Returns the internal rate of return for a series of periodic cash flows, considering both cost of investment and interest on reinvestment of cash.',
+  },
+  SLN: { params: ['cost', 'salvage', 'life'], description: 'Returns the straight-line depreciation of an asset for one period.' },
+  DDB: {
+    params: ['cost', 'salvage', 'life', 'period', '[factor]'],
+    description: 'Returns the depreciation of an asset for a specified period using the double-declining balance method.',
+  },
+
+  // Information
+  ISERROR: { params: ['value'], description: 'Checks whether a value is an error, and returns TRUE or FALSE.' },
+  ISERR: { params: ['value'], description: 'Checks whether a value is an error other than #N/A, and returns TRUE or FALSE.' },
+  ISNA: { params: ['value'], description: 'Checks whether a value is #N/A, and returns TRUE or FALSE.' },
+  ISBLANK: { params: ['value'], description: 'Checks whether a reference is to an empty cell, and returns TRUE or FALSE.' },
+  ISNUMBER: { params: ['value'], description: 'Checks whether a value is a number, and returns TRUE or FALSE.' },
+  ISTEXT: { params: ['value'], description: 'Checks whether a value is text, and returns TRUE or FALSE.' },
+  ISLOGICAL: { params: ['value'], description: 'Checks whether a value is a logical value (TRUE or FALSE), and returns TRUE or FALSE.' },
+  'ERROR.TYPE': { params: ['error_val'], description: 'Returns a number matching an error value.' },
+  NA: { params: [], description: 'Returns the #N/A error value.' },
+
+  // LAMBDA and LET
+  LET: {
+    params: ['name1', 'name_value1', 'calculation_or_name2', '[name_value2]', '[calculation_or_name3]'],
+    repeats: 2,
+    description: 'Assigns names to calculation results to allow storing intermediate calculations, values or defining names inside a formula.',
+  },
+  LAMBDA: {
+    params: ['[parameter_or_calculation]'],
+    repeats: 1,
+    description: 'Creates a function value, which can be called within formulas.',
+  },
+  MAP: {
+    params: ['array', 'lambda_or_array'],
+    repeats: 1,
+    description: 'Returns an array formed by mapping each value in the array(s) to a new value by applying a LAMBDA.',
+  },
+  REDUCE: { params: ['[initial_value]', 'array', 'lambda'], description: 'Reduces an array to an accumulated value by applying a LAMBDA to each value.' },
+  BYROW: { params: ['array', 'lambda'], description: 'Applies a LAMBDA to each row and returns an array of the results.' },
+  BYCOL: { params: ['array', 'lambda'], description: 'Applies a LAMBDA to each column and returns an array of the results.' },
+
+  // Logical
+  IF: {
+    params: ['logical_test', '[value_if_true]', '[value_if_false]'],
+    description: 'Checks whether a condition is met, and returns one value if TRUE, and another value if FALSE.',
+  },
+  AND: { params: ['logical1', '[logical2]'], repeats: 1, description: 'Checks whether all arguments are TRUE, and returns TRUE if all arguments are TRUE.' },
+  OR: { params: ['logical1', '[logical2]'], repeats: 1, description: 'Checks whether any of the arguments are TRUE, and returns TRUE or FALSE.' },
+  XOR: { params: ['logical1', '[logical2]'], repeats: 1, description: 'Returns a logical Exclusive Or of all arguments.' },
+  NOT: { params: ['logical'], description: 'Changes FALSE to TRUE, or TRUE to FALSE.' },
+  IFERROR: { params: ['value', 'value_if_error'], description: 'Returns value_if_error if the expression is an error and the value of the expression itself otherwise.' },
+  IFNA: { params: ['value', 'value_if_na'], description: 'Returns the value you specify if the expression resolves to #N/A, otherwise returns the result of the expression.' },
+  TRUE: { params: [], description: 'Returns the logical value TRUE.' },
+  FALSE: { params: [], description: 'Returns the logical value FALSE.' },
+
+  // Lookup and reference
+  VLOOKUP: {
+    params: ['lookup_value', 'table_array', 'col_index_num', '[range_lookup]'],
+    description: 'Looks for a value in the leftmost column of a table, and then returns a value in the same row from a column you specify.',
+  },
+  HLOOKUP: {
+    params: ['lookup_value', 'table_array', 'row_index_num', '[range_lookup]'],
+    description: 'Looks for a value in the top row of a table, and then returns a value in the same column from a row you specify.',
+  },
+  MATCH: {
+    params: ['lookup_value', 'lookup_array', '[match_type]'],
+    description: 'Returns the relative position of an item in an array that matches a specified value in a specified order.',
+  },
+  INDEX: {
+    params: ['array', 'row_num', '[column_num]', '[area_num]'],
+    description: 'Returns a value or reference of the cell at the intersection of a particular row and column, in a given range.',
+  },
+  XLOOKUP: {
+    params: ['lookup_value', 'lookup_array', 'return_array', '[if_not_found]', '[match_mode]', '[search_mode]'],
+    description: 'Searches a range or an array for a match and returns the corresponding item from a second range or array.',
+  },
+  XMATCH: {
+    params: ['lookup_value', 'lookup_array', '[match_mode]', '[search_mode]'],
+    description: 'Returns the relative position of an item in an array.',
+  },
+  OFFSET: {
+    params: ['reference', 'rows', 'cols', '[height]', '[width]'],
+    description: 'Returns a reference to a range that is a given number of rows and columns from a given reference.',
+  },
+  INDIRECT: { params: ['ref_text', '[a1]'], description: 'Returns the reference specified by a text string.' },
+  ROWS: { params: ['array'], description: 'Returns the number of rows in a reference or array.' },
+  COLUMNS: { params: ['array'], description: 'Returns the number of columns in a reference or array.' },
+  AREAS: { params: ['reference'], description: 'Returns the number of areas in a reference.' },
+
+  // Math
+  ABS: { params: ['number'], description: 'Returns the absolute value of a number, a number without its sign.' },
+  INT: { params: ['number'], description: 'Rounds a number down to the nearest integer.' },
+  TRUNC: { params: ['number', '[num_digits]'], description: 'Truncates a number to an integer by removing the decimal, or fractional, part of the number.' },
+  ROUND: { params: ['number', 'num_digits'], description: 'Rounds a number to a specified number of digits.' },
+  ROUNDUP: { params: ['number', 'num_digits'], description: 'Rounds a number up, away from zero.' },
+  ROUNDDOWN: { params: ['number', 'num_digits'], description: 'Rounds a number down, toward zero.' },
+  MOD: { params: ['number', 'divisor'], description: 'Returns the remainder after a number is divided by a divisor.' },
+  SIGN: { params: ['number'], description: 'Returns the sign of a number: 1 if the number is positive, zero if the number is zero, or -1 if the number is negative.' },
+  SQRT: { params: ['number'], description: 'Returns the square root of a number.' },
+  POWER: { params: ['number', 'power'], description: 'Returns the result of a number raised to a power.' },
+  EXP: { params: ['number'], description: 'Returns e raised to the power of a given number.' },
+  LN: { params: ['number'], description: 'Returns the natural logarithm of a number.' },
+  LOG: { params: ['number', '[base]'], description: 'Returns the logarithm of a number to the base you specify.' },
+  LOG10: { params: ['number'], description: 'Returns the base-10 logarithm of a number.' },
+  PI: { params: [], description: 'Returns the value of Pi, 3.14159265358979, accurate to 15 digits.' },
+  PRODUCT: { params: NUMBERS, repeats: 1, description: 'Multiplies all the numbers given as arguments.' },
+  SUM: { params: NUMBERS, repeats: 1, description: 'Adds all the numbers in a range of cells.' },
+  SUMIF: { params: ['range', 'criteria', '[sum_range]'], description: 'Adds the cells specified by a given condition or criteria.' },
+  SUMIFS: {
+    params: ['sum_range', 'criteria_range1', 'criteria1', '[criteria_range2]', '[criteria2]'],
+    repeats: 2,
+    description: 'Adds the cells specified by a given set of conditions or criteria.',
+  },
+  SUMPRODUCT: {
+    params: ['array1', '[array2]'],
+    repeats: 1,
+    description: 'Returns the sum of the products of corresponding ranges or arrays.',
+  },
+
+  // Statistical
+  AVERAGE: { params: NUMBERS, repeats: 1, description: 'Returns the average (arithmetic mean) of its arguments.' },
+  MAX: { params: NUMBERS, repeats: 1, description: 'Returns the largest value in a set of values. Ignores logical values and text.' },
+  MIN: { params: NUMBERS, repeats: 1, description: 'Returns the smallest number in a set of values. Ignores logical values and text.' },
+  MEDIAN: { params: NUMBERS, repeats: 1, description: 'Returns the median, or the number in the middle of the set of given numbers.' },
+  MODE: { params: NUMBERS, repeats: 1, description: 'Returns the most frequently occurring value in an array or range of data.' },
+  'MODE.SNGL': { params: NUMBERS, repeats: 1, description: 'Returns the most frequently occurring value in an array or range of data.' },
+  'STDEV.S': { params: NUMBERS, repeats: 1, description: 'Estimates standard deviation based on a sample.' },
+  'STDEV.P': { params: NUMBERS, repeats: 1, description: 'Calculates standard deviation based on the entire population given as arguments.' },
+  STDEV: { params: NUMBERS, repeats: 1, description: 'Estimates standard deviation based on a sample.' },
+  STDEVP: { params: NUMBERS, repeats: 1, description: 'Calculates standard deviation based on the entire population given as arguments.' },
+  'VAR.S': { params: NUMBERS, repeats: 1, description: 'Estimates variance based on a sample.' },
+  'VAR.P': { params: NUMBERS, repeats: 1, description: 'Calculates variance based on the entire population.' },
+  VAR: { params: NUMBERS, repeats: 1, description: 'Estimates variance based on a sample.' },
+  VARP: { params: NUMBERS, repeats: 1, description: 'Calculates variance based on the entire population.' },
+  COUNT: { params: ['value1', '[value2]'], repeats: 1, description: 'Counts the number of cells in a range that contain numbers.' },
+  COUNTA: { params: ['value1', '[value2]'], repeats: 1, description: 'Counts the number of cells in a range that are not empty.' },
+  COUNTBLANK: { params: ['range'], description: 'Counts the number of empty cells in a specified range of cells.' },
+  COUNTIF: { params: ['range', 'criteria'], description: 'Counts the number of cells within a range that meet the given condition.' },
+  COUNTIFS: {
+    params: ['criteria_range1', 'criteria1', '[criteria_range2]', '[criteria2]'],
+    repeats: 2,
+    description: 'Counts the number of cells specified by a given set of conditions or criteria.',
+  },
+  AVERAGEIF: {
+    params: ['range', 'criteria', '[average_range]'],
+    description: 'Finds the average (arithmetic mean) for the cells specified by a given condition or criteria.',
+  },
+  AVERAGEIFS: {
+    params: ['average_range', 'criteria_range1', 'criteria1', '[criteria_range2]', '[criteria2]'],
+    repeats: 2,
+    description: 'Finds the average (arithmetic mean) for the cells specified by a given set of conditions or criteria.',
+  },
+  MAXIFS: {
+    params: ['max_range', 'criteria_range1', 'criteria1', '[criteria_range2]', '[criteria2]'],
+    repeats: 2,
+    description: 'Returns the maximum value among cells specified by a given set of conditions or criteria.',
+  },
+  MINIFS: {
+    params: ['min_range', 'criteria_range1', 'criteria1', '[criteria_range2]', '[criteria2]'],
+    repeats: 2,
+    description: 'Returns the minimum value among cells specified by a given set of conditions or criteria.',
+  },
+  LARGE: { params: ['array', 'k'], description: 'Returns the k-th largest value in a data set.' },
+  SMALL: { params: ['array', 'k'], description: 'Returns the k-th smallest value in a data set.' },
+  'RANK.EQ': { params: ['number', 'ref', '[order]'], description: 'Returns the rank of a number in a list of numbers.' },
+  RANK: { params: ['number', 'ref', '[order]'], description: 'Returns the rank of a number in a list of numbers.' },
+
+  // Text
+  LEFT: { params: ['text', '[num_chars]'], description: 'Returns the specified number of characters from the start of a text string.' },
+  RIGHT: { params: ['text', '[num_chars]'], description: 'Returns the specified number of characters from the end of a text string.' },
+  MID: { params: ['text', 'start_num', 'num_chars'], description: 'Returns the characters from the middle of a text string, given a starting position and length.' },
+  LEN: { params: ['text'], description: 'Returns the number of characters in a text string.' },
+  TRIM: { params: ['text'], description: 'Removes all spaces from a text string except for single spaces between words.' },
+  CLEAN: { params: ['text'], description: 'Removes all nonprintable characters from text.' },
+  UPPER: { params: ['text'], description: 'Converts a text string to all uppercase letters.' },
+  LOWER: { params: ['text'], description: 'Converts all letters in a text string to lowercase.' },
+  PROPER: { params: ['text'], description: 'Converts a text string to proper case; the first letter in each word to uppercase.' },
+  CONCAT: { params: ['text1', '[text2]'], repeats: 1, description: 'Concatenates a list or range of text strings.' },
+  CONCATENATE: { params: ['text1', '[text2]'], repeats: 1, description: 'Joins several text strings into one text string.' },
+  TEXTJOIN: {
+    params: ['delimiter', 'ignore_empty', 'text1', '[text2]'],
+    repeats: 1,
+    description: 'Concatenates a list or range of text strings using a delimiter.',
+  },
+  SUBSTITUTE: { params: ['text', 'old_text', 'new_text', '[instance_num]'], description: 'Replaces existing text with new text in a text string.' },
+  REPLACE: { params: ['old_text', 'start_num', 'num_chars', 'new_text'], description: 'Replaces part of a text string with a different text string.' },
+  FIND: {
+    params: ['find_text', 'within_text', '[start_num]'],
+    description: 'Returns the starting position of one text string within another text string. FIND is case-sensitive.',
+  },
+  SEARCH: {
+    params: ['find_text', 'within_text', '[start_num]'],
+    description: 'Returns the number of the character at which a specific character or text string is first found, reading left to right (not case-sensitive).',
+  },
+  VALUE: { params: ['text'], description: 'Converts a text string that represents a number to a number.' },
+  NUMBERVALUE: {
+    params: ['text', '[decimal_separator]', '[group_separator]'],
+    description: 'Converts text to number in a locale-independent manner.',
+  },
+  EXACT: { params: ['text1', 'text2'], description: 'Checks whether two text strings are exactly the same, and returns TRUE or FALSE. EXACT is case-sensitive.' },
+  REPT: { params: ['text', 'number_times'], description: 'Repeats text a given number of times.' },
+  TEXTBEFORE: {
+    params: ['text', 'delimiter', '[instance_num]', '[match_mode]', '[match_end]', '[if_not_found]'],
+    description: 'Returns text that occurs before a given character or string.',
+  },
+  TEXTAFTER: {
+    params: ['text', 'delimiter', '[instance_num]', '[match_mode]', '[match_end]', '[if_not_found]'],
+    description: 'Returns text that occurs after a given character or string.',
+  },
+  TEXTSPLIT: {
+    params: ['text', 'col_delimiter', '[row_delimiter]', '[ignore_empty]', '[match_mode]', '[pad_with]'],
+    description: 'Splits text into rows or columns using delimiters.',
+  },
+  TEXT: { params: ['value', 'format_text'], description: 'Converts a value to text in a specific number format.' },
+};
+
+/**
+ * Which of a signature's parameters the argument at `argIndex` fills, following
+ * repeating groups such as SUMIFS's criteria pairs, or -1 if there is none.
+ */
+export const parameterIndex = ({ params, repeats = 0 }: FunctionSignature, argIndex: number): number => {
+  if (argIndex < params.length) return argIndex;
+  if (repeats === 0) return -1;
+  const groupStart = params.length - repeats;
+  return groupStart + ((argIndex - groupStart) % repeats);
+};
@@ -0,0 +1,226 @@
+import { ERROR_CODES } from './values';
+
+export type TokenType =
+  | 'number'
+  | 'string'
+  | 'boolean'
+  | 'error'
+  | 'reference'
+  | 'function'
+  | 'name'
+  | 'operator'
+  | 'lparen'
+  | 'rparen'
+  | 'comma'
+  | 'lbrace'
+  | 'rbrace'
+  /** Between the columns of an array constant, given as `,` whatever syntax it was written in. */
+  | 'columnSeparator'
+  /** Between the rows of an array constant, given as `;`. */
+  | 'rowSeparator'
+  | 'eof';
+
+export interface Token {
+  type: TokenType;
+  value: string;
+  /** Offsets into the formula source (without the leading `=`). */
+  start: number;
+  end: number;
+}
+
+export class FormulaParseError extends Error {
+  constructor(message: string, public readonly position: number) {
+    super(message);
+    this.name = 'FormulaParseError';
+  }
+}
+
+/**
+ * The characters that separate a function's arguments, a number's decimals and
+ * an array constant's columns and rows. Formulas are stored with Excel's en-US
+ * ones; German Excel writes `=ROUND(1,5;0)` for `=ROUND(1.5,0)` and
+ * `={1.2;3.4}` for `={1,2;3,4}`.
+ */
+export interface FormulaSyntax {
+  argumentSeparator: string;
+  decimalSeparator: string;
+  arrayColumnSeparator: string;
+  arrayRowSeparator: string;
+}
+
+export const CANONICAL_SYNTAX: FormulaSyntax = {
+  argumentSeparator: ',',
+  decimalSeparator: '.',
+  arrayColumnSeparator: ',',
+  arrayRowSeparator: ';',
+};
+
+const OPERATORS = ['<=', '>=', '<>', '+', '-', '*', '/', '^', '&', '=', '<', '>', '%', ':'];
+
+const numberPattern = (decimal: string) => {
+  const point = decimal.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`^(\\d+${point}?\\d*|${point}\\d+)(e[+-]?\\d+)?`, 'i');
+};
+const CELL = /^\$?[A-Z]{1,3}\$?\d+(:\$?[A-Z]{1,3}\$?\d+)?/i;
+const COLUMN_RANGE = /^\$?[A-Z]{1,3}:\$?[A-Z]{1,3}/i;
+const ROW_RANGE = /^\$?\d+:\$?\d+/;
+const IDENTIFIER = /^[A-Z_\\][A-Z0-9_.\\]*/i;
+const IDENTIFIER_CHAR = /[A-Z0-9_.(]/i;
+/** What can start the right-hand operand of the intersection operator. */
+const REFERENCE_START = /^[$A-Z_\\(']|^\$?\d+:/i;
+const SHEET_PREFIX = /^('(?:[^']|'')+'|[A-Z_][A-Z0-9_.]*)!/i;
+
+/** The length of the cell, range or spill reference at the start of `text`, or 0 if there is none. */
+const addressLength = (text: string): number => {
+  const rowRange = ROW_RANGE.exec(text);
+  if (rowRange && !/[\d.]/.test(text[rowRange[0].length] ?? '')) return rowRange[0].length;
+  const match = CELL.exec(text) ?? COLUMN_RANGE.exec(text);
+  if (!match || IDENTIFIER_CHAR.test(text[match[0].length] ?? '')) return 0;
+  // `F2#` refers to the whole spill range of the dynamic array anchored at F2.
+  return !match[0].includes(':') && text[match[0].length] === '#' ? match[0].length + 1 : match[0].length;
+};
+
+/**
+ * Splits a formula (without its `=`) into tokens. Numbers are given with a `.`
+ * decimal point and separators in their en-US form whatever `syntax` they were
+ * written in, while offsets stay those of the source.
+ */
+export const tokenize = (source: string, syntax: FormulaSyntax = CANONICAL_SYNTAX): Token[] => {
+  const NUMBER = numberPattern(syntax.decimalSeparator);
+  const tokens: Token[] = [];
+  let pos = 0;
+  /** How many array constants the position is inside; the parser rejects nesting them. */
+  let braces = 0;
+
+  const push = (type: TokenType, value: string, length: number) => {
+    tokens.push({ type, value, start: pos, end: pos + length });
+    pos += length;
+  };
+
+  while (pos < source.length) {
+    const char = source[pos];
+    const rest = source.slice(pos);
+
+    if (/\s/.test(char)) {
+      // A space between two references is Excel's intersection operator, as in `B:B 3:3`.
+      const spaces = /^\s+/.exec(rest)[0];
+      const previous = tokens[tokens.length - 1];
+      const between = previous && ['reference', 'name', 'rparen'].includes(previous.type);
+      if (between && REFERENCE_START.test(rest.slice(spaces.length))) {
+        push('operator', ' ', spaces.length);
+      } else {
+        pos += spaces.length;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      let end = pos + 1;
+      let text = '';
+      for (;;) {
+        if (end >= source.length) throw new FormulaParseError('Unterminated text string', pos);
+        if (source[end] === '"') {
+          if (source[end + 1] === '"') {
+            text += '"';
+            end += 2;
+            continue;
+          }
+          break;
+        }
+        text += source[end++];
+      }
+      tokens.push({ type: 'string', value: text, start: pos, end: end + 1 });
+      pos = end + 1;
+      continue;
+    }
+
+    if (char === '#') {
+      const literal = ERROR_CODES.find(code => rest.toUpperCase().startsWith(code));
+      if (!literal) throw new FormulaParseError('Unknown error literal', pos);
+      push('error', literal, literal.length);
+      continue;
+    }
+
+    // A reference may name its sheet first: Sheet1!$C$2:$C$9 or 'Q1 Sales'!A1.
+    const sheetMatch = SHEET_PREFIX.exec(rest);
+    const prefix = sheetMatch ? sheetMatch[0].length : 0;
+    const length = addressLength(rest.slice(prefix));
+    if (length > 0) {
+      const address = source.slice(pos + prefix, pos + prefix + length).toUpperCase();
+      push('reference', rest.slice(0, prefix) + address, prefix + length);
+      continue;
+    }
+    if (sheetMatch) throw new FormulaParseError(`Expected a cell or range after "${sheetMatch[0]}"`, pos);
+
+    const numberMatch = NUMBER.exec(rest);
+    if (numberMatch) {
+      push('number', numberMatch[0].replace(syntax.decimalSeparator, '.'), numberMatch[0].length);
+      continue;
+    }
+
+    const identifierMatch = IDENTIFIER.exec(rest);
+    if (identifierMatch) {
+      // Inside an array constant a period may separate columns, as in German Excel's `{TRUE.FALSE}`
+      const word = braces > 0 ? identifierMatch[0].split(syntax.arrayColumnSeparator)[0] : identifierMatch[0];
+      const upper = word.toUpperCase();
+      if (source[pos + word.length] === '(') {
+        push('function', upper, word.length);
+      } else if (upper === 'TRUE' || upper === 'FALSE') {
+        push('boolean', upper, word.length);
+      } else {
+        push('name', word, word.length);
+      }
+      continue;
+    }
+
+    if (char === '(') {
+      push('lparen', char, 1);
+      continue;
+    }
+    if (char === ')') {
+      push('rparen', char, 1);
+      continue;
+    }
+    if (char === '{' || char === '}') {
+      braces += char === '{' ? 1 : -1;
+      push(char === '{' ? 'lbrace' : 'rbrace', char, 1);
+      continue;
+    }
+    if (braces > 0 && char === syntax.arrayColumnSeparator) {
+      push('columnSeparator', ',', 1);
+      continue;
+    }
+    if (braces > 0 && char === syntax.arrayRowSeparator) {
+      push('rowSeparator', ';', 1);
+      continue;
+    }
+    if (char === syntax.argumentSeparator) {
+      push('comma', ',', 1);
+      continue;
+    }
+
+    const operator = OPERATORS.find(op => rest.startsWith(op));
+    if (operator) {
+      push('operator', operator, operator.length);
+      continue;
+    }
+
+    throw new FormulaParseError(`Unexpected character "${char}"`, pos);
+  }
+
+  tokens.push({ type: 'eof', value: '', start: pos, end: pos });
+  return tokens;
+};
+
+/**
+ * Tokenizes as much of an unfinished formula as possible, stopping before
+ * whatever can't be read yet, such as a string that hasn't been closed.
+ */
+export const tokenizeUnfinished = (source: string, syntax: FormulaSyntax = CANONICAL_SYNTAX): Token[] => {
+  try {
+    return tokenize(source, syntax);
+  } catch (error) {
+    if (!(error instanceof FormulaParseError) || error.position >= source.length) return [];
+    return tokenizeUnfinished(source.slice(0, error.position), syntax);
+  }
+};
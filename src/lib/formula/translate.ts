@@ -0,0 +1,96 @@
+import { columnToIndex, indexToColumn, MAX_COLS, MAX_ROWS, type RangeRef } from './references';
+import { FormulaParseError, tokenize } from './tokenizer';
+
+/** One part of a reference between colons: a cell, a column or a row, each optionally `$`-anchored. */
+const REFERENCE_PART = /^(\$?)([A-Z]*)(\$?)(\d*)$/i;
+
+/** Moves one part of a reference, or returns null if it would leave the sheet. */
+const shiftPart = (part: string, rows: number, cols: number): string | null => {
+  const match = REFERENCE_PART.exec(part);
+  if (!match) return part;
+  const [, firstAnchor, letters, secondAnchor, digits] = match;
+  let text = '';
+  if (letters) {
+    const col = firstAnchor ? columnToIndex(letters) : columnToIndex(letters) + cols;
+    if (col < 0 || col >= MAX_COLS) return null;
+    text += `${firstAnchor}${indexToColumn(col)}`;
+  }
+  if (digits) {
+    // In a row-only part such as `$3` the anchor comes first.
+    const anchor = letters ? secondAnchor : firstAnchor;
+    const row = anchor ? parseInt(digits, 10) - 1 : parseInt(digits, 10) - 1 + rows;
+    if (row < 0 || row >= MAX_ROWS) return null;
+    text += `${anchor}${row + 1}`;
+  }
+  return text;
+};
+
+/** Moves a reference token such as `Sheet1!A$1:B2` or `F2#`, keeping its sheet and anchors. */
+const shiftReference = (reference: string, rows: number, cols: number): string => {
+  const bang = reference.lastIndexOf('!');
+  const sheet = reference.slice(0, bang + 1);
+  const spill = reference.endsWith('#') ? '#' : '';
+  const address = reference.slice(bang + 1, reference.length - spill.length);
+  const parts = address.split(':').map(part => shiftPart(part, rows, cols));
+  if (parts.some(part => part === null)) return '#REF!';
+  return `${sheet}${parts.join(':')}${spill}`;
+};
+
+/**
+ * Rewrites a cell's contents for a copy `rows` down and `cols` across, as
+ * Excel does when filling or pasting: relative references move with the
+ * formula, `$`-anchored rows and columns stay put, and a reference pushed off
+ * the sheet becomes #REF!. Constants, and formulas that don't parse, are
+ * copied unchanged.
+ */
+export const translateFormula = (raw: string, rows: number, cols: number): string => {
+  if (!raw.startsWith('=') || (rows === 0 && cols === 0)) return raw;
+  const source = raw.slice(1);
+  let tokens;
+  try {
+    tokens = tokenize(source);
+  } catch (error) {
+    if (error instanceof FormulaParseError) return raw;
+    throw error;
+  }
+  // Only the references change; spacing, strings and everything else are kept as typed.
+  let result = '';
+  let pos = 0;
+  for (const token of tokens) {
+    if (token.type !== 'reference') continue;
+    result += source.slice(pos, token.start) + shiftReference(token.value, rows, cols);
+    pos = token.end;
+  }
+  return `=${result}${source.slice(pos)}`;
+};
+
+/** A cell's new contents after a fill or paste. */
+export interface FilledCell {
+  row: number;
+  col: number;
+  raw: string;
+}
+
+/**
+ * The contents a fill or paste writes over `target`. The source block repeats
+ * across the target, and each copy's formulas are translated by how far it
+ * moved, so filling `=B2*$C$1` from F2 down to F4 gives `=B3*$C$1` and `=B4*$C$1`.
+ */
+export const fillContents = (
+  source: RangeRef,
+  target: RangeRef,
+  getRaw: (row: number, col: number) => string,
+): FilledCell[] => {
+  const height = source.end.row - source.start.row + 1;
+  const width = source.end.col - source.start.col + 1;
+  const wrap = (offset: number, size: number) => ((offset % size) + size) % size;
+  const cells: FilledCell[] = [];
+  for (let row = target.start.row; row <= target.end.row; row++) {
+    for (let col = target.start.col; col <= target.end.col; col++) {
+      const fromRow = source.start.row + wrap(row - source.start.row, height);
+      const fromCol = source.start.col + wrap(col - source.start.col, width);
+      cells.push({ row, col, raw: translateFormula(getRaw(fromRow, fromCol), row - fromRow, col - fromCol) });
+    }
+  }
+  return cells;
+};
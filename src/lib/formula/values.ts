@@ -0,0 +1,223 @@
+import { parseDateTime } from './dates';
+import type { EvaluationContext } from './evaluator';
+import type { AstNode } from './parser';
+import type { RangeRef } from './references';
+
+export const ERROR_CODES = ['#NULL!', '#DIV/0!', '#VALUE!', '#REF!', '#NAME?', '#NUM!', '#N/A', '#SPILL!', '#CALC!'] as const;
+
+export type ErrorCode = (typeof ERROR_CODES)[number];
+
+/** The numbers ERROR.TYPE returns for each error value. */
+export const ERROR_TYPE_NUMBERS: Record<ErrorCode, number> = {
+  '#NULL!': 1,
+  '#DIV/0!': 2,
+  '#VALUE!': 3,
+  '#REF!': 4,
+  '#NAME?': 5,
+  '#NUM!': 6,
+  '#N/A': 7,
+  '#SPILL!': 9,
+  '#CALC!': 14,
+};
+
+/** What each error means in general, used when no more specific cause is known. */
+export const ERROR_DESCRIPTIONS: Record<ErrorCode, string> = {
+  '#NULL!': 'The ranges in an intersection do not overlap.',
+  '#DIV/0!': 'A number is divided by zero or by an empty cell.',
+  '#VALUE!': 'A value has the wrong type, for example text used in arithmetic.',
+  '#REF!': 'The formula refers to a cell that is not valid.',
+  '#NAME?': 'The formula contains a function or name that is not recognised.',
+  '#NUM!': 'A calculation produced a number that is invalid or too large.',
+  '#N/A': 'A value is not available, usually because a lookup found no match.',
+  '#SPILL!': 'The array result cannot spill because the cells it needs are not empty.',
+  '#CALC!': 'The calculation engine could not produce a result, for example an empty array.',
+};
+
+/**
+ * An Excel error value. Errors are ordinary values: they flow through
+ * operators and functions until something like IFERROR handles them.
+ */
+export class FormulaError {
+  constructor(
+    public readonly code: ErrorCode,
+    /** Why this particular error happened, shown in the cell's tooltip. */
+    public readonly message?: string,
+  ) {}
+
+  get description(): string {
+    return this.message ?? ERROR_DESCRIPTIONS[this.code];
+  }
+
+  toString() {
+    return this.code;
+  }
+}
+
+/** A resolved cell value. `null` is a blank cell. */
+export type CellValue = number | string | boolean | null | FormulaError;
+
+export const isError = (value: unknown): value is FormulaError => value instanceof FormulaError;
+
+export const errors = {
+  null: (message?: string) => new FormulaError('#NULL!', message),
+  div0: (message?: string) => new FormulaError('#DIV/0!', message),
+  value: (message?: string) => new FormulaError('#VALUE!', message),
+  ref: (message?: string) => new FormulaError('#REF!', message),
+  name: (message?: string) => new FormulaError('#NAME?', message),
+  num: (message?: string) => new FormulaError('#NUM!', message),
+  na: (message?: string) => new FormulaError('#N/A', message),
+  spill: (message?: string) => new FormulaError('#SPILL!', message),
+  calc: (message?: string) => new FormulaError('#CALC!', message),
+};
+
+const NUMERIC_TEXT = /^[+-]?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?$/i;
+/** A number typed with thousands separators, such as `1,299.99`. */
+const GROUPED_TEXT = /^[+-]?\d{1,3}(,\d{3})+(\.\d*)?$/;
+
+/** Reads numeric text along with the number format Excel gives a cell it is typed into. */
+const readNumericText = (text: string): { value: number; format: string } | null => {
+  const trimmed = text.trim();
+  if (trimmed === '') return null;
+  if (trimmed.endsWith('%')) {
+    const inner = trimmed.slice(0, -1);
+    if (!NUMERIC_TEXT.test(inner.trim())) return null;
+    return { value: Number(inner) / 100, format: inner.includes('.') ? '0.00%' : '0%' };
+  }
+  if (NUMERIC_TEXT.test(trimmed)) return { value: Number(trimmed), format: 'General' };
+  if (GROUPED_TEXT.test(trimmed)) {
+    return { value: Number(trimmed.replace(/,/g, '')), format: trimmed.includes('.') ? '#,##0.00' : '#,##0' };
+  }
+  const date = parseDateTime(trimmed);
+  return date && { value: date.serial, format: date.format };
+};
+
+/** Parses text the way Excel does when it coerces a string operand to a number, dates and times included. */
+export const parseNumericText = (text: string): number | null => readNumericText(text)?.value ?? null;
+
+export const toNumber = (value: CellValue): number | FormulaError => {
+  if (isError(value)) return value;
+  if (value === null) return 0;
+  if (typeof value === 'number') return value;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  const parsed = parseNumericText(value);
+  return parsed === null ? errors.value(`The text "${value}" cannot be used as a number.`) : parsed;
+};
+
+export const toText = (value: CellValue): string | FormulaError => {
+  if (isError(value)) return value;
+  if (value === null) return '';
+  if (typeof value === 'boolean') return value ? 'TRUE' : 'FALSE';
+  if (typeof value === 'number') return formatGeneral(value);
+  return value;
+};
+
+export const toBoolean = (value: CellValue): boolean | FormulaError => {
+  if (isError(value)) return value;
+  if (value === null) return false;
+  if (typeof value === 'boolean') return value;
+  if (typeof value === 'number') return value !== 0;
+  const upper = value.toUpperCase();
+  if (upper === 'TRUE') return true;
+  if (upper === 'FALSE') return false;
+  return errors.value(`The text "${value}" cannot be used as TRUE or FALSE.`);
+};
+
+/** Renders a number in Excel's General format: at most ten significant digits. */
+export const formatGeneral = (value: number): string => {
+  if (!Number.isFinite(value)) return '#NUM!';
+  if (value === 0) return '0';
+  const abs = Math.abs(value);
+  if (abs >= 1e11 || abs < 1e-9) {
+    const [mantissa, exponent] = value.toExponential(5).split('e');
+    const trimmed = mantissa.replace(/\.?0+$/, '');
+    const exp = Number(exponent);
+    return `${trimmed}E${exp < 0 ? '-' : '+'}${String(Math.abs(exp)).padStart(2, '0')}`;
+  }
+  return String(parseFloat(value.toPrecision(10)));
+};
+
+/** Orders values the way Excel's comparison operators do: numbers < text < booleans. */
+export const compareValues = (left: CellValue, right: CellValue): number => {
+  const rank = (value: CellValue) => {
+    if (typeof value === 'number') return 0;
+    if (typeof value === 'string') return 1;
+    if (typeof value === 'boolean') return 2;
+    return 0;
+  };
+  // A blank cell takes on the type of whatever it is compared with.
+  const a = left === null ? blankFor(right) : left;
+  const b = right === null ? blankFor(left) : right;
+  const rankDiff = rank(a) - rank(b);
+  if (rankDiff !== 0) return rankDiff;
+  if (typeof a === 'string' && typeof b === 'string') {
+    const upperA = a.toUpperCase();
+    const upperB = b.toUpperCase();
+    return upperA < upperB ? -1 : upperA > upperB ? 1 : 0;
+  }
+  const numA = Number(a);
+  const numB = Number(b);
+  return numA < numB ? -1 : numA > numB ? 1 : 0;
+};
+
+const blankFor = (other: CellValue): CellValue => {
+  if (typeof other === 'string') return '';
+  if (typeof other === 'boolean') return false;
+  return 0;
+};
+
+export interface CellInput {
+  value: CellValue;
+  /** The number format the cell takes on, e.g. `m/d/yyyy` when a date was typed. */
+  format: string;
+}
+
+/** Turns what a candidate typed into a cell into the constant it represents. */
+export const parseCellInput = (raw: string): CellInput => {
+  if (raw === '') return { value: null, format: 'General' };
+  if (raw.startsWith("'")) return { value: raw.slice(1), format: 'General' };
+  const upper = raw.trim().toUpperCase();
+  if (upper === 'TRUE') return { value: true, format: 'General' };
+  if (upper === 'FALSE') return { value: false, format: 'General' };
+  return readNumericText(raw) ?? { value: raw, format: 'General' };
+};
+
+/** A reference that has not been read yet, as produced by `A1:B9`. */
+export interface ReferenceValue {
+  kind: 'reference';
+  range: RangeRef;
+}
+
+/** A block of computed values, such as the result of TEXTSPLIT. Rows are all the same length. */
+export interface ArrayValue {
+  kind: 'array';
+  values: CellValue[][];
+}
+
+/** Several ranges joined with the union operator, as in `SUM((A1:A3,C1:C3))`. */
+export interface UnionValue {
+  kind: 'union';
+  areas: ReferenceValue[];
+}
+
+/** A function made with LAMBDA. It closes over the LET and LAMBDA variables in scope where it was made. */
+export interface LambdaValue {
+  kind: 'lambda';
+  params: string[];
+  body: AstNode;
+  ctx: EvaluationContext;
+}
+
+/** Anything an expression can evaluate to before it is stored in a cell. */
+export type Value = CellValue | ReferenceValue | ArrayValue | UnionValue | LambdaValue;
+
+export const isReference = (value: Value): value is ReferenceValue =>
+  typeof value === 'object' && value !== null && !isError(value) && value.kind === 'reference';
+
+export const isArray = (value: Value): value is ArrayValue =>
+  typeof value === 'object' && value !== null && !isError(value) && value.kind === 'array';
+
+export const isUnion = (value: Value): value is UnionValue =>
+  typeof value === 'object' && value !== null && !isError(value) && value.kind === 'union';
+
+export const isLambda = (value: Value): value is LambdaValue =>
+  typeof value === 'object' && value !== null && !isError(value) && value.kind === 'lambda';
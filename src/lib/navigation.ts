@@ -0,0 +1,42 @@
+import type { GridCell } from "@/lib/selection";
+
+/**
+ * Excel's cell modes, shown at the left of its status bar. In Ready the keys
+ * move around the sheet; typing starts a new entry in Enter mode, where the
+ * arrows confirm it and move on; F2 switches to Edit mode, where the arrows
+ * move the caret within the entry instead.
+ */
+export type CellMode = 'ready' | 'enter' | 'edit';
+
+export const CELL_MODE_LABELS: Record<CellMode, string> = { ready: 'Ready', enter: 'Enter', edit: 'Edit' };
+
+/** Whether a key press types a character, rather than being a shortcut or a control key. */
+export const isTypingKey = (e: { key: string; ctrlKey: boolean; metaKey: boolean; altKey: boolean }) =>
+  e.key.length === 1 && !e.ctrlKey && !e.metaKey && !e.altKey;
+
+/**
+ * Where Ctrl+arrow goes from `from`, within the first `rows` by `cols`: to the
+ * end of the block of filled cells it is in, or across the gap to the next
+ * filled cell, or to the edge of the sheet when there is none.
+ */
+export const jumpToEdge = (
+  from: GridCell,
+  rowDelta: number,
+  colDelta: number,
+  rows: number,
+  cols: number,
+  isFilled: (row: number, col: number) => boolean,
+): GridCell => {
+  const step = ({ row, col }: GridCell) => ({ row: row + rowDelta, col: col + colDelta });
+  const inSheet = ({ row, col }: GridCell) => row >= 0 && row < rows && col >= 0 && col < cols;
+  const filled = (cell: GridCell) => isFilled(cell.row, cell.col);
+
+  let current = step(from);
+  if (!inSheet(current)) return from;
+  if (filled(from) && filled(current)) {
+    while (inSheet(step(current)) && filled(step(current))) current = step(current);
+    return current;
+  }
+  while (!filled(current) && inSheet(step(current))) current = step(current);
+  return current;
+};
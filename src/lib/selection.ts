@@ -0,0 +1,169 @@
+import { isError, MAX_COLS, MAX_ROWS, normalizeRange, type CellValue, type RangeRef } from "@/lib/formula";
+
+export type GridCell = { row: number; col: number };
+
+/**
+ * What is selected on the sheet, as Excel models it: one or more ranges, the
+ * last of which is being extended from `anchor`, and the active cell, which
+ * the Name Box shows and typing edits.
+ */
+export interface Selection {
+  active: GridCell;
+  /** The corner of the last range that Shift+click and Shift+arrows extend from. */
+  anchor: GridCell;
+  /** Every selected range in the order it was added; Ctrl+click adds one. */
+  ranges: RangeRef[];
+}
+
+/** How a click changes the selection: plain, with Shift held to extend it, or with Ctrl held to add to it. */
+export type SelectMode = 'select' | 'extend' | 'add';
+
+/** Reads a click's modifier keys: Shift extends the selection and Ctrl (⌘ on a Mac) adds to it. */
+export const selectModeFor = (e: { shiftKey: boolean; ctrlKey: boolean; metaKey: boolean }): SelectMode =>
+  e.shiftKey ? 'extend' : e.ctrlKey || e.metaKey ? 'add' : 'select';
+
+/** How far each arrow key moves, in rows and columns. */
+export const ARROW_DELTAS: Record<string, [number, number]> = {
+  ArrowUp: [-1, 0],
+  ArrowDown: [1, 0],
+  ArrowLeft: [0, -1],
+  ArrowRight: [0, 1],
+};
+
+const ref = ({ row, col }: GridCell) => ({ row, col, absRow: false, absCol: false });
+
+const rangeBetween = (a: GridCell, b: GridCell): RangeRef => normalizeRange({ start: ref(a), end: ref(b) });
+
+export const selectionOf = (cell: GridCell): Selection => ({ active: cell, anchor: cell, ranges: [rangeBetween(cell, cell)] });
+
+const replaceLast = (selection: Selection, range: RangeRef): Selection => ({
+  ...selection,
+  ranges: [...selection.ranges.slice(0, -1), range],
+});
+
+const withRange = (selection: Selection, mode: SelectMode, active: GridCell, range: RangeRef): Selection => {
+  if (mode === 'extend') return replaceLast(selection, range);
+  const ranges = mode === 'add' ? [...selection.ranges, range] : [range];
+  return { active, anchor: active, ranges };
+};
+
+/** Selects a cell, extends the last range to it, or adds it as a new range. */
+export const selectCell = (selection: Selection, cell: GridCell, mode: SelectMode): Selection =>
+  withRange(selection, mode, cell, rangeBetween(mode === 'extend' ? selection.anchor : cell, cell));
+
+/** Selects whole rows from a click on a row number; extending covers every row from the anchor's. */
+export const selectRow = (selection: Selection, row: number, mode: SelectMode): Selection => {
+  const from = mode === 'extend' ? selection.anchor.row : row;
+  const range = normalizeRange({ start: ref({ row: from, col: 0 }), end: ref({ row, col: MAX_COLS - 1 }) });
+  return withRange(selection, mode, { row, col: 0 }, range);
+};
+
+/** Selects whole columns from a click on a column letter; extending covers every column from the anchor's. */
+export const selectColumn = (selection: Selection, col: number, mode: SelectMode): Selection => {
+  const from = mode === 'extend' ? selection.anchor.col : col;
+  const range = normalizeRange({ start: ref({ row: 0, col: from }), end: ref({ row: MAX_ROWS - 1, col }) });
+  return withRange(selection, mode, { row: 0, col }, range);
+};
+
+/** The corner of the last range opposite the anchor, which Shift+arrows move. */
+export const selectionCorner = ({ anchor, ranges }: Selection): GridCell => {
+  const range = ranges[ranges.length - 1];
+  return {
+    row: anchor.row === range.start.row ? range.end.row : range.start.row,
+    col: anchor.col === range.start.col ? range.end.col : range.start.col,
+  };
+};
+
+/**
+ * Shift+arrow: moves the corner of the last range opposite the anchor by one
+ * cell, keeping it within `rows` by `cols`, so the range grows or shrinks.
+ */
+export const extendSelectionBy = (selection: Selection, rowDelta: number, colDelta: number, rows: number, cols: number): Selection => {
+  const range = selection.ranges[selection.ranges.length - 1];
+  const { anchor } = selection;
+  const corner = selectionCorner(selection);
+  const step = (from: number, delta: number, size: number) => Math.max(0, Math.min(Math.min(from, size - 1) + delta, size - 1));
+  // Whole rows stay whole rows as they grow, and whole columns whole columns
+  const wholeRows = range.start.col === 0 && range.end.col === MAX_COLS - 1;
+  const wholeColumns = range.start.row === 0 && range.end.row === MAX_ROWS - 1;
+  const moved = {
+    row: wholeColumns ? corner.row : step(corner.row, rowDelta, rows),
+    col: wholeRows ? corner.col : step(corner.col, colDelta, cols),
+  };
+  return replaceLast(selection, rangeBetween(anchor, moved));
+};
+
+const contains = (range: RangeRef, row: number, col: number) =>
+  row >= range.start.row && row <= range.end.row && col >= range.start.col && col <= range.end.col;
+
+export const isCellSelected = (selection: Selection, row: number, col: number) =>
+  selection.ranges.some(range => contains(range, row, col));
+
+/** Whether a row number or column letter should be shaded, because part of it is selected. */
+export const isRowSelected = (selection: Selection, row: number) =>
+  selection.ranges.some(range => row >= range.start.row && row <= range.end.row);
+
+export const isColumnSelected = (selection: Selection, col: number) =>
+  selection.ranges.some(range => col >= range.start.col && col <= range.end.col);
+
+/** Whether more than one cell is selected. */
+export const isMultiCell = ({ ranges }: Selection) =>
+  ranges.length > 1 || ranges[0].start.row !== ranges[0].end.row || ranges[0].start.col !== ranges[0].end.col;
+
+/** The figures Excel's status bar shows for a selection. */
+export interface SelectionAggregates {
+  sum: number;
+  /** Null when no selected cell holds a number. */
+  average: number | null;
+  /** How many selected cells are not empty. */
+  count: number;
+  numericCount: number;
+  min: number | null;
+  max: number | null;
+}
+
+/**
+ * Sums up the selected cells within the first `rows` by `cols`, counting a
+ * cell once however many ranges cover it. As in Excel's status bar, only
+ * numbers are summed and text and logical values are only counted; a single
+ * error in the selection leaves only the count.
+ */
+export const selectionAggregates = (
+  selection: Selection,
+  getValue: (row: number, col: number) => CellValue,
+  rows: number,
+  cols: number,
+): SelectionAggregates => {
+  let sum = 0;
+  let count = 0;
+  let numericCount = 0;
+  let min = Infinity;
+  let max = -Infinity;
+  let hasError = false;
+  selection.ranges.forEach((range, i) => {
+    const earlier = selection.ranges.slice(0, i);
+    for (let row = range.start.row; row <= Math.min(range.end.row, rows - 1); row++) {
+      for (let col = range.start.col; col <= Math.min(range.end.col, cols - 1); col++) {
+        if (earlier.some(other => contains(other, row, col))) continue;
+        const value = getValue(row, col);
+        if (value === null) continue;
+        count++;
+        if (isError(value)) hasError = true;
+        if (typeof value !== 'number') continue;
+        numericCount++;
+        sum += value;
+        min = Math.min(min, value);
+        max = Math.max(max, value);
+      }
+    }
+  });
+  if (hasError) return { sum: 0, average: null, count, numericCount: 0, min: null, max: null };
+  return {
+    sum,
+    average: numericCount > 0 ? sum / numericCount : null,
+    count,
+    numericCount,
+    min: numericCount > 0 ? min : null,
+    max: numericCount > 0 ? max : null,
+  };
+};
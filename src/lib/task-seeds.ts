@@ -0,0 +1,16 @@
+/**
+ * Cells the assessment's tasks start from, as a prepared workbook would, keyed
+ * by address and written as they would be typed. Tasks name their seed with
+ * `seedCells`, and it is written into the sheet when the task begins.
+ */
+
+/**
+ * Seed data for loan-amortisation tasks: a loan's terms in E11:H12 and the
+ * headings of a two-period repayment schedule for the candidate to complete.
+ */
+export const LOAN_AMORTISATION_SEED: Record<string, string> = {
+  E11: 'Loan Amount', F11: '25000', G11: 'Annual Rate', H11: '6%',
+  E12: 'Years', F12: '5', G12: 'Payment',
+  E13: 'Period', F13: 'Interest', G13: 'Principal', H13: 'Balance',
+  E14: '1', E15: '2'
+};
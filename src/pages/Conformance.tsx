@@ -0,0 +1,7 @@
+import ConformanceReport from "@/components/ConformanceReport";
+
+const Conformance = () => {
+  return <ConformanceReport />;
+};
+
+export default Conformance;